@@ -0,0 +1,371 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useFormPersistence } from "@/hooks/use-form-persistence";
+import { apiRequest } from "@/lib/queryClient";
+import type { BayesianRequest, BayesianResult } from "@/lib/api";
+
+interface BayesianFormData {
+  criterion: BayesianRequest["criterion"];
+  testType: string;
+  priorMean: string;
+  priorSd: string;
+  analysisPriorMean: string;
+  analysisPriorSd: string;
+  targetProbability: string;
+  posteriorThreshold: string;
+  intervalWidth: string;
+  credibleLevel: string;
+  alpha: string;
+  dropoutRate: string;
+}
+
+const CRITERION_DESCRIPTIONS: Record<BayesianRequest["criterion"], string> = {
+  assurance: "Expected power averaged over the prior on the effect size",
+  posteriorProbability: "Probability that the posterior will show a positive effect",
+  credibleInterval: "Width of the posterior credible interval for the effect"
+};
+
+export function BayesianCalculator() {
+  const { data: formData, updateData } = useFormPersistence<BayesianFormData>("bayesian", {
+    criterion: "assurance",
+    testType: "two-sample t-test",
+    priorMean: "",
+    priorSd: "",
+    analysisPriorMean: "",
+    analysisPriorSd: "",
+    targetProbability: "0.80",
+    posteriorThreshold: "0.975",
+    intervalWidth: "",
+    credibleLevel: "0.95",
+    alpha: "0.05",
+    dropoutRate: "0"
+  });
+  const [results, setResults] = useState<BayesianResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const calculateBayesian = useMutation({
+    mutationFn: async (data: BayesianRequest) => {
+      const response = await apiRequest("POST", "/api/sample-size/bayesian", data);
+      return response.json() as Promise<BayesianResult>;
+    },
+    onSuccess: (data) => {
+      setResults(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/sample-size"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to calculate the Bayesian sample size. Please check your inputs.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isInterval = formData.criterion === "credibleInterval";
+  const optionalNumber = (value: string) => value.trim() === "" ? undefined : parseFloat(value);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const hasInputs = formData.priorSd && (isInterval ? formData.intervalWidth : formData.priorMean);
+    if (!hasInputs) {
+      toast({
+        title: "Missing Information",
+        description: "Please fill in all required fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const request: BayesianRequest = {
+      criterion: formData.criterion,
+      testType: formData.testType,
+      priorMean: optionalNumber(formData.priorMean),
+      priorSd: parseFloat(formData.priorSd),
+      dropoutRate: parseFloat(formData.dropoutRate) || 0
+    };
+    if (formData.criterion === "assurance") {
+      request.alpha = parseFloat(formData.alpha);
+    } else {
+      request.analysisPriorMean = optionalNumber(formData.analysisPriorMean);
+      request.analysisPriorSd = optionalNumber(formData.analysisPriorSd);
+    }
+    if (isInterval) {
+      request.intervalWidth = parseFloat(formData.intervalWidth);
+      request.credibleLevel = parseFloat(formData.credibleLevel);
+    } else {
+      request.targetProbability = parseFloat(formData.targetProbability);
+    }
+    if (formData.criterion === "posteriorProbability") {
+      request.posteriorThreshold = parseFloat(formData.posteriorThreshold);
+    }
+
+    calculateBayesian.mutate(request);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-purple-100 dark:bg-purple-900 rounded-lg flex items-center justify-center">
+            <i className="fas fa-chart-area text-purple-600"></i>
+          </div>
+          <div>
+            <CardTitle>Bayesian Sample Size</CardTitle>
+            <p className="text-sm text-slate-500 dark:text-slate-400">{CRITERION_DESCRIPTIONS[formData.criterion]}</p>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <form onSubmit={handleSubmit} className="lg:col-span-2 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="bayesian-criterion">Criterion</Label>
+                <Select
+                  value={formData.criterion}
+                  onValueChange={(value) => updateData({ criterion: value as BayesianFormData["criterion"] })}
+                >
+                  <SelectTrigger id="bayesian-criterion">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="assurance">Assurance</SelectItem>
+                    <SelectItem value="posteriorProbability">Posterior probability</SelectItem>
+                    <SelectItem value="credibleInterval">Credible interval width</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="bayesian-test-type">Design</Label>
+                <Select value={formData.testType} onValueChange={(value) => updateData({ testType: value })}>
+                  <SelectTrigger id="bayesian-test-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="two-sample t-test">Two-sample t-test</SelectItem>
+                    <SelectItem value="paired t-test">Paired t-test</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="prior-mean">Prior Mean (Cohen's d){isInterval ? " (optional)" : ""}</Label>
+                <Input
+                  id="prior-mean"
+                  type="number"
+                  step="any"
+                  placeholder="0.5"
+                  value={formData.priorMean}
+                  onChange={(e) => updateData({ priorMean: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="prior-sd">Prior SD</Label>
+                <Input
+                  id="prior-sd"
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder="0.2"
+                  value={formData.priorSd}
+                  onChange={(e) => updateData({ priorSd: e.target.value })}
+                />
+              </div>
+
+              {formData.criterion !== "assurance" && (
+                <>
+                  <div>
+                    <Label htmlFor="analysis-prior-mean">Analysis Prior Mean (optional)</Label>
+                    <Input
+                      id="analysis-prior-mean"
+                      type="number"
+                      step="any"
+                      placeholder="0 (vague)"
+                      value={formData.analysisPriorMean}
+                      onChange={(e) => updateData({ analysisPriorMean: e.target.value })}
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor="analysis-prior-sd">Analysis Prior SD (optional)</Label>
+                    <Input
+                      id="analysis-prior-sd"
+                      type="number"
+                      step="any"
+                      min="0"
+                      placeholder="10 (vague)"
+                      value={formData.analysisPriorSd}
+                      onChange={(e) => updateData({ analysisPriorSd: e.target.value })}
+                    />
+                  </div>
+                </>
+              )}
+
+              {isInterval ? (
+                <>
+                  <div>
+                    <Label htmlFor="interval-width">Interval Width (Cohen's d)</Label>
+                    <Input
+                      id="interval-width"
+                      type="number"
+                      step="any"
+                      min="0"
+                      placeholder="0.5"
+                      value={formData.intervalWidth}
+                      onChange={(e) => updateData({ intervalWidth: e.target.value })}
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor="credible-level">Credible Level</Label>
+                    <Select value={formData.credibleLevel} onValueChange={(value) => updateData({ credibleLevel: value })}>
+                      <SelectTrigger id="credible-level">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0.9">90%</SelectItem>
+                        <SelectItem value="0.95">95%</SelectItem>
+                        <SelectItem value="0.99">99%</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              ) : (
+                <div>
+                  <Label htmlFor="target-probability">
+                    {formData.criterion === "assurance" ? "Target Assurance" : "Target Probability of Success"}
+                  </Label>
+                  <Select value={formData.targetProbability} onValueChange={(value) => updateData({ targetProbability: value })}>
+                    <SelectTrigger id="target-probability">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0.70">0.70 (70%)</SelectItem>
+                      <SelectItem value="0.80">0.80 (80%)</SelectItem>
+                      <SelectItem value="0.90">0.90 (90%)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {formData.criterion === "assurance" && (
+                <div>
+                  <Label htmlFor="bayesian-alpha">Alpha (α)</Label>
+                  <Select value={formData.alpha} onValueChange={(value) => updateData({ alpha: value })}>
+                    <SelectTrigger id="bayesian-alpha">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0.05">0.05 (5%)</SelectItem>
+                      <SelectItem value="0.01">0.01 (1%)</SelectItem>
+                      <SelectItem value="0.001">0.001 (0.1%)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {formData.criterion === "posteriorProbability" && (
+                <div>
+                  <Label htmlFor="posterior-threshold">Success Threshold P(δ &gt; 0 | data)</Label>
+                  <Input
+                    id="posterior-threshold"
+                    type="number"
+                    step="0.005"
+                    min="0.5"
+                    max="0.999"
+                    placeholder="0.975"
+                    value={formData.posteriorThreshold}
+                    onChange={(e) => updateData({ posteriorThreshold: e.target.value })}
+                  />
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="bayesian-dropout">Expected Dropout</Label>
+                <Input
+                  id="bayesian-dropout"
+                  type="number"
+                  step="0.05"
+                  min="0"
+                  max="0.99"
+                  placeholder="0.20"
+                  value={formData.dropoutRate}
+                  onChange={(e) => updateData({ dropoutRate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full bg-purple-600 hover:bg-purple-700"
+              disabled={calculateBayesian.isPending}
+            >
+              {calculateBayesian.isPending ? "Calculating..." : "Calculate Sample Size"}
+            </Button>
+          </form>
+
+          <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">Calculation Results</h4>
+            {results ? (
+              <div className="space-y-3">
+                <div className="bg-white dark:bg-slate-800 rounded-lg p-3">
+                  <p className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wide">Required Sample Size</p>
+                  <p className="text-2xl font-bold text-purple-600 dark:text-purple-400">{results.sampleSize}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">per group</p>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="bg-white dark:bg-slate-800 rounded p-2">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">Total N</p>
+                    <p className="font-semibold text-slate-900 dark:text-white">{results.totalSampleSize}</p>
+                  </div>
+                  <div className="bg-white dark:bg-slate-800 rounded p-2">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      +{Math.round(results.attrition.dropoutRate * 1000) / 10}% Dropout
+                    </p>
+                    <p className="font-semibold text-slate-900 dark:text-white">{results.adjustedSampleSize}</p>
+                  </div>
+                  {results.achievedProbability !== undefined && (
+                    <div className="bg-white dark:bg-slate-800 rounded p-2">
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {results.criterion === "assurance" ? "Achieved Assurance" : "Probability of Success"}
+                      </p>
+                      <p className="font-semibold text-slate-900 dark:text-white">{(results.achievedProbability * 100).toFixed(1)}%</p>
+                    </div>
+                  )}
+                  {results.achievedWidth !== undefined && (
+                    <div className="bg-white dark:bg-slate-800 rounded p-2">
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Interval Width</p>
+                      <p className="font-semibold text-slate-900 dark:text-white">{results.achievedWidth}</p>
+                    </div>
+                  )}
+                  {results.frequentistSampleSize !== undefined && (
+                    <div className="bg-white dark:bg-slate-800 rounded p-2">
+                      <p className="text-xs text-slate-500 dark:text-slate-400">n at Prior Mean</p>
+                      <p className="font-semibold text-slate-900 dark:text-white">{results.frequentistSampleSize}</p>
+                    </div>
+                  )}
+                </div>
+                <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
+                  <p><strong>Formula:</strong> {results.formula}</p>
+                  <p><strong>Assumptions:</strong> {results.assumptions.map((assumption) => assumption.text).join(", ")}</p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-slate-400">Enter a prior to see results</p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, Scatter, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { api, type DatasetDiagnosticsResult, type DatasetVariableDiagnostics } from "@/lib/api";
+
+interface SampleSizeCalculation {
+  id: string;
+  testType: string;
+  hypothesisType: string;
+  totalSampleSize: number;
+}
+
+const NONE = "none";
+
+const STATUS_STYLES: Record<DatasetDiagnosticsResult["assumptionChecks"][number]["status"], { label: string; className: string }> = {
+  consistent: { label: "Consistent", className: "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-100" },
+  violated: { label: "Violated", className: "bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-100" },
+  notTestable: { label: "Not testable", className: "bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-100" }
+};
+
+const histogramConfig: ChartConfig = { count: { label: "Count", color: "var(--chart-1)" } };
+const qqConfig: ChartConfig = {
+  observed: { label: "Observed", color: "var(--chart-1)" },
+  expected: { label: "Normal reference", color: "var(--chart-2)" }
+};
+
+const variableLabel = (variable: DatasetVariableDiagnostics) =>
+  variable.group !== undefined ? `${variable.column} (${variable.group})` : variable.column;
+
+export function DatasetDiagnostics() {
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [options, setOptions] = useState({ outcome: NONE, group: NONE, calculationId: NONE, alpha: "0.05" });
+  const [results, setResults] = useState<DatasetDiagnosticsResult | null>(null);
+  const [selectedVariable, setSelectedVariable] = useState(0);
+  const { toast } = useToast();
+
+  const { data: calculations = [] } = useQuery<SampleSizeCalculation[]>({
+    queryKey: ["/api/sample-size"],
+  });
+
+  const runDiagnostics = useMutation({
+    mutationFn: () => api.datasets.diagnostics(csv, {
+      outcome: options.outcome === NONE ? undefined : options.outcome,
+      group: options.group === NONE ? undefined : options.group,
+      calculationId: options.calculationId === NONE ? undefined : options.calculationId,
+      alpha: parseFloat(options.alpha)
+    }),
+    onSuccess: (data) => {
+      setResults(data);
+      setSelectedVariable(0);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not analyze the dataset. Check that the chosen columns exist and are numeric.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result ?? "");
+      const header = text.split(/\r?\n/, 1)[0] ?? "";
+      setCsv(text);
+      setFileName(file.name);
+      setColumns(header.split(",").map((name) => name.trim().replace(/^"(.*)"$/, "$1")).filter((name) => name !== ""));
+      setOptions({ ...options, outcome: NONE, group: NONE });
+      setResults(null);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!csv) return;
+    runDiagnostics.mutate();
+  };
+
+  const variable = results?.variables[selectedVariable];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-purple-100 dark:bg-purple-900 rounded-lg flex items-center justify-center">
+            <i className="fas fa-microscope text-purple-600"></i>
+          </div>
+          <div>
+            <CardTitle>Dataset Diagnostics</CardTitle>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Check distributional assumptions against collected data</p>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="dataset-file">CSV file (header row required)</Label>
+              <Input id="dataset-file" type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+              {fileName && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{fileName}: {columns.length} columns</p>
+              )}
+            </div>
+            {(["outcome", "group"] as const).map((key) => (
+              <div key={key}>
+                <Label htmlFor={`dataset-${key}`}>{key === "outcome" ? "Outcome for assumption checks" : "Group"}</Label>
+                <Select value={options[key]} onValueChange={(value) => setOptions({ ...options, [key]: value })}>
+                  <SelectTrigger id={`dataset-${key}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>{key === "outcome" ? "First numeric column" : "None"}</SelectItem>
+                    {columns.map((column) => (
+                      <SelectItem key={column} value={column}>{column}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <div className="lg:col-span-2">
+              <Label htmlFor="dataset-calculation">Check assumptions of</Label>
+              <Select value={options.calculationId} onValueChange={(value) => setOptions({ ...options, calculationId: value })}>
+                <SelectTrigger id="dataset-calculation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No calculation</SelectItem>
+                  {calculations.map((calculation) => (
+                    <SelectItem key={calculation.id} value={calculation.id}>
+                      {calculation.testType} ({calculation.hypothesisType}), N = {calculation.totalSampleSize}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="dataset-alpha">Diagnostic test α</Label>
+              <Input
+                id="dataset-alpha"
+                type="number"
+                step="0.01"
+                min="0.001"
+                max="0.5"
+                value={options.alpha}
+                onChange={(e) => setOptions({ ...options, alpha: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="bg-purple-600 hover:bg-purple-700" disabled={!csv || runDiagnostics.isPending}>
+            {runDiagnostics.isPending ? (
+              <>
+                <i className="fas fa-spinner fa-spin mr-2"></i>
+                Analyzing...
+              </>
+            ) : (
+              <>
+                <i className="fas fa-microscope mr-2"></i>
+                Run Diagnostics
+              </>
+            )}
+          </Button>
+        </form>
+
+        {results && (
+          <div className="space-y-6">
+            {results.assumptionChecks.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300">Assumption Checks</h4>
+                {results.assumptionChecks.map((check, i) => (
+                  <div key={i} className="flex items-start gap-3 text-sm">
+                    <Badge className={STATUS_STYLES[check.status].className}>{STATUS_STYLES[check.status].label}</Badge>
+                    <div>
+                      <p className="text-slate-900 dark:text-white">{check.assumption}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">{check.detail}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Descriptive Statistics</h4>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-slate-500 dark:text-slate-400">
+                    {["Variable", "n", "Missing", "Mean", "SD", "Median", "IQR", "Range", "Skew", "Kurtosis", "Shapiro-Wilk p", "Outliers"].map((heading) => (
+                      <th key={heading} className="font-medium pr-3">{heading}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="text-slate-900 dark:text-white">
+                  {results.variables.map((row, i) => (
+                    <tr
+                      key={i}
+                      className={`cursor-pointer ${i === selectedVariable ? "bg-purple-50 dark:bg-purple-950" : ""}`}
+                      onClick={() => setSelectedVariable(i)}
+                    >
+                      <td className="pr-3">{variableLabel(row)}</td>
+                      <td className="pr-3">{row.descriptives.n}</td>
+                      <td className="pr-3">{row.descriptives.missing}</td>
+                      <td className="pr-3">{row.descriptives.mean}</td>
+                      <td className="pr-3">{row.descriptives.sd}</td>
+                      <td className="pr-3">{row.descriptives.median}</td>
+                      <td className="pr-3">{row.descriptives.q1} to {row.descriptives.q3}</td>
+                      <td className="pr-3">{row.descriptives.min} to {row.descriptives.max}</td>
+                      <td className="pr-3">{row.descriptives.skewness ?? "—"}</td>
+                      <td className="pr-3">{row.descriptives.kurtosis ?? "—"}</td>
+                      <td className={`pr-3 ${row.normality && row.normality.pValue < results.alpha ? "text-red-600" : ""}`}>
+                        {row.normality?.pValue ?? "—"}
+                      </td>
+                      <td className="pr-3">{row.outliers.rows.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {results.varianceEquality.length > 0 && (
+              <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
+                {results.varianceEquality.map((entry) => (
+                  <p key={entry.column}>
+                    {entry.column}:{" "}
+                    {entry.tests.map((test) => `${test.test} F(${test.df1}, ${test.df2}) = ${test.statistic}, p = ${test.pValue}`).join("; ")}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {variable && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="border border-slate-200 dark:border-slate-700 rounded-lg p-4">
+                  <h5 className="font-medium text-slate-900 dark:text-white mb-3">Histogram: {variableLabel(variable)}</h5>
+                  <ChartContainer config={histogramConfig} className="aspect-auto h-64 w-full">
+                    <BarChart data={variable.histogram.map((bin) => ({ ...bin, label: `${bin.start}–${bin.end}` }))}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+                <div className="border border-slate-200 dark:border-slate-700 rounded-lg p-4">
+                  <h5 className="font-medium text-slate-900 dark:text-white mb-3">Normal Q-Q Plot: {variableLabel(variable)}</h5>
+                  <ChartContainer config={qqConfig} className="aspect-auto h-64 w-full">
+                    <ComposedChart data={variable.qqPlot} margin={{ top: 8, left: 8, right: 16, bottom: 16 }}>
+                      <CartesianGrid />
+                      <XAxis
+                        dataKey="theoretical"
+                        type="number"
+                        domain={["dataMin", "dataMax"]}
+                        tickLine={false}
+                        axisLine={false}
+                        label={{ value: "Theoretical quantile", position: "insideBottom", offset: -12 }}
+                      />
+                      <YAxis type="number" domain={["auto", "auto"]} tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line dataKey="expected" stroke="var(--color-expected)" strokeWidth={2} dot={false} />
+                      <Scatter dataKey="observed" fill="var(--color-observed)" />
+                    </ComposedChart>
+                  </ChartContainer>
+                </div>
+              </div>
+            )}
+
+            {variable && variable.outliers.rows.length > 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Outliers in {variableLabel(variable)} beyond {variable.outliers.lowerFence} to {variable.outliers.upperFence}:{" "}
+                {variable.outliers.rows.map((row, i) => `row ${row} (${variable.outliers.values[i]})`).join(", ")}
+              </p>
+            )}
+
+            {results.notes.length > 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">{results.notes.join("; ")}</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  EffectSizeConversionRequest,
+  EffectSizeEstimateRequest,
+  EffectSizeMetric,
+  EffectSizeResult,
+  EffectSizeSet
+} from "@/lib/api";
+
+const METRIC_LABELS: Record<keyof EffectSizeSet, string> = {
+  d: "Cohen's d",
+  g: "Hedges' g",
+  f: "Cohen's f",
+  f2: "Cohen's f²",
+  r: "Correlation r",
+  eta2: "η²",
+  oddsRatio: "Odds ratio",
+  riskRatio: "Risk ratio",
+  h: "Cohen's h",
+  riskDifference: "Risk difference",
+  baselineProportion: "Control proportion",
+  treatmentProportion: "Treatment proportion"
+};
+
+type EstimateSource = EffectSizeEstimateRequest["source"];
+
+const SOURCE_FIELDS: Record<EstimateSource, { key: string; label: string; optional?: boolean }[]> = {
+  means: [
+    { key: "mean1", label: "Treatment mean" },
+    { key: "sd1", label: "Treatment SD" },
+    { key: "n1", label: "Treatment n" },
+    { key: "mean2", label: "Control mean" },
+    { key: "sd2", label: "Control SD" },
+    { key: "n2", label: "Control n" }
+  ],
+  tStatistic: [
+    { key: "t", label: "t statistic" },
+    { key: "n1", label: "n₁ (or pairs)" },
+    { key: "n2", label: "n₂ (blank if paired)", optional: true }
+  ],
+  fStatistic: [
+    { key: "f", label: "F statistic" },
+    { key: "df1", label: "df₁ (effect)" },
+    { key: "df2", label: "df₂ (error)" }
+  ],
+  twoByTwo: [
+    { key: "treatmentEvents", label: "Treatment events" },
+    { key: "treatmentTotal", label: "Treatment total" },
+    { key: "controlEvents", label: "Control events" },
+    { key: "controlTotal", label: "Control total" }
+  ]
+};
+
+interface EffectSizeConverterProps {
+  onApply: (effects: EffectSizeSet) => void;
+}
+
+export function EffectSizeConverter({ onApply }: EffectSizeConverterProps) {
+  const [mode, setMode] = useState<"convert" | "estimate">("convert");
+  const [conversion, setConversion] = useState({ metric: "d" as EffectSizeMetric, value: "", n1: "", n2: "", groups: "2", baselineProportion: "" });
+  const [source, setSource] = useState<EstimateSource>("means");
+  const [summaries, setSummaries] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<EffectSizeResult | null>(null);
+  const { toast } = useToast();
+
+  const computeEffectSize = useMutation({
+    mutationFn: async (request: { url: string; body: EffectSizeConversionRequest | EffectSizeEstimateRequest }) => {
+      const response = await apiRequest("POST", request.url, request.body);
+      return response.json() as Promise<EffectSizeResult>;
+    },
+    onSuccess: (data) => setResult(data),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not compute the effect size. Please check your inputs.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const optionalNumber = (value: string) => value.trim() === "" ? undefined : parseFloat(value);
+
+  const handleCompute = () => {
+    if (mode === "convert") {
+      if (conversion.value.trim() === "") return;
+      computeEffectSize.mutate({
+        url: "/api/effect-size/convert",
+        body: {
+          metric: conversion.metric,
+          value: parseFloat(conversion.value),
+          n1: optionalNumber(conversion.n1),
+          n2: optionalNumber(conversion.n2),
+          groups: optionalNumber(conversion.groups),
+          baselineProportion: optionalNumber(conversion.baselineProportion)
+        }
+      });
+      return;
+    }
+
+    const fields = SOURCE_FIELDS[source];
+    if (fields.some((field) => !field.optional && !summaries[field.key]?.trim())) return;
+    const body = Object.fromEntries(fields.map((field) => [field.key, optionalNumber(summaries[field.key] ?? "")]));
+    computeEffectSize.mutate({ url: "/api/effect-size/estimate", body: { source, ...body } as EffectSizeEstimateRequest });
+  };
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg p-4 space-y-4">
+      <h5 className="font-medium text-slate-900 dark:text-white flex items-center">
+        <i className="fas fa-exchange-alt text-purple-600 mr-2"></i>
+        Effect Size Helper
+      </h5>
+
+      <Tabs value={mode} onValueChange={(value) => setMode(value as typeof mode)}>
+        <TabsList>
+          <TabsTrigger value="convert">Convert</TabsTrigger>
+          <TabsTrigger value="estimate">From Summaries</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="convert" className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor="convert-metric">Metric</Label>
+            <Select
+              value={conversion.metric}
+              onValueChange={(value) => setConversion({ ...conversion, metric: value as EffectSizeMetric })}
+            >
+              <SelectTrigger id="convert-metric">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(["d", "g", "f", "f2", "r", "eta2", "oddsRatio", "riskRatio", "h"] as EffectSizeMetric[]).map((metric) => (
+                  <SelectItem key={metric} value={metric}>{METRIC_LABELS[metric]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {([
+            ["value", "Value"],
+            ["n1", "n₁ (optional)"],
+            ["n2", "n₂ (optional)"],
+            ["groups", "Groups"],
+            ["baselineProportion", "Control proportion (optional)"]
+          ] as const).map(([key, label]) => (
+            <div key={key}>
+              <Label htmlFor={`convert-${key}`}>{label}</Label>
+              <Input
+                id={`convert-${key}`}
+                type="number"
+                step="any"
+                value={conversion[key]}
+                onChange={(e) => setConversion({ ...conversion, [key]: e.target.value })}
+              />
+            </div>
+          ))}
+        </TabsContent>
+
+        <TabsContent value="estimate" className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor="estimate-source">Summary Type</Label>
+            <Select
+              value={source}
+              onValueChange={(value) => {
+                setSource(value as EstimateSource);
+                setSummaries({});
+              }}
+            >
+              <SelectTrigger id="estimate-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="means">Means and SDs</SelectItem>
+                <SelectItem value="tStatistic">t statistic</SelectItem>
+                <SelectItem value="fStatistic">F statistic</SelectItem>
+                <SelectItem value="twoByTwo">2×2 table</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {SOURCE_FIELDS[source].map((field) => (
+            <div key={field.key}>
+              <Label htmlFor={`estimate-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`estimate-${field.key}`}
+                type="number"
+                step="any"
+                value={summaries[field.key] ?? ""}
+                onChange={(e) => setSummaries({ ...summaries, [field.key]: e.target.value })}
+              />
+            </div>
+          ))}
+        </TabsContent>
+      </Tabs>
+
+      <Button type="button" variant="outline" size="sm" onClick={handleCompute} disabled={computeEffectSize.isPending}>
+        {computeEffectSize.isPending ? "Computing..." : "Compute"}
+      </Button>
+
+      {result && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {(Object.keys(METRIC_LABELS) as (keyof EffectSizeSet)[])
+              .filter((metric) => result.effectSizes[metric] !== undefined)
+              .map((metric) => (
+                <div key={metric} className="bg-slate-50 dark:bg-slate-700 rounded p-2">
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{METRIC_LABELS[metric]}</p>
+                  <p className="font-semibold text-slate-900 dark:text-white">{result.effectSizes[metric]}</p>
+                </div>
+              ))}
+          </div>
+          {result.confidenceInterval && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {result.confidenceInterval.level * 100}% CI for {METRIC_LABELS[result.confidenceInterval.metric]}:{" "}
+              {result.confidenceInterval.lower} to {result.confidenceInterval.upper}
+            </p>
+          )}
+          <p className="text-xs text-slate-500 dark:text-slate-400">{result.notes.join("; ")}</p>
+          <Button type="button" size="sm" className="bg-purple-600 hover:bg-purple-700" onClick={() => onApply(result.effectSizes)}>
+            <i className="fas fa-arrow-up mr-2"></i>
+            Use in Calculator
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
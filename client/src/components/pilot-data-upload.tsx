@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api, type PilotDataOptions, type PilotDataResult } from "@/lib/api";
+
+const EFFECT_LABELS: Record<NonNullable<PilotDataResult["effect"]>["metric"], string> = {
+  d: "Cohen's d",
+  f: "Cohen's f",
+  riskDifference: "Risk difference"
+};
+
+const NONE = "none";
+
+interface PilotDataUploadProps {
+  onApply: (prefill: NonNullable<PilotDataResult["prefill"]>) => void;
+}
+
+// Reads only the header line; quoted column names have their quotes removed
+function readColumns(csv: string): string[] {
+  const header = csv.split(/\r?\n/, 1)[0] ?? "";
+  return header
+    .split(",")
+    .map((name) => name.trim().replace(/^"(.*)"$/, "$1"))
+    .filter((name) => name !== "");
+}
+
+export function PilotDataUpload({ onApply }: PilotDataUploadProps) {
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [options, setOptions] = useState({ outcome: "", group: NONE, covariate: NONE, controlGroup: "", sdSource: "observed", seed: "" });
+  const [result, setResult] = useState<PilotDataResult | null>(null);
+  const { toast } = useToast();
+
+  const analyzePilotData = useMutation({
+    mutationFn: (request: PilotDataOptions) => api.pilotData.analyze(csv, request),
+    onSuccess: (data) => setResult(data),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not analyze the pilot data. Check the column choices and that the outcome is numeric.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result ?? "");
+      const names = readColumns(text);
+      setCsv(text);
+      setFileName(file.name);
+      setColumns(names);
+      setOptions({ ...options, outcome: names[0] ?? "", group: NONE, covariate: NONE, controlGroup: "" });
+      setResult(null);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleAnalyze = () => {
+    if (!csv || !options.outcome) return;
+    analyzePilotData.mutate({
+      outcome: options.outcome,
+      group: options.group === NONE ? undefined : options.group,
+      controlGroup: options.group === NONE || !options.controlGroup.trim() ? undefined : options.controlGroup.trim(),
+      covariate: options.covariate === NONE ? undefined : options.covariate,
+      conservativeSd: options.sdSource === "upperConfidenceLimit",
+      seed: options.seed.trim() === "" ? undefined : parseInt(options.seed)
+    });
+  };
+
+  const columnSelect = (key: "outcome" | "group" | "covariate", label: string, optional: boolean) => (
+    <div>
+      <Label htmlFor={`pilot-${key}`}>{label}</Label>
+      <Select value={options[key]} onValueChange={(value) => setOptions({ ...options, [key]: value })}>
+        <SelectTrigger id={`pilot-${key}`}>
+          <SelectValue placeholder="Select column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NONE}>None</SelectItem>}
+          {columns.map((column) => (
+            <SelectItem key={column} value={column}>{column}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg p-4 space-y-4">
+      <h5 className="font-medium text-slate-900 dark:text-white flex items-center">
+        <i className="fas fa-file-csv text-purple-600 mr-2"></i>
+        Pilot Data
+      </h5>
+
+      <div>
+        <Label htmlFor="pilot-file">CSV file (header row required)</Label>
+        <Input id="pilot-file" type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+        {fileName && (
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{fileName}: {columns.length} columns</p>
+        )}
+      </div>
+
+      {columns.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {columnSelect("outcome", "Outcome", false)}
+          {columnSelect("group", "Group", true)}
+          {options.group === NONE ? (
+            columnSelect("covariate", "Correlate with", true)
+          ) : (
+            <div>
+              <Label htmlFor="pilot-control">Control group (optional)</Label>
+              <Input
+                id="pilot-control"
+                placeholder="First group in file"
+                value={options.controlGroup}
+                onChange={(e) => setOptions({ ...options, controlGroup: e.target.value })}
+              />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="pilot-sd">SD for planning</Label>
+            <Select value={options.sdSource} onValueChange={(value) => setOptions({ ...options, sdSource: value })}>
+              <SelectTrigger id="pilot-sd">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="observed">Observed pooled SD</SelectItem>
+                <SelectItem value="upperConfidenceLimit">Upper 95% confidence limit</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="pilot-seed">Bootstrap seed (optional)</Label>
+            <Input
+              id="pilot-seed"
+              type="number"
+              step="1"
+              value={options.seed}
+              onChange={(e) => setOptions({ ...options, seed: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      <Button type="button" variant="outline" size="sm" onClick={handleAnalyze} disabled={!csv || analyzePilotData.isPending}>
+        {analyzePilotData.isPending ? "Analyzing..." : "Analyze"}
+      </Button>
+
+      {result && (
+        <div className="space-y-2">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-slate-500 dark:text-slate-400">
+                <th className="font-medium">Group</th>
+                <th className="font-medium">n</th>
+                <th className="font-medium">Missing</th>
+                <th className="font-medium">{result.outcomeType === "binary" ? "Proportion" : "Mean"}</th>
+                <th className="font-medium">SD</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-900 dark:text-white">
+              {result.groups.map((group) => (
+                <tr key={group.name}>
+                  <td>{group.name}</td>
+                  <td>{group.n}</td>
+                  <td>{group.missing}</td>
+                  <td>{group.proportion ?? group.mean}</td>
+                  <td>{group.sd}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {result.pooledSd !== undefined && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Pooled SD {result.pooledSd}
+              {result.pooledSdInterval && ` (${result.confidenceLevel * 100}% CI ${result.pooledSdInterval[0]} to ${result.pooledSdInterval[1]})`}
+            </p>
+          )}
+          {result.effect && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {EFFECT_LABELS[result.effect.metric]} {result.effect.value} ({result.confidenceLevel * 100}% bootstrap CI{" "}
+              {result.effect.confidenceInterval[0]} to {result.effect.confidenceInterval[1]}): {result.effect.description}
+            </p>
+          )}
+          {result.correlations.length > 0 && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Correlations with {options.outcome}:{" "}
+              {result.correlations.map((correlation) => `${correlation.column} r = ${correlation.r}`).join(", ")}
+            </p>
+          )}
+          {result.notes.length > 0 && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">{result.notes.join("; ")}</p>
+          )}
+          {result.prefill && (
+            <Button type="button" size="sm" className="bg-purple-600 hover:bg-purple-700" onClick={() => onApply(result.prefill!)}>
+              <i className="fas fa-arrow-up mr-2"></i>
+              Use in Calculator
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
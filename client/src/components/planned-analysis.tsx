@@ -0,0 +1,398 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { api, type PlannedAnalysisOptions, type PlannedAnalysisResult } from "@/lib/api";
+
+interface SampleSizeCalculation {
+  id: string;
+  testType: string;
+  hypothesisType: string;
+  totalSampleSize: number;
+  solveFor: string;
+  multiplicity?: { endpoints: { testType: string }[] } | null;
+}
+
+type ColumnField = "group" | "pairedWith" | "covariate";
+
+// Test types the server can analyze, with the columns each one needs besides the outcome
+const ANALYSIS_TESTS: Record<string, { label: string; columns: ColumnField[]; regression?: boolean }> = {
+  "two-sample t-test": { label: "Two-sample t-test", columns: ["group"] },
+  "paired t-test": { label: "Paired t-test", columns: ["pairedWith"] },
+  "one-way anova": { label: "One-way ANOVA", columns: ["group"] },
+  "chi-square test": { label: "Chi-square test of independence", columns: ["group"] },
+  "chi-square goodness-of-fit test": { label: "Chi-square goodness of fit", columns: [] },
+  "correlation test": { label: "Correlation test", columns: ["covariate"] },
+  "mann-whitney test": { label: "Mann-Whitney test", columns: ["group"] },
+  "linear regression": { label: "Linear regression", columns: [], regression: true }
+};
+
+const TEST_ALIASES: Record<string, string> = {
+  "independent t-test": "two-sample t-test",
+  "dependent t-test": "paired t-test",
+  "chi-square independence test": "chi-square test",
+  "wilcoxon rank-sum test": "mann-whitney test",
+  "multiple linear regression": "linear regression"
+};
+
+const COLUMN_LABELS: Record<ColumnField, string> = {
+  group: "Group column",
+  pairedWith: "Second measurement",
+  covariate: "Second variable"
+};
+
+const EFFECT_LABELS: Record<PlannedAnalysisResult["effectSize"]["metric"], string> = {
+  d: "Cohen's d",
+  dz: "Cohen's d_z",
+  f: "Cohen's f",
+  w: "Cohen's w",
+  r: "Correlation r",
+  f2: "Cohen's f²",
+  rankBiserial: "Rank-biserial r"
+};
+
+const NONE = "none";
+
+export function PlannedAnalysis() {
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [formData, setFormData] = useState({
+    calculationId: NONE,
+    testType: "two-sample t-test",
+    outcome: "",
+    group: "",
+    controlGroup: "",
+    pairedWith: "",
+    covariate: "",
+    predictors: "",
+    covariates: ""
+  });
+  const [results, setResults] = useState<PlannedAnalysisResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: calculations = [] } = useQuery<SampleSizeCalculation[]>({
+    queryKey: ["/api/sample-size"],
+  });
+
+  const linkedCalculation = calculations.find((calculation) => calculation.id === formData.calculationId);
+  const linkedTest = linkedCalculation ? linkedCalculation.testType.toLowerCase() : undefined;
+  const testType = linkedTest ? TEST_ALIASES[linkedTest] ?? linkedTest : formData.testType;
+  const testConfig = ANALYSIS_TESTS[testType];
+  const analyzableCalculations = calculations.filter((calculation) => {
+    const type = calculation.testType.toLowerCase();
+    // The server only links multi-endpoint calculations whose endpoints share the calculation's test
+    const mixedTests = calculation.multiplicity?.endpoints.some((endpoint) => endpoint.testType.toLowerCase() !== type);
+    return ANALYSIS_TESTS[TEST_ALIASES[type] ?? type] !== undefined && !mixedTests;
+  });
+
+  const updateData = (updates: Partial<typeof formData>) => setFormData({ ...formData, ...updates });
+
+  const runAnalysis = useMutation({
+    mutationFn: (request: PlannedAnalysisOptions) => api.analyses.run(csv, request),
+    onSuccess: (data) => {
+      setResults(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not run the analysis. Check the column choices for this test.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result ?? "");
+      const header = text.split(/\r?\n/, 1)[0] ?? "";
+      setCsv(text);
+      setFileName(file.name);
+      setColumns(header.split(",").map((name) => name.trim().replace(/^"(.*)"$/, "$1")).filter((name) => name !== ""));
+      setResults(null);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!csv || !formData.outcome || !testConfig) return;
+
+    const request: PlannedAnalysisOptions = { outcome: formData.outcome };
+    if (linkedCalculation) request.calculationId = linkedCalculation.id;
+    else request.testType = formData.testType;
+    testConfig.columns.forEach((field) => {
+      request[field] = formData[field] || undefined;
+    });
+    if (testConfig.columns.includes("group") && formData.controlGroup.trim()) {
+      request.controlGroup = formData.controlGroup.trim();
+    }
+    if (testConfig.regression) {
+      request.predictors = formData.predictors;
+      request.covariates = formData.covariates || undefined;
+    }
+
+    runAnalysis.mutate(request);
+  };
+
+  const columnSelect = (field: "outcome" | ColumnField, label: string) => (
+    <div key={field}>
+      <Label htmlFor={`analysis-${field}`}>{label}</Label>
+      <Select value={formData[field]} onValueChange={(value) => updateData({ [field]: value })}>
+        <SelectTrigger id={`analysis-${field}`}>
+          <SelectValue placeholder="Select column" />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map((column) => (
+            <SelectItem key={column} value={column}>{column}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-purple-100 dark:bg-purple-900 rounded-lg flex items-center justify-center">
+            <i className="fas fa-clipboard-check text-purple-600"></i>
+          </div>
+          <div>
+            <CardTitle>Planned Analysis</CardTitle>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Run the planned test on the collected study data</p>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <form onSubmit={handleSubmit} className="lg:col-span-2 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="analysis-calculation">Planning calculation</Label>
+                <Select value={formData.calculationId} onValueChange={(value) => updateData({ calculationId: value })}>
+                  <SelectTrigger id="analysis-calculation">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None (choose a test)</SelectItem>
+                    {analyzableCalculations.map((calculation) => (
+                      <SelectItem key={calculation.id} value={calculation.id}>
+                        {calculation.testType} ({calculation.hypothesisType}), N = {calculation.totalSampleSize}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="analysis-test">Test</Label>
+                <Select value={testType} onValueChange={(value) => updateData({ testType: value })} disabled={!!linkedCalculation}>
+                  <SelectTrigger id="analysis-test">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ANALYSIS_TESTS).map(([value, config]) => (
+                      <SelectItem key={value} value={value}>{config.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="analysis-file">Study data (CSV with header row)</Label>
+                <Input id="analysis-file" type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+                {fileName && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{fileName}: {columns.length} columns</p>
+                )}
+              </div>
+              {columns.length > 0 && columnSelect("outcome", testType.startsWith("chi-square") ? "Outcome category column" : "Outcome column")}
+              {columns.length > 0 && testConfig?.columns.map((field) => columnSelect(field, COLUMN_LABELS[field]))}
+              {columns.length > 0 && testConfig?.columns.includes("group") && (
+                <div>
+                  <Label htmlFor="analysis-control">Control group (optional)</Label>
+                  <Input
+                    id="analysis-control"
+                    placeholder="First group in file"
+                    value={formData.controlGroup}
+                    onChange={(e) => updateData({ controlGroup: e.target.value })}
+                  />
+                </div>
+              )}
+              {columns.length > 0 && testConfig?.regression && (
+                <>
+                  <div>
+                    <Label htmlFor="analysis-predictors">Tested predictors (comma-separated)</Label>
+                    <Input
+                      id="analysis-predictors"
+                      placeholder={columns.slice(1, 3).join(", ")}
+                      value={formData.predictors}
+                      onChange={(e) => updateData({ predictors: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="analysis-covariates">Adjustment covariates (optional)</Label>
+                    <Input
+                      id="analysis-covariates"
+                      value={formData.covariates}
+                      onChange={(e) => updateData({ covariates: e.target.value })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full bg-purple-600 hover:bg-purple-700"
+              disabled={!csv || !formData.outcome || runAnalysis.isPending}
+            >
+              {runAnalysis.isPending ? (
+                <>
+                  <i className="fas fa-spinner fa-spin mr-2"></i>
+                  Analyzing...
+                </>
+              ) : (
+                <>
+                  <i className="fas fa-play mr-2"></i>
+                  Run Analysis
+                </>
+              )}
+            </Button>
+          </form>
+
+          <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">Analysis Results</h4>
+
+            {results ? (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-slate-900 dark:text-white">{results.test}</p>
+                  <Badge className={results.significant
+                    ? "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-100"
+                    : "bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-100"}>
+                    {results.significant ? "Significant" : "Not significant"}
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="bg-white dark:bg-slate-800 rounded p-2">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {results.statistic.name}{results.statistic.df ? ` (${results.statistic.df.join(", ")})` : ""}
+                    </p>
+                    <p className="font-semibold text-slate-900 dark:text-white">{results.statistic.value}</p>
+                  </div>
+                  <div className="bg-white dark:bg-slate-800 rounded p-2">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">p-value</p>
+                    <p className="font-semibold text-slate-900 dark:text-white">{results.pValue < 0.001 ? "< 0.001" : results.pValue}</p>
+                  </div>
+                  <div className="bg-white dark:bg-slate-800 rounded p-2">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{EFFECT_LABELS[results.effectSize.metric]}</p>
+                    <p className="font-semibold text-slate-900 dark:text-white">{results.effectSize.value}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {results.effectSize.level * 100}% CI {results.effectSize.confidenceInterval[0]} to {results.effectSize.confidenceInterval[1]}
+                    </p>
+                  </div>
+                  <div className="bg-white dark:bg-slate-800 rounded p-2">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">Achieved power</p>
+                    <p className="font-semibold text-slate-900 dark:text-white">
+                      {results.achievedPower !== undefined ? `${(results.achievedPower * 100).toFixed(1)}%` : "—"}
+                    </p>
+                    {results.plannedEffectSize !== undefined && (
+                      <p className="text-xs text-slate-500 dark:text-slate-400">for planned effect {results.plannedEffectSize}</p>
+                    )}
+                  </div>
+                </div>
+
+                {results.groups && (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-slate-500 dark:text-slate-400">
+                        <th className="font-medium">Group</th>
+                        <th className="font-medium">n</th>
+                        <th className="font-medium">Mean</th>
+                        <th className="font-medium">SD</th>
+                        <th className="font-medium">Median</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-slate-900 dark:text-white">
+                      {results.groups.map((group) => (
+                        <tr key={group.name}>
+                          <td>{group.name}</td>
+                          <td>{group.n}</td>
+                          <td>{group.mean}</td>
+                          <td>{group.sd}</td>
+                          <td>{group.median}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {results.coefficients && (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-slate-500 dark:text-slate-400">
+                        <th className="font-medium">Term</th>
+                        <th className="font-medium">B</th>
+                        <th className="font-medium">SE</th>
+                        <th className="font-medium">p</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-slate-900 dark:text-white">
+                      {results.coefficients.map((coefficient) => (
+                        <tr key={coefficient.term}>
+                          <td>{coefficient.term}</td>
+                          <td>{coefficient.estimate}</td>
+                          <td>{coefficient.standardError}</td>
+                          <td>{coefficient.pValue < 0.001 ? "< 0.001" : coefficient.pValue}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {results.table && (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-slate-500 dark:text-slate-400">
+                        <th></th>
+                        {results.table.columnLabels.map((label) => (
+                          <th key={label} className="font-medium">{label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="text-slate-900 dark:text-white">
+                      {results.table.rowLabels.map((label, i) => (
+                        <tr key={label}>
+                          <td className="text-slate-500 dark:text-slate-400">{label}</td>
+                          {results.table!.counts[i].map((count, j) => <td key={j}>{count}</td>)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
+                  <p>{results.summary}</p>
+                  {results.notes.map((note, i) => <p key={i}>{note}</p>)}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Upload the collected data and run the planned test. Linking the planning calculation reports the power achieved for the planned effect.
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { apiRequest } from "@/lib/queryClient";
+import type { PowerCurveRequest, SampleSizeCalculationRequest } from "@/lib/api";
+
+interface PowerCurveResult {
+  curveType: PowerCurveRequest["curveType"];
+  xLabel: string;
+  yLabel: string;
+  series: { key: string; label: string }[];
+  data: Array<Record<string, number | null>>;
+}
+
+interface PowerCurveChartProps {
+  request: SampleSizeCalculationRequest;
+  effectSize: number;
+}
+
+export function PowerCurveChart({ request, effectSize }: PowerCurveChartProps) {
+  const [curveType, setCurveType] = useState<PowerCurveRequest["curveType"]>("powerBySampleSize");
+  const targetPower = request.power ?? 0.8;
+
+  const { solveFor, sampleSize, ...designParams } = request;
+  const curveRequest: PowerCurveRequest = curveType === "powerBySampleSize"
+    ? { ...designParams, curveType, effectSizes: [effectSize * 0.5, effectSize, effectSize * 1.5] }
+    : { ...designParams, curveType, effectSize, powers: Array.from(new Set([targetPower, 0.8, 0.9])).sort() };
+
+  const { data: curve, isLoading, isError } = useQuery<PowerCurveResult>({
+    queryKey: ["/api/sample-size/curve", curveRequest],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/sample-size/curve", curveRequest);
+      return response.json();
+    },
+  });
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    (curve?.series ?? []).map((series, i) => [series.key, { label: series.label, color: `var(--chart-${i + 1})` }])
+  );
+  const isPowerCurve = curve?.curveType === "powerBySampleSize";
+
+  return (
+    <div className="mt-6 border border-slate-200 dark:border-slate-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="font-medium text-slate-900 dark:text-white flex items-center">
+          <i className="fas fa-chart-line text-purple-600 mr-2"></i>
+          Sensitivity Analysis
+        </h5>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={curveType === "powerBySampleSize" ? "default" : "outline"}
+            onClick={() => setCurveType("powerBySampleSize")}
+          >
+            Power vs. n
+          </Button>
+          <Button
+            size="sm"
+            variant={curveType === "sampleSizeByEffect" ? "default" : "outline"}
+            onClick={() => setCurveType("sampleSizeByEffect")}
+          >
+            n vs. Effect Size
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          <i className="fas fa-spinner fa-spin mr-2"></i>
+          Calculating curve...
+        </p>
+      )}
+
+      {isError && (
+        <p className="text-sm text-red-600">Failed to calculate the power curve for these parameters.</p>
+      )}
+
+      {curve && (
+        <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+          <LineChart data={curve.data} margin={{ top: 8, left: 8, right: 16, bottom: 16 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickLine={false}
+              axisLine={false}
+              label={{ value: curve.xLabel, position: "insideBottom", offset: -12 }}
+            />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              domain={isPowerCurve ? [0, 1] : ["auto", "auto"]}
+              tickFormatter={(value: number) => isPowerCurve ? `${Math.round(value * 100)}%` : `${value}`}
+            />
+            {isPowerCurve && <ReferenceLine y={targetPower} strokeDasharray="4 4" />}
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => `${curve.xLabel}: ${payload[0]?.payload.x}`}
+                  formatter={(value, name) => (
+                    <span>
+                      {chartConfig[name as string]?.label}:{" "}
+                      <strong>{isPowerCurve ? `${(Number(value) * 100).toFixed(1)}%` : value}</strong>
+                    </span>
+                  )}
+                />
+              }
+            />
+            <ChartLegend content={<ChartLegendContent />} verticalAlign="top" />
+            {curve.series.map((series) => (
+              <Line
+                key={series.key}
+                dataKey={series.key}
+                type="monotone"
+                stroke={`var(--color-${series.key})`}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useFormPersistence } from "@/hooks/use-form-persistence";
+import { apiRequest } from "@/lib/queryClient";
+import type { PrecisionRequest, PrecisionResult } from "@/lib/api";
+
+interface PrecisionFormData {
+  target: PrecisionRequest["target"];
+  halfWidth: string;
+  confidenceLevel: string;
+  standardDeviation: string;
+  expectedProportion: string;
+  intervalMethod: NonNullable<PrecisionRequest["intervalMethod"]>;
+  populationSize: string;
+  designEffect: string;
+  expectedSensitivity: string;
+  expectedSpecificity: string;
+  prevalence: string;
+  dropoutRate: string;
+}
+
+const HALF_WIDTH_LABELS: Record<PrecisionRequest["target"], string> = {
+  mean: "Target Half-width (outcome units)",
+  proportion: "Target Half-width (proportion)",
+  survey: "Margin of Error (proportion)",
+  diagnostic: "Target Half-width (Se and Sp)"
+};
+
+export function PrecisionCalculator() {
+  const { data: formData, updateData } = useFormPersistence<PrecisionFormData>("precision", {
+    target: "mean",
+    halfWidth: "",
+    confidenceLevel: "0.95",
+    standardDeviation: "",
+    expectedProportion: "",
+    intervalMethod: "wilson",
+    populationSize: "",
+    designEffect: "1",
+    expectedSensitivity: "",
+    expectedSpecificity: "",
+    prevalence: "",
+    dropoutRate: "0"
+  });
+  const [results, setResults] = useState<PrecisionResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const calculatePrecision = useMutation({
+    mutationFn: async (data: PrecisionRequest) => {
+      const response = await apiRequest("POST", "/api/sample-size/precision", data);
+      return response.json() as Promise<PrecisionResult>;
+    },
+    onSuccess: (data) => {
+      setResults(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/sample-size"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to calculate the precision-based sample size. Please check your inputs.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const optionalNumber = (value: string) => value.trim() === "" ? undefined : parseFloat(value);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const hasInputs = formData.halfWidth
+      && (formData.target !== "mean" || formData.standardDeviation)
+      && (formData.target !== "proportion" || formData.expectedProportion)
+      && (formData.target !== "diagnostic" || (formData.expectedSensitivity && formData.expectedSpecificity && formData.prevalence));
+    if (!hasInputs) {
+      toast({
+        title: "Missing Information",
+        description: "Please fill in all required fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const request: PrecisionRequest = {
+      target: formData.target,
+      halfWidth: parseFloat(formData.halfWidth),
+      confidenceLevel: parseFloat(formData.confidenceLevel),
+      dropoutRate: parseFloat(formData.dropoutRate) || 0
+    };
+    if (formData.target === "mean") {
+      request.standardDeviation = parseFloat(formData.standardDeviation);
+    } else if (formData.target === "diagnostic") {
+      request.expectedSensitivity = parseFloat(formData.expectedSensitivity);
+      request.expectedSpecificity = parseFloat(formData.expectedSpecificity);
+      request.prevalence = parseFloat(formData.prevalence);
+    } else {
+      request.expectedProportion = optionalNumber(formData.expectedProportion);
+    }
+    if (formData.target === "proportion") request.intervalMethod = formData.intervalMethod;
+    if (formData.target === "survey") {
+      request.populationSize = optionalNumber(formData.populationSize);
+      request.designEffect = parseFloat(formData.designEffect) || 1;
+    }
+
+    calculatePrecision.mutate(request);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-purple-100 dark:bg-purple-900 rounded-lg flex items-center justify-center">
+            <i className="fas fa-ruler-horizontal text-purple-600"></i>
+          </div>
+          <div>
+            <CardTitle>Precision-based Sample Size</CardTitle>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Size descriptive studies by confidence interval width</p>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <form onSubmit={handleSubmit} className="lg:col-span-2 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="precision-target">Estimate</Label>
+                <Select
+                  value={formData.target}
+                  onValueChange={(value) => updateData({ target: value as PrecisionFormData["target"] })}
+                >
+                  <SelectTrigger id="precision-target">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mean">Single mean</SelectItem>
+                    <SelectItem value="proportion">Single proportion</SelectItem>
+                    <SelectItem value="survey">Survey margin of error</SelectItem>
+                    <SelectItem value="diagnostic">Sensitivity and specificity (Buderer)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="half-width">{HALF_WIDTH_LABELS[formData.target]}</Label>
+                <Input
+                  id="half-width"
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder={formData.target === "mean" ? "5" : "0.05"}
+                  value={formData.halfWidth}
+                  onChange={(e) => updateData({ halfWidth: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="confidence-level">Confidence Level</Label>
+                <Select value={formData.confidenceLevel} onValueChange={(value) => updateData({ confidenceLevel: value })}>
+                  <SelectTrigger id="confidence-level">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0.9">90%</SelectItem>
+                    <SelectItem value="0.95">95%</SelectItem>
+                    <SelectItem value="0.99">99%</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.target === "mean" ? (
+                <div>
+                  <Label htmlFor="precision-sd">Standard Deviation</Label>
+                  <Input
+                    id="precision-sd"
+                    type="number"
+                    step="any"
+                    min="0"
+                    placeholder="20"
+                    value={formData.standardDeviation}
+                    onChange={(e) => updateData({ standardDeviation: e.target.value })}
+                  />
+                </div>
+              ) : formData.target === "diagnostic" ? (
+                <>
+                  <div>
+                    <Label htmlFor="expected-sensitivity">Expected Sensitivity</Label>
+                    <Input
+                      id="expected-sensitivity"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="1"
+                      placeholder="0.90"
+                      value={formData.expectedSensitivity}
+                      onChange={(e) => updateData({ expectedSensitivity: e.target.value })}
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor="expected-specificity">Expected Specificity</Label>
+                    <Input
+                      id="expected-specificity"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="1"
+                      placeholder="0.85"
+                      value={formData.expectedSpecificity}
+                      onChange={(e) => updateData({ expectedSpecificity: e.target.value })}
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor="prevalence">Prevalence</Label>
+                    <Input
+                      id="prevalence"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="1"
+                      placeholder="0.20"
+                      value={formData.prevalence}
+                      onChange={(e) => updateData({ prevalence: e.target.value })}
+                    />
+                  </div>
+                </>
+              ) : (
+                <div>
+                  <Label htmlFor="expected-proportion">
+                    Expected Proportion{formData.target === "survey" ? " (optional, 0.5 if blank)" : ""}
+                  </Label>
+                  <Input
+                    id="expected-proportion"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="1"
+                    placeholder="0.5"
+                    value={formData.expectedProportion}
+                    onChange={(e) => updateData({ expectedProportion: e.target.value })}
+                  />
+                </div>
+              )}
+
+              {formData.target === "proportion" && (
+                <div>
+                  <Label htmlFor="interval-method">Interval</Label>
+                  <Select
+                    value={formData.intervalMethod}
+                    onValueChange={(value) => updateData({ intervalMethod: value as PrecisionFormData["intervalMethod"] })}
+                  >
+                    <SelectTrigger id="interval-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="wald">Wald</SelectItem>
+                      <SelectItem value="wilson">Wilson score</SelectItem>
+                      <SelectItem value="clopperPearson">Clopper-Pearson (exact)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {formData.target === "survey" && (
+                <>
+                  <div>
+                    <Label htmlFor="population-size">Population Size (optional)</Label>
+                    <Input
+                      id="population-size"
+                      type="number"
+                      step="1"
+                      min="2"
+                      placeholder="5000"
+                      value={formData.populationSize}
+                      onChange={(e) => updateData({ populationSize: e.target.value })}
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor="survey-design-effect">Design Effect</Label>
+                    <Input
+                      id="survey-design-effect"
+                      type="number"
+                      step="0.1"
+                      min="1"
+                      placeholder="1.5"
+                      value={formData.designEffect}
+                      onChange={(e) => updateData({ designEffect: e.target.value })}
+                    />
+                  </div>
+                </>
+              )}
+
+              <div>
+                <Label htmlFor="precision-dropout">{formData.target === "survey" ? "Expected Nonresponse" : "Expected Dropout"}</Label>
+                <Input
+                  id="precision-dropout"
+                  type="number"
+                  step="0.05"
+                  min="0"
+                  max="0.99"
+                  placeholder="0.20"
+                  value={formData.dropoutRate}
+                  onChange={(e) => updateData({ dropoutRate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full bg-purple-600 hover:bg-purple-700"
+              disabled={calculatePrecision.isPending}
+            >
+              {calculatePrecision.isPending ? "Calculating..." : "Calculate Sample Size"}
+            </Button>
+          </form>
+
+          <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">Calculation Results</h4>
+            {results ? (
+              <div className="space-y-3">
+                <div className="bg-white dark:bg-slate-800 rounded-lg p-3">
+                  <p className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wide">Required Sample Size</p>
+                  <p className="text-2xl font-bold text-purple-600 dark:text-purple-400">{results.sampleSize}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">achieved half-width ±{results.achievedHalfWidth}</p>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="bg-white dark:bg-slate-800 rounded p-2">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      +{Math.round(results.attrition.dropoutRate * 1000) / 10}% {formData.target === "survey" ? "Nonresponse" : "Dropout"}
+                    </p>
+                    <p className="font-semibold text-slate-900 dark:text-white">{results.adjustedSampleSize}</p>
+                  </div>
+                  {results.approximateSampleSize !== undefined && (
+                    <div className="bg-white dark:bg-slate-800 rounded p-2">
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Normal Approx. n</p>
+                      <p className="font-semibold text-slate-900 dark:text-white">{results.approximateSampleSize}</p>
+                    </div>
+                  )}
+                </div>
+                <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
+                  <p><strong>Formula:</strong> {results.formula}</p>
+                  <p><strong>Assumptions:</strong> {results.assumptions.map((assumption) => assumption.text).join(", ")}</p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-slate-400">Enter a target interval width to see results</p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
@@ -18,8 +19,17 @@ interface Method {
   createdAt: string;
 }
 
+interface SampleSizeCalculation {
+  id: string;
+  testType: string;
+  hypothesisType: string;
+  totalSampleSize: number;
+  createdAt: string;
+}
+
 interface ProtocolFormData {
   selectedMethods: string[];
+  selectedCalculation: string;
   selectedFormat: string;
   title: string;
   includeCitations: boolean;
@@ -30,6 +40,7 @@ interface ProtocolFormData {
 export function ProtocolExporter() {
   const { data: formData, updateData } = useFormPersistence<ProtocolFormData>("protocol", {
     selectedMethods: [],
+    selectedCalculation: "none",
     selectedFormat: "pdf",
     title: "",
     includeCitations: true,
@@ -45,6 +56,10 @@ export function ProtocolExporter() {
     queryKey: ["/api/methods"],
   });
 
+  const { data: calculations = [] } = useQuery<SampleSizeCalculation[]>({
+    queryKey: ["/api/sample-size"],
+  });
+
   const exportProtocol = useMutation({
     mutationFn: async (data: any) => {
       const response = await apiRequest("POST", "/api/protocols/export", data);
@@ -115,7 +130,8 @@ export function ProtocolExporter() {
       format: formData.selectedFormat,
       includeCitations: formData.includeCitations,
       includeEquipment: formData.includeEquipment,
-      includeCostEstimates: formData.includeCostEstimates
+      includeCostEstimates: formData.includeCostEstimates,
+      sampleSizeCalculationId: formData.selectedCalculation !== "none" ? formData.selectedCalculation : undefined
     });
   };
 
@@ -190,6 +206,26 @@ export function ProtocolExporter() {
               </div>
             </div>
 
+            <div>
+              <Label htmlFor="sample-size-calculation">Sample Size Justification</Label>
+              <Select
+                value={formData.selectedCalculation}
+                onValueChange={(value) => updateData({ selectedCalculation: value })}
+              >
+                <SelectTrigger id="sample-size-calculation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No sample size calculation</SelectItem>
+                  {calculations.map((calculation) => (
+                    <SelectItem key={calculation.id} value={calculation.id}>
+                      {calculation.testType} ({calculation.hypothesisType}), N = {calculation.totalSampleSize}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div>
               <Label className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3 block">
                 Export Format
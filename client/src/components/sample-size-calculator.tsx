@@ -8,42 +8,224 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useFormPersistence } from "@/hooks/use-form-persistence";
 import { apiRequest } from "@/lib/queryClient";
+import type { Assumption, EffectSizeSet, PilotDataResult, SampleSizeCalculationRequest } from "@/lib/api";
+import { PowerCurveChart } from "@/components/power-curve-chart";
+import { EffectSizeConverter } from "@/components/effect-size-converter";
+import { PilotDataUpload } from "@/components/pilot-data-upload";
+import {
+  AncovaFields,
+  AttritionFields,
+  AucFields,
+  ClusterFields,
+  ContingencyFields,
+  CountFields,
+  CrossoverFields,
+  GroupSequentialFields,
+  HypothesisFields,
+  McNemarFields,
+  MultiplicityFields,
+  ProportionFields,
+  RankTestFields,
+  RegressionFields,
+  RepeatedMeasuresFields,
+  SurvivalFields,
+  parseEndpointList,
+  parseRateList,
+  type SampleSizeFormData
+} from "@/components/sample-size-design-fields";
 
 interface SampleSizeResult {
   id: string;
+  solveFor: "sampleSize" | "power" | "effectSize";
+  effectSize: number;
   sampleSize: number;
   totalSampleSize: number;
   adjustedSampleSize: number;
+  adjustedGroupSizes: number[];
+  attrition: { dropoutRate: number; attritionSchedule?: number[]; armDropoutRates?: number[] };
   formula: string;
-  assumptions: string[];
+  assumptions: Assumption[];
+  approximateSampleSize?: number;
+  achievedPower: number;
+  groupSizes?: number[];
+  requiredEvents?: number;
+  expectedEvents?: number;
+  designEffect?: number;
+  clustersPerArm?: number[];
+  groupSequential?: {
+    futility: boolean;
+    looks: {
+      look: number;
+      informationFraction: number;
+      sampleSize?: number;
+      efficacyBoundary: number;
+      nominalAlpha: number;
+      futilityBoundary?: number;
+    }[];
+    maxInflation: number;
+    expectedSampleSizeH0?: number;
+    expectedSampleSizeH1?: number;
+  };
+  multiplicity?: {
+    method: string;
+    drivingEndpoint: string;
+    planningNote?: string;
+    endpoints: { name: string; alpha: number; sampleSize: number; adjustedSampleSize: number }[];
+  };
 }
 
-interface SampleSizeFormData {
-  testType: string;
-  effectSize: string;
-  power: string;
-  alpha: string;
+const EFFECT_SIZE_LABELS: Record<string, string> = {
+  "two-sample t-test": "Effect Size (Cohen's d)",
+  "paired t-test": "Effect Size (Cohen's d)",
+  "crossover t-test": "Effect Size (Δ / σ_w)",
+  "one-way anova": "Effect Size (Cohen's f)",
+  "correlation test": "Correlation (r)",
+  "auc comparison": "AUC Difference",
+  "chi-square test": "Effect Size (Cohen's w)",
+  "chi-square goodness-of-fit test": "Effect Size (Cohen's w)",
+  "log-rank test": "Hazard Ratio",
+  "poisson rate test": "Rate Ratio",
+  "negative binomial rate test": "Rate Ratio",
+  "repeated measures anova": "Effect Size (Cohen's f)",
+  "longitudinal mixed model": "Effect Size (Cohen's d)",
+  "multiple linear regression": "Effect Size (Cohen's f²)",
+  "logistic regression": "Odds Ratio (per SD)",
+  "mann-whitney test": "Effect Size (Cohen's d)",
+  "wilcoxon signed-rank test": "Effect Size (Cohen's d_z)",
+  "kruskal-wallis test": "Effect Size (Cohen's f)"
+};
+
+// Effect size metric each test type expects in the effect size field
+const TEST_EFFECT_METRICS: Record<string, keyof EffectSizeSet> = {
+  "two-sample t-test": "d",
+  "paired t-test": "d",
+  "one-way anova": "f",
+  "repeated measures anova": "f",
+  "longitudinal mixed model": "d",
+  "correlation test": "r",
+  "multiple linear regression": "f2",
+  "logistic regression": "oddsRatio",
+  "mann-whitney test": "d",
+  "wilcoxon signed-rank test": "d",
+  "kruskal-wallis test": "f"
+};
+
+const CLUSTERABLE_TESTS = [
+  "two-sample t-test", "one-way anova", "proportion test", "log-rank test", "poisson rate test", "negative binomial rate test"
+];
+
+const MARGIN_TESTS = ["two-sample t-test", "paired t-test", "proportion test"];
+
+const ANCOVA_TESTS = ["two-sample t-test", "one-way anova"];
+
+const SOLVE_FOR_LABELS: Record<SampleSizeFormData["solveFor"], string> = {
+  sampleSize: "Calculate Sample Size",
+  power: "Calculate Power",
+  effectSize: "Calculate Detectable Effect"
+};
+
+function getPrimaryResult(results: SampleSizeResult) {
+  switch (results.solveFor) {
+    case "power":
+      return {
+        label: "Achieved Power",
+        value: `${(results.achievedPower * 100).toFixed(1)}%`,
+        caption: `with ${results.sampleSize} per group`
+      };
+    case "effectSize":
+      return {
+        label: "Minimum Detectable Effect",
+        value: results.effectSize.toFixed(3),
+        caption: `with ${results.sampleSize} per group`
+      };
+    default:
+      return {
+        label: "Required Sample Size",
+        value: results.sampleSize,
+        caption: results.groupSizes ? `control group (treatment: ${results.groupSizes[1]})` : "per group"
+      };
+  }
 }
 
 export function SampleSizeCalculator() {
   const { data: formData, updateData } = useFormPersistence<SampleSizeFormData>("sample-size", {
     testType: "",
+    solveFor: "sampleSize",
+    sampleSize: "",
     effectSize: "",
     power: "0.80",
-    alpha: "0.05"
+    alpha: "0.05",
+    groups: "3",
+    baselineProportion: "",
+    proportionEffectType: "treatmentProportion",
+    proportionEffectValue: "",
+    allocationRatio: "1",
+    proportionMethod: "pooled",
+    controlSurvivalType: "controlMedianSurvival",
+    controlSurvivalValue: "",
+    accrualPeriod: "",
+    followUpPeriod: "",
+    lossToFollowUpRate: "0",
+    survivalMethod: "schoenfeld",
+    tableRows: "2",
+    tableColumns: "2",
+    categories: "",
+    discordantProportion10: "",
+    discordantProportion01: "",
+    discordantProportion: "",
+    meanDifference: "",
+    withinSubjectSd: "",
+    auc1: "",
+    auc2: "",
+    aucCorrelation: "",
+    controlsPerCase: "1",
+    baselineCorrelation: "",
+    parentDistribution: "normal",
+    rankTestMethod: "are",
+    baselineRate: "",
+    exposureTime: "1",
+    overdispersion: "",
+    randomization: "individual",
+    clusterSize: "",
+    icc: "",
+    clusterSizeCv: "0",
+    hypothesisType: "superiority",
+    margin: "",
+    marginRationale: "",
+    dropoutRate: "0.20",
+    attritionSchedule: "",
+    armDropoutRates: "",
+    measurements: "3",
+    repeatedMeasuresCorrelation: "0.5",
+    sphericityEpsilon: "1",
+    repeatedMeasuresEffect: "within",
+    longitudinalEffect: "timeAveraged",
+    predictors: "",
+    testedPredictors: "",
+    eventRate: "",
+    rSquaredOther: "0",
+    looks: "1",
+    informationFractions: "",
+    spendingFunction: "lanDeMetsObrienFleming",
+    futilityBoundaries: false,
+    multiplicityMethod: "none",
+    comparisons: "2",
+    endpointEffects: ""
   });
   const [results, setResults] = useState<SampleSizeResult | null>(null);
+  const [lastRequest, setLastRequest] = useState<SampleSizeCalculationRequest | null>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const calculateSampleSize = useMutation({
-    mutationFn: async (data: { testType: string; effectSize: number; power: number; alpha: number }) => {
+    mutationFn: async (data: SampleSizeCalculationRequest) => {
       const response = await apiRequest("POST", "/api/sample-size/calculate", data);
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data, variables) => {
       setResults(data);
+      setLastRequest(variables);
       queryClient.invalidateQueries({ queryKey: ["/api/sample-size"] });
       toast({
         title: "Sample Size Calculated",
@@ -59,9 +241,53 @@ export function SampleSizeCalculator() {
     },
   });
 
+  const isAnova = ["one-way anova", "kruskal-wallis test"].includes(formData.testType);
+  const isRankTest = ["mann-whitney test", "wilcoxon signed-rank test", "kruskal-wallis test"].includes(formData.testType);
+  const isProportionTest = formData.testType === "proportion test";
+  const isSurvivalTest = formData.testType === "log-rank test";
+  const isChiSquareTest = ["chi-square test", "chi-square goodness-of-fit test"].includes(formData.testType);
+  const isMcNemarTest = formData.testType === "mcnemar test";
+  const isCrossover = formData.testType === "crossover t-test";
+  const isAucComparison = formData.testType === "auc comparison";
+  const isCountTest = ["poisson rate test", "negative binomial rate test"].includes(formData.testType);
+  const isRepeatedMeasuresAnova = formData.testType === "repeated measures anova";
+  const isRepeatedMeasures = isRepeatedMeasuresAnova || formData.testType === "longitudinal mixed model";
+  const isLinearRegression = formData.testType === "multiple linear regression";
+  const isLogisticRegression = formData.testType === "logistic regression";
+  const hasMargin = MARGIN_TESTS.includes(formData.testType) && formData.hypothesisType !== "superiority";
+  const isClustered = CLUSTERABLE_TESTS.includes(formData.testType) && formData.randomization === "cluster";
+  const allowsAncova = ANCOVA_TESTS.includes(formData.testType) && !hasMargin;
+  const allowsInterimAnalyses = !(hasMargin && formData.hypothesisType === "equivalence");
+  const isSequential = allowsInterimAnalyses && parseInt(formData.looks) > 1;
+  const isMultiplicityAdjusted = formData.solveFor === "sampleSize" && formData.multiplicityMethod !== "none";
+  // Per-endpoint effects apply only to designs driven by a single effect size input
+  const allowsEndpointEffects = !isProportionTest && !isMcNemarTest;
+  const needsEffect = formData.solveFor !== "effectSize";
+  const needsPower = formData.solveFor !== "power";
+  const needsSampleSize = formData.solveFor !== "sampleSize";
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.testType || !formData.effectSize || !formData.power || !formData.alpha) {
+    const hasEffect = isProportionTest
+      ? formData.baselineProportion && (!needsEffect || formData.proportionEffectValue)
+      : isMcNemarTest
+        ? (needsEffect ? formData.discordantProportion10 && formData.discordantProportion01 : formData.discordantProportion)
+        : isAucComparison
+          ? formData.auc1 && (!needsEffect || formData.auc2)
+          : !needsEffect || formData.effectSize || (isCrossover && formData.meanDifference && formData.withinSubjectSd);
+    const hasPower = !needsPower || formData.power;
+    const hasSampleSize = !needsSampleSize || formData.sampleSize;
+    const hasDesignInputs = (!isSurvivalTest || (formData.controlSurvivalValue && (formData.accrualPeriod || formData.followUpPeriod)))
+      && (formData.testType !== "chi-square test" || (formData.tableRows && formData.tableColumns))
+      && (formData.testType !== "chi-square goodness-of-fit test" || formData.categories)
+      && (!isCountTest || formData.baselineRate)
+      && (formData.testType !== "negative binomial rate test" || formData.overdispersion)
+      && (!isClustered || (formData.clusterSize && formData.icc))
+      && (!hasMargin || formData.margin)
+      && (!isLinearRegression || formData.predictors)
+      && (!isLogisticRegression || formData.eventRate)
+      && (!isRepeatedMeasures || formData.measurements);
+    if (!formData.testType || !hasEffect || !hasPower || !hasSampleSize || !hasDesignInputs || !formData.alpha) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required fields.",
@@ -70,11 +296,184 @@ export function SampleSizeCalculator() {
       return;
     }
 
-    calculateSampleSize.mutate({
+    const minimumGroups = isRepeatedMeasuresAnova && formData.repeatedMeasuresEffect === "within" ? 1 : 2;
+    if ((isAnova || isRepeatedMeasuresAnova) && !(parseInt(formData.groups) >= minimumGroups)) {
+      toast({
+        title: "Invalid Groups",
+        description: `This design needs at least ${minimumGroups} group(s).`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const request: SampleSizeCalculationRequest = {
       testType: formData.testType,
-      effectSize: parseFloat(formData.effectSize),
-      power: parseFloat(formData.power),
-      alpha: parseFloat(formData.alpha)
+      solveFor: formData.solveFor,
+      power: needsPower ? parseFloat(formData.power) : undefined,
+      alpha: parseFloat(formData.alpha),
+      sampleSize: needsSampleSize ? parseInt(formData.sampleSize) : undefined,
+      groups: isAnova || isRepeatedMeasuresAnova ? parseInt(formData.groups) : undefined
+    };
+
+    if (isProportionTest) {
+      request.baselineProportion = parseFloat(formData.baselineProportion);
+      if (needsEffect) {
+        request[formData.proportionEffectType] = parseFloat(formData.proportionEffectValue);
+      }
+      request.allocationRatio = parseFloat(formData.allocationRatio) || 1;
+      request.proportionMethod = formData.proportionMethod;
+    } else if (isMcNemarTest) {
+      if (needsEffect) {
+        request.discordantProportion10 = parseFloat(formData.discordantProportion10);
+        request.discordantProportion01 = parseFloat(formData.discordantProportion01);
+      } else {
+        request.discordantProportion = parseFloat(formData.discordantProportion);
+      }
+    } else if (isAucComparison) {
+      request.auc1 = parseFloat(formData.auc1);
+      if (needsEffect) request.auc2 = parseFloat(formData.auc2);
+      if (formData.aucCorrelation.trim() !== "") request.aucCorrelation = parseFloat(formData.aucCorrelation);
+      request.controlsPerCase = parseFloat(formData.controlsPerCase) || 1;
+    } else if (needsEffect) {
+      request.effectSize = parseFloat(formData.effectSize);
+    }
+
+    if (isCrossover && needsEffect && formData.meanDifference.trim() !== "") {
+      request.meanDifference = parseFloat(formData.meanDifference);
+      request.withinSubjectSd = parseFloat(formData.withinSubjectSd);
+    }
+
+    if (allowsAncova && formData.baselineCorrelation.trim() !== "") {
+      request.baselineCorrelation = parseFloat(formData.baselineCorrelation);
+    }
+
+    if (formData.testType === "chi-square test") {
+      request.tableRows = parseInt(formData.tableRows);
+      request.tableColumns = parseInt(formData.tableColumns);
+    } else if (formData.testType === "chi-square goodness-of-fit test") {
+      request.categories = parseInt(formData.categories);
+    }
+
+    if (isSurvivalTest) {
+      request[formData.controlSurvivalType] = parseFloat(formData.controlSurvivalValue);
+      request.accrualPeriod = parseFloat(formData.accrualPeriod) || 0;
+      request.followUpPeriod = parseFloat(formData.followUpPeriod) || 0;
+      request.lossToFollowUpRate = parseFloat(formData.lossToFollowUpRate) || 0;
+      request.allocationRatio = parseFloat(formData.allocationRatio) || 1;
+      request.survivalMethod = formData.survivalMethod;
+    }
+
+    request.dropoutRate = parseFloat(formData.dropoutRate) || 0;
+    request.attritionSchedule = parseRateList(formData.attritionSchedule);
+    request.armDropoutRates = parseRateList(formData.armDropoutRates);
+
+    if (isRankTest) {
+      request.parentDistribution = formData.parentDistribution;
+      if (formData.testType === "mann-whitney test") request.rankTestMethod = formData.rankTestMethod;
+    }
+
+    if (isCountTest) {
+      request.baselineRate = parseFloat(formData.baselineRate);
+      request.exposureTime = parseFloat(formData.exposureTime) || 1;
+      request.allocationRatio = parseFloat(formData.allocationRatio) || 1;
+      if (formData.testType === "negative binomial rate test") {
+        request.overdispersion = parseFloat(formData.overdispersion);
+      }
+    }
+
+    if (isRepeatedMeasures) {
+      request.measurements = parseInt(formData.measurements);
+      request.repeatedMeasuresCorrelation = parseFloat(formData.repeatedMeasuresCorrelation) || 0;
+      if (isRepeatedMeasuresAnova) {
+        request.repeatedMeasuresEffect = formData.repeatedMeasuresEffect;
+        request.sphericityEpsilon = parseFloat(formData.sphericityEpsilon) || 1;
+      } else {
+        request.longitudinalEffect = formData.longitudinalEffect;
+      }
+    }
+
+    if (isLinearRegression) {
+      request.predictors = parseInt(formData.predictors);
+      request.testedPredictors = parseInt(formData.testedPredictors) || request.predictors;
+    }
+
+    if (isLogisticRegression) {
+      request.eventRate = parseFloat(formData.eventRate);
+      request.rSquaredOther = parseFloat(formData.rSquaredOther) || 0;
+    }
+
+    if (hasMargin) {
+      request.hypothesisType = formData.hypothesisType;
+      request.margin = parseFloat(formData.margin);
+      request.marginRationale = formData.marginRationale.trim() || undefined;
+    }
+
+    if (isClustered) {
+      request.clusterSize = parseFloat(formData.clusterSize);
+      request.icc = parseFloat(formData.icc);
+      request.clusterSizeCv = parseFloat(formData.clusterSizeCv) || 0;
+    }
+
+    if (isSequential) {
+      request.looks = parseInt(formData.looks);
+      request.informationFractions = parseRateList(formData.informationFractions);
+      request.spendingFunction = formData.spendingFunction;
+      request.futilityBoundaries = formData.futilityBoundaries;
+    }
+
+    if (isMultiplicityAdjusted) {
+      request.multiplicityMethod = formData.multiplicityMethod as SampleSizeCalculationRequest["multiplicityMethod"];
+      const endpoints = allowsEndpointEffects ? parseEndpointList(formData.endpointEffects) : undefined;
+      if (endpoints) request.endpoints = endpoints;
+      else request.comparisons = parseInt(formData.comparisons) || 1;
+    }
+
+    calculateSampleSize.mutate(request);
+  };
+
+  const applyEffectSizes = (effects: EffectSizeSet) => {
+    if (isProportionTest) {
+      if (effects.treatmentProportion !== undefined && effects.baselineProportion !== undefined) {
+        updateData({
+          baselineProportion: String(effects.baselineProportion),
+          proportionEffectType: "treatmentProportion",
+          proportionEffectValue: String(effects.treatmentProportion)
+        });
+      } else if (effects.oddsRatio !== undefined) {
+        updateData({ proportionEffectType: "oddsRatio", proportionEffectValue: String(effects.oddsRatio) });
+      }
+      return;
+    }
+
+    const metric = TEST_EFFECT_METRICS[formData.testType];
+    const value = metric ? effects[metric] : undefined;
+    if (value === undefined) {
+      toast({
+        title: "Effect Size Unavailable",
+        description: "The computed effect sizes do not include the metric this test expects.",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateData({ effectSize: String(value) });
+  };
+
+  const applyPilotData = (prefill: NonNullable<PilotDataResult["prefill"]>) => {
+    updateData({
+      testType: prefill.testType,
+      ...(prefill.effectSize !== undefined && { effectSize: String(prefill.effectSize) }),
+      ...(prefill.groups !== undefined && { groups: String(prefill.groups) }),
+      ...(prefill.baselineProportion !== undefined && prefill.treatmentProportion !== undefined && {
+        baselineProportion: String(prefill.baselineProportion),
+        proportionEffectType: "treatmentProportion",
+        proportionEffectValue: String(prefill.treatmentProportion)
+      })
+    });
+    toast({
+      title: "Pilot Estimates Applied",
+      description: prefill.sdSource === "upperConfidenceLimit"
+        ? "The effect size uses the upper confidence limit of the pilot SD."
+        : "Review the prefilled inputs before calculating.",
     });
   };
 
@@ -100,83 +499,235 @@ export function SampleSizeCalculator() {
       <CardContent>
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Input Parameters */}
-          <form onSubmit={handleSubmit} className="lg:col-span-2 space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="test-type">Test Type</Label>
-                <Select value={formData.testType} onValueChange={(value) => updateData({ testType: value })}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select test type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="two-sample t-test">Two-sample t-test</SelectItem>
-                    <SelectItem value="paired t-test">Paired t-test</SelectItem>
-                    <SelectItem value="one-way anova">One-way ANOVA</SelectItem>
-                    <SelectItem value="proportion test">Proportion test</SelectItem>
-                    <SelectItem value="correlation test">Correlation test</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+          <div className="lg:col-span-2 space-y-4">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="test-type">Test Type</Label>
+                  <Select value={formData.testType} onValueChange={(value) => updateData({ testType: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select test type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="two-sample t-test">Two-sample t-test</SelectItem>
+                      <SelectItem value="paired t-test">Paired t-test</SelectItem>
+                      <SelectItem value="crossover t-test">AB/BA crossover</SelectItem>
+                      <SelectItem value="one-way anova">One-way ANOVA</SelectItem>
+                      <SelectItem value="repeated measures anova">Repeated-measures ANOVA</SelectItem>
+                      <SelectItem value="longitudinal mixed model">Longitudinal mixed model</SelectItem>
+                      <SelectItem value="mann-whitney test">Mann-Whitney U test</SelectItem>
+                      <SelectItem value="wilcoxon signed-rank test">Wilcoxon signed-rank test</SelectItem>
+                      <SelectItem value="kruskal-wallis test">Kruskal-Wallis test</SelectItem>
+                      <SelectItem value="proportion test">Proportion test</SelectItem>
+                      <SelectItem value="chi-square test">Chi-square test of independence (r×c)</SelectItem>
+                      <SelectItem value="chi-square goodness-of-fit test">Chi-square goodness-of-fit test</SelectItem>
+                      <SelectItem value="mcnemar test">McNemar test (paired binary)</SelectItem>
+                      <SelectItem value="correlation test">Correlation test</SelectItem>
+                      <SelectItem value="auc comparison">AUC comparison (diagnostic tests)</SelectItem>
+                      <SelectItem value="log-rank test">Log-rank test (survival)</SelectItem>
+                      <SelectItem value="poisson rate test">Poisson rate ratio (counts)</SelectItem>
+                      <SelectItem value="negative binomial rate test">Negative binomial rate ratio (counts)</SelectItem>
+                      <SelectItem value="multiple linear regression">Multiple linear regression</SelectItem>
+                      <SelectItem value="logistic regression">Logistic regression</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div>
-                <Label htmlFor="effect-size">Effect Size</Label>
-                <Input
-                  id="effect-size"
-                  type="number"
-                  step="0.1"
-                  placeholder="0.5"
-                  value={formData.effectSize}
-                  onChange={(e) => updateData({ effectSize: e.target.value })}
-                />
-              </div>
+                <div>
+                  <Label htmlFor="solve-for">Solve For</Label>
+                  <Select
+                    value={formData.solveFor}
+                    onValueChange={(value) => updateData({ solveFor: value as SampleSizeFormData["solveFor"] })}
+                  >
+                    <SelectTrigger id="solve-for">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="sampleSize">Sample size</SelectItem>
+                      <SelectItem value="power">Power</SelectItem>
+                      <SelectItem value="effectSize">Minimum detectable effect</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div>
-                <Label htmlFor="power">Power (1-β)</Label>
-                <Select value={formData.power} onValueChange={(value) => updateData({ power: value })}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="0.80">0.80 (80%)</SelectItem>
-                    <SelectItem value="0.90">0.90 (90%)</SelectItem>
-                    <SelectItem value="0.95">0.95 (95%)</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                {needsSampleSize && (
+                  <div>
+                    <Label htmlFor="sample-size">Sample Size (per group)</Label>
+                    <Input
+                      id="sample-size"
+                      type="number"
+                      min="2"
+                      step="1"
+                      placeholder="60"
+                      value={formData.sampleSize}
+                      onChange={(e) => updateData({ sampleSize: e.target.value })}
+                    />
+                  </div>
+                )}
+
+                {!isProportionTest && !isMcNemarTest && !isAucComparison && needsEffect && (
+                  <div>
+                    <Label htmlFor="effect-size">{EFFECT_SIZE_LABELS[formData.testType] ?? "Effect Size"}</Label>
+                    <Input
+                      id="effect-size"
+                      type="number"
+                      step="0.1"
+                      placeholder="0.5"
+                      value={formData.effectSize}
+                      onChange={(e) => updateData({ effectSize: e.target.value })}
+                    />
+                  </div>
+                )}
+
+                {needsPower && (
+                  <div>
+                    <Label htmlFor="power">Power (1-β)</Label>
+                    <Select value={formData.power} onValueChange={(value) => updateData({ power: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0.80">0.80 (80%)</SelectItem>
+                        <SelectItem value="0.90">0.90 (90%)</SelectItem>
+                        <SelectItem value="0.95">0.95 (95%)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="alpha">Alpha (α)</Label>
+                  <Select value={formData.alpha} onValueChange={(value) => updateData({ alpha: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0.05">0.05 (5%)</SelectItem>
+                      <SelectItem value="0.01">0.01 (1%)</SelectItem>
+                      <SelectItem value="0.001">0.001 (0.1%)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {(isAnova || isRepeatedMeasuresAnova) && (
+                  <div>
+                    <Label htmlFor="groups">Number of Groups (k)</Label>
+                    <Input
+                      id="groups"
+                      type="number"
+                      min={isRepeatedMeasuresAnova ? "1" : "2"}
+                      step="1"
+                      placeholder="3"
+                      value={formData.groups}
+                      onChange={(e) => updateData({ groups: e.target.value })}
+                    />
+                  </div>
+                )}
+
+                {isProportionTest && (
+                  <ProportionFields formData={formData} updateData={updateData} needsEffect={needsEffect} />
+                )}
+
+                {(isProportionTest || isSurvivalTest || isCountTest) && (
+                  <div>
+                    <Label htmlFor="allocation-ratio">Allocation Ratio (n₂/n₁)</Label>
+                    <Input
+                      id="allocation-ratio"
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      placeholder="1"
+                      value={formData.allocationRatio}
+                      onChange={(e) => updateData({ allocationRatio: e.target.value })}
+                    />
+                  </div>
+                )}
+
+                {isSurvivalTest && (
+                  <SurvivalFields formData={formData} updateData={updateData} />
+                )}
+
+                {isChiSquareTest && (
+                  <ContingencyFields formData={formData} updateData={updateData} />
+                )}
 
-              <div>
-                <Label htmlFor="alpha">Alpha (α)</Label>
-                <Select value={formData.alpha} onValueChange={(value) => updateData({ alpha: value })}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="0.05">0.05 (5%)</SelectItem>
-                    <SelectItem value="0.01">0.01 (1%)</SelectItem>
-                    <SelectItem value="0.001">0.001 (0.1%)</SelectItem>
-                  </SelectContent>
-                </Select>
+                {isMcNemarTest && (
+                  <McNemarFields formData={formData} updateData={updateData} needsEffect={needsEffect} />
+                )}
+
+                {isAucComparison && (
+                  <AucFields formData={formData} updateData={updateData} needsEffect={needsEffect} />
+                )}
+
+                {isCrossover && needsEffect && (
+                  <CrossoverFields formData={formData} updateData={updateData} />
+                )}
+
+                {allowsAncova && (
+                  <AncovaFields formData={formData} updateData={updateData} />
+                )}
+
+                {isRankTest && (
+                  <RankTestFields formData={formData} updateData={updateData} />
+                )}
+
+                {isCountTest && (
+                  <CountFields formData={formData} updateData={updateData} />
+                )}
+
+                {isRepeatedMeasures && (
+                  <RepeatedMeasuresFields formData={formData} updateData={updateData} />
+                )}
+
+                {(isLinearRegression || isLogisticRegression) && (
+                  <RegressionFields formData={formData} updateData={updateData} />
+                )}
+
+                {MARGIN_TESTS.includes(formData.testType) && (
+                  <HypothesisFields
+                    formData={formData}
+                    updateData={updateData}
+                    marginUnit={isProportionTest ? "risk difference" : "Cohen's d"}
+                  />
+                )}
+
+                {CLUSTERABLE_TESTS.includes(formData.testType) && (
+                  <ClusterFields formData={formData} updateData={updateData} />
+                )}
+
+                {allowsInterimAnalyses && (
+                  <GroupSequentialFields formData={formData} updateData={updateData} />
+                )}
+
+                {formData.solveFor === "sampleSize" && (
+                  <MultiplicityFields formData={formData} updateData={updateData} allowsEndpointEffects={allowsEndpointEffects} />
+                )}
+
+                <AttritionFields formData={formData} updateData={updateData} />
               </div>
-            </div>
 
-            <Button 
-              type="submit" 
-              className="w-full bg-purple-600 hover:bg-purple-700"
-              disabled={calculateSampleSize.isPending}
-            >
-              {calculateSampleSize.isPending ? (
-                <>
-                  <i className="fas fa-spinner fa-spin mr-2"></i>
-                  Calculating...
-                </>
-              ) : (
-                <>
-                  <i className="fas fa-calculator mr-2"></i>
-                  Calculate Sample Size
-                </>
-              )}
-            </Button>
-          </form>
+              <Button 
+                type="submit" 
+                className="w-full bg-purple-600 hover:bg-purple-700"
+                disabled={calculateSampleSize.isPending}
+              >
+                {calculateSampleSize.isPending ? (
+                  <>
+                    <i className="fas fa-spinner fa-spin mr-2"></i>
+                    Calculating...
+                  </>
+                ) : (
+                  <>
+                    <i className="fas fa-calculator mr-2"></i>
+                    {SOLVE_FOR_LABELS[formData.solveFor]}
+                  </>
+                )}
+              </Button>
+            </form>
+
+            <EffectSizeConverter onApply={applyEffectSizes} />
+            <PilotDataUpload onApply={applyPilotData} />
+          </div>
 
           {/* Results Display */}
           <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
@@ -185,9 +736,9 @@ export function SampleSizeCalculator() {
             {results ? (
               <div className="space-y-3">
                 <div className="bg-white dark:bg-slate-800 rounded-lg p-3">
-                  <p className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wide">Required Sample Size</p>
-                  <p className="text-2xl font-bold text-purple-600 dark:text-purple-400">{results.sampleSize}</p>
-                  <p className="text-xs text-slate-500 dark:text-slate-400">per group</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wide">{getPrimaryResult(results).label}</p>
+                  <p className="text-2xl font-bold text-purple-600 dark:text-purple-400">{getPrimaryResult(results).value}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{getPrimaryResult(results).caption}</p>
                 </div>
 
                 <div className="grid grid-cols-2 gap-2">
@@ -196,14 +747,124 @@ export function SampleSizeCalculator() {
                     <p className="font-semibold text-slate-900 dark:text-white">{results.totalSampleSize}</p>
                   </div>
                   <div className="bg-white dark:bg-slate-800 rounded p-2">
-                    <p className="text-xs text-slate-500 dark:text-slate-400">+20% Dropout</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      +{Math.round(results.attrition.dropoutRate * 1000) / 10}% Dropout{results.attrition.armDropoutRates ? " (max arm)" : ""}
+                    </p>
                     <p className="font-semibold text-slate-900 dark:text-white">{results.adjustedSampleSize}</p>
                   </div>
+                  {results.approximateSampleSize !== undefined && (
+                    <div className="bg-white dark:bg-slate-800 rounded p-2">
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Normal Approx. n</p>
+                      <p className="font-semibold text-slate-900 dark:text-white">{results.approximateSampleSize}</p>
+                    </div>
+                  )}
+                  <div className="bg-white dark:bg-slate-800 rounded p-2">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">Achieved Power</p>
+                    <p className="font-semibold text-slate-900 dark:text-white">{(results.achievedPower * 100).toFixed(1)}%</p>
+                  </div>
+                  {results.requiredEvents !== undefined && (
+                    <div className="bg-white dark:bg-slate-800 rounded p-2">
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Required Events</p>
+                      <p className="font-semibold text-slate-900 dark:text-white">{results.requiredEvents}</p>
+                    </div>
+                  )}
+                  {results.expectedEvents !== undefined && (
+                    <div className="bg-white dark:bg-slate-800 rounded p-2">
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Expected Events</p>
+                      <p className="font-semibold text-slate-900 dark:text-white">{results.expectedEvents}</p>
+                    </div>
+                  )}
+                  {results.designEffect !== undefined && (
+                    <div className="bg-white dark:bg-slate-800 rounded p-2">
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Design Effect</p>
+                      <p className="font-semibold text-slate-900 dark:text-white">{results.designEffect.toFixed(2)}</p>
+                    </div>
+                  )}
+                  {results.clustersPerArm && (
+                    <div className="bg-white dark:bg-slate-800 rounded p-2">
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Clusters per Arm</p>
+                      <p className="font-semibold text-slate-900 dark:text-white">{results.clustersPerArm.join(" / ")}</p>
+                    </div>
+                  )}
+                  {results.groupSequential && (
+                    <div className="bg-white dark:bg-slate-800 rounded p-2">
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Expected N (H₀ / H₁)</p>
+                      <p className="font-semibold text-slate-900 dark:text-white">
+                        {results.groupSequential.expectedSampleSizeH0} / {results.groupSequential.expectedSampleSizeH1}
+                      </p>
+                    </div>
+                  )}
                 </div>
 
+                {results.groupSequential && (
+                  <div className="bg-white dark:bg-slate-800 rounded p-2 overflow-x-auto">
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">
+                      Interim Boundaries (max inflation {results.groupSequential.maxInflation})
+                    </p>
+                    <table className="w-full text-xs text-slate-900 dark:text-white">
+                      <thead>
+                        <tr className="text-slate-500 dark:text-slate-400">
+                          <th className="text-left font-medium">Look</th>
+                          <th className="text-right font-medium">Info</th>
+                          <th className="text-right font-medium">n</th>
+                          <th className="text-right font-medium">Efficacy Z</th>
+                          <th className="text-right font-medium">p</th>
+                          {results.groupSequential.futility && <th className="text-right font-medium">Futility Z</th>}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.groupSequential.looks.map((look) => (
+                          <tr key={look.look}>
+                            <td>{look.look}</td>
+                            <td className="text-right">{look.informationFraction.toFixed(2)}</td>
+                            <td className="text-right">{look.sampleSize}</td>
+                            <td className="text-right">{look.efficacyBoundary.toFixed(3)}</td>
+                            <td className="text-right">{look.nominalAlpha.toFixed(4)}</td>
+                            {results.groupSequential!.futility && (
+                              <td className="text-right">{look.futilityBoundary?.toFixed(3)}</td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {results.multiplicity && (
+                  <div className="bg-white dark:bg-slate-800 rounded p-2 overflow-x-auto">
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">Endpoints (largest drives the study size)</p>
+                    <table className="w-full text-xs text-slate-900 dark:text-white">
+                      <thead>
+                        <tr className="text-slate-500 dark:text-slate-400">
+                          <th className="text-left font-medium">Endpoint</th>
+                          <th className="text-right font-medium">Adjusted α</th>
+                          <th className="text-right font-medium">n</th>
+                          <th className="text-right font-medium">Enrolled</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.multiplicity.endpoints.map((endpoint) => (
+                          <tr
+                            key={endpoint.name}
+                            className={endpoint.name === results.multiplicity!.drivingEndpoint ? "font-semibold" : undefined}
+                          >
+                            <td>{endpoint.name}</td>
+                            <td className="text-right">{endpoint.alpha.toFixed(4)}</td>
+                            <td className="text-right">{endpoint.sampleSize}</td>
+                            <td className="text-right">{endpoint.adjustedSampleSize}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {results.multiplicity.planningNote && (
+                      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{results.multiplicity.planningNote}</p>
+                    )}
+                  </div>
+                )}
+
                 <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
                   <p><strong>Formula:</strong> {results.formula}</p>
-                  <p><strong>Assumptions:</strong> {results.assumptions.join(", ")}</p>
+                  <p><strong>Assumptions:</strong> {results.assumptions.map((assumption) => assumption.text).join(", ")}</p>
                 </div>
               </div>
             ) : (
@@ -235,6 +896,11 @@ export function SampleSizeCalculator() {
             </p>
           </div>
         )}
+
+        {/* Power Curve */}
+        {results && lastRequest && (
+          <PowerCurveChart request={lastRequest} effectSize={results.effectSize} />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,972 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export interface SampleSizeFormData {
+  testType: string;
+  solveFor: "sampleSize" | "power" | "effectSize";
+  sampleSize: string;
+  effectSize: string;
+  power: string;
+  alpha: string;
+  groups: string;
+  allocationRatio: string;
+  baselineProportion: string;
+  proportionEffectType: "treatmentProportion" | "riskRatio" | "oddsRatio";
+  proportionEffectValue: string;
+  proportionMethod: "pooled" | "unpooled" | "arcsine";
+  controlSurvivalType: "controlMedianSurvival" | "controlEventRate";
+  controlSurvivalValue: string;
+  accrualPeriod: string;
+  followUpPeriod: string;
+  lossToFollowUpRate: string;
+  survivalMethod: "schoenfeld" | "freedman";
+  tableRows: string;
+  tableColumns: string;
+  categories: string;
+  discordantProportion10: string;
+  discordantProportion01: string;
+  discordantProportion: string;
+  meanDifference: string;
+  withinSubjectSd: string;
+  auc1: string;
+  auc2: string;
+  aucCorrelation: string;
+  controlsPerCase: string;
+  baselineCorrelation: string;
+  parentDistribution: "normal" | "logistic" | "laplace";
+  rankTestMethod: "are" | "noether";
+  baselineRate: string;
+  exposureTime: string;
+  overdispersion: string;
+  randomization: "individual" | "cluster";
+  clusterSize: string;
+  icc: string;
+  clusterSizeCv: string;
+  dropoutRate: string;
+  attritionSchedule: string;
+  armDropoutRates: string;
+  measurements: string;
+  repeatedMeasuresCorrelation: string;
+  sphericityEpsilon: string;
+  repeatedMeasuresEffect: "between" | "within" | "interaction";
+  longitudinalEffect: "timeAveraged" | "slope";
+  predictors: string;
+  testedPredictors: string;
+  eventRate: string;
+  rSquaredOther: string;
+  hypothesisType: "superiority" | "nonInferiority" | "superiorityByMargin" | "equivalence";
+  margin: string;
+  marginRationale: string;
+  looks: string;
+  informationFractions: string;
+  spendingFunction: "obrienFleming" | "pocock" | "lanDeMetsObrienFleming" | "lanDeMetsPocock";
+  futilityBoundaries: boolean;
+  multiplicityMethod: "none" | "bonferroni" | "dunnett";
+  comparisons: string;
+  endpointEffects: string;
+}
+
+interface DesignFieldsProps {
+  formData: SampleSizeFormData;
+  updateData: (data: Partial<SampleSizeFormData>) => void;
+}
+
+export function ProportionFields({ formData, updateData, needsEffect }: DesignFieldsProps & { needsEffect: boolean }) {
+  return (
+    <>
+      <div>
+        <Label htmlFor="baseline-proportion">Control Proportion (p₁)</Label>
+        <Input
+          id="baseline-proportion"
+          type="number"
+          step="0.01"
+          min="0"
+          max="1"
+          placeholder="0.10"
+          value={formData.baselineProportion}
+          onChange={(e) => updateData({ baselineProportion: e.target.value })}
+        />
+      </div>
+
+      {needsEffect && (
+        <div>
+          <Label htmlFor="proportion-effect-type">Treatment Effect</Label>
+          <div className="flex gap-2">
+            <Select
+              value={formData.proportionEffectType}
+              onValueChange={(value) => updateData({ proportionEffectType: value as SampleSizeFormData["proportionEffectType"] })}
+            >
+              <SelectTrigger id="proportion-effect-type" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="treatmentProportion">Proportion p₂</SelectItem>
+                <SelectItem value="riskRatio">Risk ratio</SelectItem>
+                <SelectItem value="oddsRatio">Odds ratio</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder={formData.proportionEffectType === "treatmentProportion" ? "0.20" : "0.5"}
+              value={formData.proportionEffectValue}
+              onChange={(e) => updateData({ proportionEffectValue: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="proportion-method">Method</Label>
+        <Select
+          value={formData.proportionMethod}
+          onValueChange={(value) => updateData({ proportionMethod: value as SampleSizeFormData["proportionMethod"] })}
+        >
+          <SelectTrigger id="proportion-method">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pooled">Pooled variance</SelectItem>
+            <SelectItem value="unpooled">Unpooled variance</SelectItem>
+            <SelectItem value="arcsine">Arcsine (Cohen's h)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+}
+
+export function SurvivalFields({ formData, updateData }: DesignFieldsProps) {
+  return (
+    <>
+      <div>
+        <Label htmlFor="control-survival-type">Control Arm</Label>
+        <div className="flex gap-2">
+          <Select
+            value={formData.controlSurvivalType}
+            onValueChange={(value) => updateData({ controlSurvivalType: value as SampleSizeFormData["controlSurvivalType"] })}
+          >
+            <SelectTrigger id="control-survival-type" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="controlMedianSurvival">Median survival</SelectItem>
+              <SelectItem value="controlEventRate">Event rate / time unit</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder={formData.controlSurvivalType === "controlMedianSurvival" ? "12" : "0.05"}
+            value={formData.controlSurvivalValue}
+            onChange={(e) => updateData({ controlSurvivalValue: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="accrual-period">Accrual Period</Label>
+        <Input
+          id="accrual-period"
+          type="number"
+          step="1"
+          min="0"
+          placeholder="24"
+          value={formData.accrualPeriod}
+          onChange={(e) => updateData({ accrualPeriod: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="follow-up-period">Additional Follow-up</Label>
+        <Input
+          id="follow-up-period"
+          type="number"
+          step="1"
+          min="0"
+          placeholder="12"
+          value={formData.followUpPeriod}
+          onChange={(e) => updateData({ followUpPeriod: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="loss-to-follow-up">Loss to Follow-up (per time unit)</Label>
+        <Input
+          id="loss-to-follow-up"
+          type="number"
+          step="0.01"
+          min="0"
+          max="1"
+          placeholder="0.01"
+          value={formData.lossToFollowUpRate}
+          onChange={(e) => updateData({ lossToFollowUpRate: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="survival-method">Event Formula</Label>
+        <Select
+          value={formData.survivalMethod}
+          onValueChange={(value) => updateData({ survivalMethod: value as SampleSizeFormData["survivalMethod"] })}
+        >
+          <SelectTrigger id="survival-method">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="schoenfeld">Schoenfeld</SelectItem>
+            <SelectItem value="freedman">Freedman</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+}
+
+export function CountFields({ formData, updateData }: DesignFieldsProps) {
+  return (
+    <>
+      <div>
+        <Label htmlFor="baseline-rate">Control Event Rate (per time unit)</Label>
+        <Input
+          id="baseline-rate"
+          type="number"
+          step="0.1"
+          min="0"
+          placeholder="0.8"
+          value={formData.baselineRate}
+          onChange={(e) => updateData({ baselineRate: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="exposure-time">Exposure Time</Label>
+        <Input
+          id="exposure-time"
+          type="number"
+          step="0.5"
+          min="0"
+          placeholder="1"
+          value={formData.exposureTime}
+          onChange={(e) => updateData({ exposureTime: e.target.value })}
+        />
+      </div>
+
+      {formData.testType === "negative binomial rate test" && (
+        <div>
+          <Label htmlFor="overdispersion">Overdispersion (k)</Label>
+          <Input
+            id="overdispersion"
+            type="number"
+            step="0.1"
+            min="0"
+            placeholder="0.5"
+            value={formData.overdispersion}
+            onChange={(e) => updateData({ overdispersion: e.target.value })}
+          />
+        </div>
+      )}
+    </>
+  );
+}
+
+export function ClusterFields({ formData, updateData }: DesignFieldsProps) {
+  return (
+    <>
+      <div>
+        <Label htmlFor="randomization">Randomization Unit</Label>
+        <Select
+          value={formData.randomization}
+          onValueChange={(value) => updateData({ randomization: value as SampleSizeFormData["randomization"] })}
+        >
+          <SelectTrigger id="randomization">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="individual">Individuals</SelectItem>
+            <SelectItem value="cluster">Clusters</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {formData.randomization === "cluster" && (
+        <>
+          <div>
+            <Label htmlFor="cluster-size">Mean Cluster Size (m)</Label>
+            <Input
+              id="cluster-size"
+              type="number"
+              step="1"
+              min="1"
+              placeholder="20"
+              value={formData.clusterSize}
+              onChange={(e) => updateData({ clusterSize: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="icc">Intracluster Correlation (ICC)</Label>
+            <Input
+              id="icc"
+              type="number"
+              step="0.01"
+              min="0"
+              max="1"
+              placeholder="0.05"
+              value={formData.icc}
+              onChange={(e) => updateData({ icc: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="cluster-size-cv">Cluster Size CV</Label>
+            <Input
+              id="cluster-size-cv"
+              type="number"
+              step="0.1"
+              min="0"
+              placeholder="0"
+              value={formData.clusterSizeCv}
+              onChange={(e) => updateData({ clusterSizeCv: e.target.value })}
+            />
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
+export function HypothesisFields({ formData, updateData, marginUnit }: DesignFieldsProps & { marginUnit: string }) {
+  return (
+    <>
+      <div>
+        <Label htmlFor="hypothesis-type">Hypothesis</Label>
+        <Select
+          value={formData.hypothesisType}
+          onValueChange={(value) => updateData({ hypothesisType: value as SampleSizeFormData["hypothesisType"] })}
+        >
+          <SelectTrigger id="hypothesis-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="superiority">Superiority (two-sided)</SelectItem>
+            <SelectItem value="nonInferiority">Non-inferiority</SelectItem>
+            <SelectItem value="superiorityByMargin">Superiority by margin</SelectItem>
+            <SelectItem value="equivalence">Equivalence (TOST)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {formData.hypothesisType !== "superiority" && (
+        <>
+          <div>
+            <Label htmlFor="margin">Margin ({marginUnit})</Label>
+            <Input
+              id="margin"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.10"
+              value={formData.margin}
+              onChange={(e) => updateData({ margin: e.target.value })}
+            />
+          </div>
+
+          <div className="md:col-span-2">
+            <Label htmlFor="margin-rationale">Margin Rationale</Label>
+            <Input
+              id="margin-rationale"
+              placeholder="e.g. half the effect of active control vs. placebo in prior trials"
+              value={formData.marginRationale}
+              onChange={(e) => updateData({ marginRationale: e.target.value })}
+            />
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
+export function ContingencyFields({ formData, updateData }: DesignFieldsProps) {
+  if (formData.testType === "chi-square goodness-of-fit test") {
+    return (
+      <div>
+        <Label htmlFor="categories">Categories</Label>
+        <Input
+          id="categories"
+          type="number"
+          min="2"
+          step="1"
+          placeholder="4"
+          value={formData.categories}
+          onChange={(e) => updateData({ categories: e.target.value })}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div>
+        <Label htmlFor="table-rows">Table Rows (r)</Label>
+        <Input
+          id="table-rows"
+          type="number"
+          min="2"
+          step="1"
+          placeholder="2"
+          value={formData.tableRows}
+          onChange={(e) => updateData({ tableRows: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="table-columns">Table Columns (c)</Label>
+        <Input
+          id="table-columns"
+          type="number"
+          min="2"
+          step="1"
+          placeholder="3"
+          value={formData.tableColumns}
+          onChange={(e) => updateData({ tableColumns: e.target.value })}
+        />
+      </div>
+    </>
+  );
+}
+
+export function McNemarFields({ formData, updateData, needsEffect }: DesignFieldsProps & { needsEffect: boolean }) {
+  if (!needsEffect) {
+    return (
+      <div>
+        <Label htmlFor="discordant-proportion">Total Discordant Proportion (p₁₀ + p₀₁)</Label>
+        <Input
+          id="discordant-proportion"
+          type="number"
+          step="0.01"
+          min="0"
+          max="1"
+          placeholder="0.30"
+          value={formData.discordantProportion}
+          onChange={(e) => updateData({ discordantProportion: e.target.value })}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div>
+        <Label htmlFor="discordant-10">Discordant p₁₀ (treatment only)</Label>
+        <Input
+          id="discordant-10"
+          type="number"
+          step="0.01"
+          min="0"
+          max="1"
+          placeholder="0.20"
+          value={formData.discordantProportion10}
+          onChange={(e) => updateData({ discordantProportion10: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="discordant-01">Discordant p₀₁ (control only)</Label>
+        <Input
+          id="discordant-01"
+          type="number"
+          step="0.01"
+          min="0"
+          max="1"
+          placeholder="0.10"
+          value={formData.discordantProportion01}
+          onChange={(e) => updateData({ discordantProportion01: e.target.value })}
+        />
+      </div>
+    </>
+  );
+}
+
+export function CrossoverFields({ formData, updateData }: DesignFieldsProps) {
+  return (
+    <>
+      <div>
+        <Label htmlFor="mean-difference">Treatment Difference (optional)</Label>
+        <Input
+          id="mean-difference"
+          type="number"
+          step="any"
+          placeholder="5"
+          value={formData.meanDifference}
+          onChange={(e) => updateData({ meanDifference: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="within-subject-sd">Within-subject SD (σ_w)</Label>
+        <Input
+          id="within-subject-sd"
+          type="number"
+          step="any"
+          min="0"
+          placeholder="10"
+          value={formData.withinSubjectSd}
+          onChange={(e) => updateData({ withinSubjectSd: e.target.value })}
+        />
+      </div>
+    </>
+  );
+}
+
+export function AucFields({ formData, updateData, needsEffect }: DesignFieldsProps & { needsEffect: boolean }) {
+  return (
+    <>
+      <div>
+        <Label htmlFor="auc1">Reference Test AUC</Label>
+        <Input
+          id="auc1"
+          type="number"
+          step="0.01"
+          min="0.5"
+          max="1"
+          placeholder="0.75"
+          value={formData.auc1}
+          onChange={(e) => updateData({ auc1: e.target.value })}
+        />
+      </div>
+
+      {needsEffect && (
+        <div>
+          <Label htmlFor="auc2">New Test AUC</Label>
+          <Input
+            id="auc2"
+            type="number"
+            step="0.01"
+            min="0"
+            max="1"
+            placeholder="0.85"
+            value={formData.auc2}
+            onChange={(e) => updateData({ auc2: e.target.value })}
+          />
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="auc-correlation">AUC Correlation (paired readings, optional)</Label>
+        <Input
+          id="auc-correlation"
+          type="number"
+          step="0.05"
+          min="0"
+          max="0.99"
+          placeholder="Blank for separate samples"
+          value={formData.aucCorrelation}
+          onChange={(e) => updateData({ aucCorrelation: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="controls-per-case">Controls per Case</Label>
+        <Input
+          id="controls-per-case"
+          type="number"
+          step="0.5"
+          min="0"
+          placeholder="1"
+          value={formData.controlsPerCase}
+          onChange={(e) => updateData({ controlsPerCase: e.target.value })}
+        />
+      </div>
+    </>
+  );
+}
+
+export function AncovaFields({ formData, updateData }: DesignFieldsProps) {
+  return (
+    <div>
+      <Label htmlFor="baseline-correlation">Baseline Correlation ρ (ANCOVA, optional)</Label>
+      <Input
+        id="baseline-correlation"
+        type="number"
+        step="0.05"
+        min="-0.99"
+        max="0.99"
+        placeholder="e.g. 0.5"
+        value={formData.baselineCorrelation}
+        onChange={(e) => updateData({ baselineCorrelation: e.target.value })}
+      />
+    </div>
+  );
+}
+
+export function RankTestFields({ formData, updateData }: DesignFieldsProps) {
+  return (
+    <>
+      <div>
+        <Label htmlFor="parent-distribution">Parent Distribution</Label>
+        <Select
+          value={formData.parentDistribution}
+          onValueChange={(value) => updateData({ parentDistribution: value as SampleSizeFormData["parentDistribution"] })}
+        >
+          <SelectTrigger id="parent-distribution">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="normal">Normal</SelectItem>
+            <SelectItem value="logistic">Logistic</SelectItem>
+            <SelectItem value="laplace">Laplace (heavy-tailed)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {formData.testType === "mann-whitney test" && (
+        <div>
+          <Label htmlFor="rank-test-method">Method</Label>
+          <Select
+            value={formData.rankTestMethod}
+            onValueChange={(value) => updateData({ rankTestMethod: value as SampleSizeFormData["rankTestMethod"] })}
+          >
+            <SelectTrigger id="rank-test-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="are">ARE-adjusted t-test</SelectItem>
+              <SelectItem value="noether">Noether</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </>
+  );
+}
+
+export function RegressionFields({ formData, updateData }: DesignFieldsProps) {
+  if (formData.testType === "logistic regression") {
+    return (
+      <>
+        <div>
+          <Label htmlFor="event-rate">Overall Event Rate (P)</Label>
+          <Input
+            id="event-rate"
+            type="number"
+            step="0.01"
+            min="0"
+            max="1"
+            placeholder="0.20"
+            value={formData.eventRate}
+            onChange={(e) => updateData({ eventRate: e.target.value })}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="r-squared-other">R² with Other Covariates</Label>
+          <Input
+            id="r-squared-other"
+            type="number"
+            step="0.05"
+            min="0"
+            max="1"
+            placeholder="0"
+            value={formData.rSquaredOther}
+            onChange={(e) => updateData({ rSquaredOther: e.target.value })}
+          />
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div>
+        <Label htmlFor="predictors">Total Predictors (p)</Label>
+        <Input
+          id="predictors"
+          type="number"
+          min="1"
+          step="1"
+          placeholder="5"
+          value={formData.predictors}
+          onChange={(e) => updateData({ predictors: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="tested-predictors">Tested Predictors (u)</Label>
+        <Input
+          id="tested-predictors"
+          type="number"
+          min="1"
+          step="1"
+          placeholder="1"
+          value={formData.testedPredictors}
+          onChange={(e) => updateData({ testedPredictors: e.target.value })}
+        />
+      </div>
+    </>
+  );
+}
+
+export function RepeatedMeasuresFields({ formData, updateData }: DesignFieldsProps) {
+  const isAnova = formData.testType === "repeated measures anova";
+  return (
+    <>
+      {isAnova ? (
+        <div>
+          <Label htmlFor="repeated-measures-effect">Effect Tested</Label>
+          <Select
+            value={formData.repeatedMeasuresEffect}
+            onValueChange={(value) => updateData({ repeatedMeasuresEffect: value as SampleSizeFormData["repeatedMeasuresEffect"] })}
+          >
+            <SelectTrigger id="repeated-measures-effect">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="within">Within subjects (time)</SelectItem>
+              <SelectItem value="between">Between groups</SelectItem>
+              <SelectItem value="interaction">Group × time interaction</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      ) : (
+        <div>
+          <Label htmlFor="longitudinal-effect">Group Comparison</Label>
+          <Select
+            value={formData.longitudinalEffect}
+            onValueChange={(value) => updateData({ longitudinalEffect: value as SampleSizeFormData["longitudinalEffect"] })}
+          >
+            <SelectTrigger id="longitudinal-effect">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="timeAveraged">Time-averaged means</SelectItem>
+              <SelectItem value="slope">Rates of change (slopes)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="measurements">Measurements per Subject (m)</Label>
+        <Input
+          id="measurements"
+          type="number"
+          min="2"
+          step="1"
+          placeholder="3"
+          value={formData.measurements}
+          onChange={(e) => updateData({ measurements: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="repeated-measures-correlation">Correlation Among Measures (ρ)</Label>
+        <Input
+          id="repeated-measures-correlation"
+          type="number"
+          step="0.05"
+          min="0"
+          max="1"
+          placeholder="0.5"
+          value={formData.repeatedMeasuresCorrelation}
+          onChange={(e) => updateData({ repeatedMeasuresCorrelation: e.target.value })}
+        />
+      </div>
+
+      {isAnova && (
+        <div>
+          <Label htmlFor="sphericity-epsilon">Sphericity Correction (ε)</Label>
+          <Input
+            id="sphericity-epsilon"
+            type="number"
+            step="0.05"
+            min="0"
+            max="1"
+            placeholder="1"
+            value={formData.sphericityEpsilon}
+            onChange={(e) => updateData({ sphericityEpsilon: e.target.value })}
+          />
+        </div>
+      )}
+    </>
+  );
+}
+
+export function AttritionFields({ formData, updateData }: DesignFieldsProps) {
+  return (
+    <>
+      <div>
+        <Label htmlFor="dropout-rate">Expected Dropout</Label>
+        <Input
+          id="dropout-rate"
+          type="number"
+          step="0.05"
+          min="0"
+          max="0.99"
+          placeholder="0.20"
+          disabled={formData.attritionSchedule.trim() !== "" || formData.armDropoutRates.trim() !== ""}
+          value={formData.dropoutRate}
+          onChange={(e) => updateData({ dropoutRate: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="attrition-schedule">Per-wave Attrition (optional)</Label>
+        <Input
+          id="attrition-schedule"
+          placeholder="e.g. 0.10, 0.05, 0.05"
+          value={formData.attritionSchedule}
+          onChange={(e) => updateData({ attritionSchedule: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="arm-dropout-rates">Dropout by Arm (optional)</Label>
+        <Input
+          id="arm-dropout-rates"
+          placeholder="e.g. 0.15, 0.25"
+          value={formData.armDropoutRates}
+          onChange={(e) => updateData({ armDropoutRates: e.target.value })}
+        />
+      </div>
+    </>
+  );
+}
+
+export function GroupSequentialFields({ formData, updateData }: DesignFieldsProps) {
+  const sequential = parseInt(formData.looks) > 1;
+  return (
+    <>
+      <div>
+        <Label htmlFor="looks">Planned Analyses</Label>
+        <Input
+          id="looks"
+          type="number"
+          min="1"
+          max="10"
+          placeholder="1 (no interim)"
+          value={formData.looks}
+          onChange={(e) => updateData({ looks: e.target.value })}
+        />
+      </div>
+
+      {sequential && (
+        <>
+          <div>
+            <Label htmlFor="spending-function">Boundaries</Label>
+            <Select
+              value={formData.spendingFunction}
+              onValueChange={(value) => updateData({ spendingFunction: value as SampleSizeFormData["spendingFunction"] })}
+            >
+              <SelectTrigger id="spending-function">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lanDeMetsObrienFleming">Lan-DeMets (O'Brien-Fleming)</SelectItem>
+                <SelectItem value="lanDeMetsPocock">Lan-DeMets (Pocock)</SelectItem>
+                <SelectItem value="obrienFleming">O'Brien-Fleming</SelectItem>
+                <SelectItem value="pocock">Pocock</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="information-fractions">Information Fractions (optional)</Label>
+            <Input
+              id="information-fractions"
+              placeholder="e.g. 0.5, 0.75, 1"
+              value={formData.informationFractions}
+              onChange={(e) => updateData({ informationFractions: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="futility-boundaries">Futility Stopping</Label>
+            <Select
+              value={formData.futilityBoundaries ? "yes" : "no"}
+              onValueChange={(value) => updateData({ futilityBoundaries: value === "yes" })}
+            >
+              <SelectTrigger id="futility-boundaries">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="no">Efficacy only</SelectItem>
+                <SelectItem value="yes">Non-binding futility</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
+export function MultiplicityFields({ formData, updateData, allowsEndpointEffects }: DesignFieldsProps & { allowsEndpointEffects: boolean }) {
+  const adjusted = formData.multiplicityMethod !== "none";
+  return (
+    <>
+      <div>
+        <Label htmlFor="multiplicity-method">Multiplicity Adjustment</Label>
+        <Select
+          value={formData.multiplicityMethod}
+          onValueChange={(value) => updateData({ multiplicityMethod: value as SampleSizeFormData["multiplicityMethod"] })}
+        >
+          <SelectTrigger id="multiplicity-method">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None (single endpoint)</SelectItem>
+            <SelectItem value="bonferroni">α / m (Bonferroni, Holm or Hochberg)</SelectItem>
+            <SelectItem value="dunnett">Dunnett (vs. shared control)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {adjusted && (
+        <div>
+          <Label htmlFor="comparisons">Endpoints / Comparisons</Label>
+          <Input
+            id="comparisons"
+            type="number"
+            min="1"
+            max="20"
+            placeholder="2"
+            disabled={allowsEndpointEffects && formData.endpointEffects.trim() !== ""}
+            value={formData.comparisons}
+            onChange={(e) => updateData({ comparisons: e.target.value })}
+          />
+        </div>
+      )}
+
+      {adjusted && allowsEndpointEffects && (
+        <div>
+          <Label htmlFor="endpoint-effects">Effect by Endpoint (optional)</Label>
+          <Input
+            id="endpoint-effects"
+            placeholder="e.g. Pain: 0.5, Function: 0.4"
+            value={formData.endpointEffects}
+            onChange={(e) => updateData({ endpointEffects: e.target.value })}
+          />
+        </div>
+      )}
+    </>
+  );
+}
+
+export function parseRateList(value: string): number[] | undefined {
+  const rates = value.split(",").map((rate) => rate.trim()).filter(Boolean).map(Number);
+  return rates.length > 0 ? rates : undefined;
+}
+
+export function parseEndpointList(value: string): { name: string; effectSize: number }[] | undefined {
+  const endpoints = value.split(",").map((entry) => entry.trim()).filter(Boolean).map((entry, i) => {
+    const separator = entry.lastIndexOf(":");
+    return separator === -1
+      ? { name: `Endpoint ${i + 1}`, effectSize: Number(entry) }
+      : { name: entry.slice(0, separator).trim() || `Endpoint ${i + 1}`, effectSize: Number(entry.slice(separator + 1)) };
+  });
+  return endpoints.length > 0 ? endpoints : undefined;
+}
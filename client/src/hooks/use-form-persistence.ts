@@ -5,7 +5,7 @@ export function useFormPersistence<T>(key: string, initialData: T) {
   const [data, setData] = useState<T>(() => {
     try {
       const saved = localStorage.getItem(`resai-form-${key}`);
-      return saved ? JSON.parse(saved) : initialData;
+      return saved ? { ...initialData, ...JSON.parse(saved) } : initialData;
     } catch {
       return initialData;
     }
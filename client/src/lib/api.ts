@@ -8,9 +8,322 @@ export interface MethodsRecommendationRequest {
 
 export interface SampleSizeCalculationRequest {
   testType: string;
-  effectSize: number;
-  power: number;
+  solveFor?: "sampleSize" | "power" | "effectSize";
+  effectSize?: number;
+  power?: number;
   alpha: number;
+  sampleSize?: number;
+  groups?: number;
+  baselineProportion?: number;
+  treatmentProportion?: number;
+  riskRatio?: number;
+  oddsRatio?: number;
+  allocationRatio?: number;
+  proportionMethod?: "pooled" | "unpooled" | "arcsine";
+  hazardRatio?: number;
+  controlMedianSurvival?: number;
+  controlEventRate?: number;
+  accrualPeriod?: number;
+  followUpPeriod?: number;
+  lossToFollowUpRate?: number;
+  survivalMethod?: "schoenfeld" | "freedman";
+  tableRows?: number;
+  tableColumns?: number;
+  categories?: number;
+  cellProportions?: number[][];
+  nullProportions?: number[];
+  discordantProportion10?: number;
+  discordantProportion01?: number;
+  discordantProportion?: number;
+  meanDifference?: number;
+  withinSubjectSd?: number;
+  auc1?: number;
+  auc2?: number;
+  aucCorrelation?: number;
+  controlsPerCase?: number;
+  baselineCorrelation?: number;
+  parentDistribution?: "normal" | "logistic" | "laplace";
+  rankTestMethod?: "are" | "noether";
+  baselineRate?: number;
+  rateRatio?: number;
+  exposureTime?: number;
+  overdispersion?: number;
+  clusterSize?: number;
+  icc?: number;
+  clusterSizeCv?: number;
+  dropoutRate?: number;
+  attritionSchedule?: number[];
+  armDropoutRates?: number[];
+  measurements?: number;
+  repeatedMeasuresCorrelation?: number;
+  sphericityEpsilon?: number;
+  repeatedMeasuresEffect?: "between" | "within" | "interaction";
+  longitudinalEffect?: "timeAveraged" | "slope";
+  predictors?: number;
+  testedPredictors?: number;
+  eventRate?: number;
+  rSquaredOther?: number;
+  hypothesisType?: "superiority" | "nonInferiority" | "superiorityByMargin" | "equivalence";
+  margin?: number;
+  marginRationale?: string;
+  looks?: number;
+  informationFractions?: number[];
+  spendingFunction?: "obrienFleming" | "pocock" | "lanDeMetsObrienFleming" | "lanDeMetsPocock";
+  futilityBoundaries?: boolean;
+  endpoints?: ({ name: string } & Partial<Omit<SampleSizeCalculationRequest, "solveFor" | "alpha" | "sampleSize" | "endpoints" | "comparisons" | "multiplicityMethod">>)[];
+  comparisons?: number;
+  multiplicityMethod?: "bonferroni" | "holm" | "hochberg" | "dunnett";
+}
+
+export interface PowerCurveRequest extends Omit<SampleSizeCalculationRequest, "solveFor" | "sampleSize"> {
+  curveType: "powerBySampleSize" | "sampleSizeByEffect";
+  effectSizes?: number[];
+  powers?: number[];
+  minSampleSize?: number;
+  maxSampleSize?: number;
+  minEffectSize?: number;
+  maxEffectSize?: number;
+  points?: number;
+}
+
+export interface PrecisionRequest {
+  target: "mean" | "proportion" | "survey" | "diagnostic";
+  halfWidth: number;
+  confidenceLevel?: number;
+  standardDeviation?: number;
+  expectedProportion?: number;
+  intervalMethod?: "wald" | "wilson" | "clopperPearson";
+  populationSize?: number;
+  designEffect?: number;
+  expectedSensitivity?: number;
+  expectedSpecificity?: number;
+  prevalence?: number;
+  dropoutRate?: number;
+}
+
+// Keyed assumptions can be checked against collected data
+export interface Assumption {
+  key?: "normality" | "equalVariances" | "continuousOutcome" | "binaryOutcome" | "equalGroupSizes";
+  text: string;
+}
+
+export interface PrecisionResult {
+  id: string;
+  target: PrecisionRequest["target"];
+  sampleSize: number;
+  adjustedSampleSize: number;
+  attrition: { dropoutRate: number; attritionSchedule?: number[] };
+  achievedHalfWidth: number;
+  approximateSampleSize?: number;
+  formula: string;
+  assumptions: Assumption[];
+}
+
+export interface BayesianRequest {
+  criterion: "assurance" | "posteriorProbability" | "credibleInterval";
+  testType: string;
+  alpha?: number;
+  priorMean?: number;
+  priorSd: number;
+  analysisPriorMean?: number;
+  analysisPriorSd?: number;
+  targetProbability?: number;
+  posteriorThreshold?: number;
+  intervalWidth?: number;
+  credibleLevel?: number;
+  dropoutRate?: number;
+}
+
+export interface BayesianResult {
+  id: string;
+  criterion: BayesianRequest["criterion"];
+  sampleSize: number;
+  totalSampleSize: number;
+  adjustedSampleSize: number;
+  attrition: { dropoutRate: number };
+  achievedProbability?: number;
+  achievedWidth?: number;
+  frequentistSampleSize?: number;
+  formula: string;
+  assumptions: Assumption[];
+}
+
+export interface SimulationArm {
+  n: number;
+  mean: number;
+  sd?: number;
+  missingRate?: number;
+}
+
+export interface SimulationRequest {
+  distribution: "normal" | "lognormal" | "binary";
+  test: "tTest" | "welch" | "mannWhitney" | "ancova" | "proportion";
+  control: SimulationArm;
+  treatment: SimulationArm;
+  alpha: number;
+  simulations?: number;
+  seed?: number;
+  covariateCorrelation?: number;
+}
+
+export type EffectSizeMetric = "d" | "g" | "f" | "f2" | "r" | "eta2" | "oddsRatio" | "riskRatio" | "h";
+
+export interface EffectSizeConversionRequest {
+  metric: EffectSizeMetric;
+  value: number;
+  n1?: number;
+  n2?: number;
+  groups?: number;
+  baselineProportion?: number;
+}
+
+export type EffectSizeEstimateRequest =
+  | { source: "means"; mean1: number; sd1: number; n1: number; mean2: number; sd2: number; n2: number }
+  | { source: "tStatistic"; t: number; n1: number; n2?: number }
+  | { source: "fStatistic"; f: number; df1: number; df2: number }
+  | { source: "twoByTwo"; treatmentEvents: number; treatmentTotal: number; controlEvents: number; controlTotal: number };
+
+export interface EffectSizeSet {
+  d?: number;
+  g?: number;
+  f?: number;
+  f2?: number;
+  r?: number;
+  eta2?: number;
+  oddsRatio?: number;
+  riskRatio?: number;
+  h?: number;
+  riskDifference?: number;
+  baselineProportion?: number;
+  treatmentProportion?: number;
+}
+
+export interface EffectSizeResult {
+  effectSizes: EffectSizeSet;
+  pooledSd?: number;
+  confidenceInterval?: { metric: EffectSizeMetric; lower: number; upper: number; level: number };
+  notes: string[];
+}
+
+export interface PilotDataOptions {
+  outcome: string;
+  group?: string;
+  controlGroup?: string;
+  covariate?: string;
+  confidenceLevel?: number;
+  bootstrapSamples?: number;
+  seed?: number;
+  conservativeSd?: boolean;
+}
+
+export interface PilotDataResult {
+  rows: number;
+  columns: string[];
+  outcomeType: "continuous" | "binary";
+  groups: { name: string; n: number; missing: number; mean: number; sd: number; proportion?: number }[];
+  pooledSd?: number;
+  pooledSdInterval?: [number, number];
+  correlations: { column: string; n: number; r: number; confidenceInterval: [number, number] }[];
+  effect?: { metric: "d" | "f" | "riskDifference"; value: number; confidenceInterval: [number, number]; description: string };
+  confidenceLevel: number;
+  bootstrapSamples: number;
+  seed: number;
+  prefill?: {
+    testType: string;
+    effectSize?: number;
+    groups?: number;
+    baselineProportion?: number;
+    treatmentProportion?: number;
+    sdSource?: "observed" | "upperConfidenceLimit";
+  };
+  notes: string[];
+}
+
+export interface DatasetDiagnosticsOptions {
+  columns?: string;
+  group?: string;
+  outcome?: string;
+  alpha?: number;
+  bins?: number;
+  calculationId?: string;
+}
+
+export interface DatasetVariableDiagnostics {
+  column: string;
+  group?: string;
+  descriptives: {
+    n: number;
+    missing: number;
+    mean: number;
+    sd: number;
+    median: number;
+    q1: number;
+    q3: number;
+    min: number;
+    max: number;
+    skewness?: number;
+    skewnessSe?: number;
+    kurtosis?: number;
+    kurtosisSe?: number;
+  };
+  normality?: { test: "Shapiro-Wilk"; w: number; pValue: number };
+  outliers: { method: string; lowerFence: number; upperFence: number; rows: number[]; values: number[] };
+  histogram: { start: number; end: number; count: number }[];
+  qqPlot: { theoretical: number; observed: number; expected: number }[];
+}
+
+export interface DatasetDiagnosticsResult {
+  rows: number;
+  columns: string[];
+  numericColumns: string[];
+  alpha: number;
+  variables: DatasetVariableDiagnostics[];
+  varianceEquality: {
+    column: string;
+    tests: { test: "Levene" | "Brown-Forsythe"; statistic: number; df1: number; df2: number; pValue: number }[];
+  }[];
+  assumptionChecks: { assumption: string; status: "consistent" | "violated" | "notTestable"; detail: string }[];
+  notes: string[];
+}
+
+export interface PlannedAnalysisOptions {
+  calculationId?: string;
+  testType?: string;
+  outcome: string;
+  group?: string;
+  controlGroup?: string;
+  pairedWith?: string;
+  covariate?: string;
+  predictors?: string;
+  covariates?: string;
+  alpha?: number;
+  confidenceLevel?: number;
+}
+
+export interface PlannedAnalysisResult {
+  id: string;
+  calculationId: string | null;
+  testType: string;
+  test: string;
+  n: number;
+  excludedRows: number;
+  statistic: { name: string; value: number; df?: number[] };
+  pValue: number;
+  alpha: number;
+  significant: boolean;
+  effectSize: {
+    metric: "d" | "dz" | "f" | "w" | "r" | "f2" | "rankBiserial";
+    value: number;
+    confidenceInterval: [number, number];
+    level: number;
+  };
+  plannedEffectSize?: number;
+  achievedPower?: number;
+  groups?: { name: string; n: number; mean: number; sd: number; median: number }[];
+  coefficients?: { term: string; estimate: number; standardError: number; t: number; pValue: number }[];
+  table?: { rowLabels: string[]; columnLabels: string[]; counts: number[][] };
+  summary: string;
+  notes: string[];
 }
 
 export interface CitationVerificationRequest {
@@ -24,6 +337,26 @@ export interface ProtocolExportRequest {
   includeCitations?: boolean;
   includeEquipment?: boolean;
   includeCostEstimates?: boolean;
+  sampleSizeCalculationId?: string;
+}
+
+// Uploaded files travel as the raw request body with options in the query
+// string, so these requests bypass the JSON apiRequest helper
+async function postCsv(url: string, csv: string, options: object) {
+  const params = new URLSearchParams();
+  Object.entries(options).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+  const response = await fetch(`${url}?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "text/csv" },
+    body: csv,
+    credentials: "include"
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  return response.json();
 }
 
 export const api = {
@@ -43,12 +376,62 @@ export const api = {
       const response = await apiRequest("POST", "/api/sample-size/calculate", data);
       return response.json();
     },
+    curve: async (data: PowerCurveRequest) => {
+      const response = await apiRequest("POST", "/api/sample-size/curve", data);
+      return response.json();
+    },
+    precision: async (data: PrecisionRequest): Promise<PrecisionResult> => {
+      const response = await apiRequest("POST", "/api/sample-size/precision", data);
+      return response.json();
+    },
+    bayesian: async (data: BayesianRequest): Promise<BayesianResult> => {
+      const response = await apiRequest("POST", "/api/sample-size/bayesian", data);
+      return response.json();
+    },
+    simulate: async (data: SimulationRequest) => {
+      const response = await apiRequest("POST", "/api/sample-size/simulate", data);
+      return response.json();
+    },
+    simulation: async (jobId: string) => {
+      const response = await apiRequest("GET", `/api/sample-size/simulate/${jobId}`);
+      return response.json();
+    },
     list: async () => {
       const response = await apiRequest("GET", "/api/sample-size");
       return response.json();
     }
   },
 
+  effectSize: {
+    convert: async (data: EffectSizeConversionRequest): Promise<EffectSizeResult> => {
+      const response = await apiRequest("POST", "/api/effect-size/convert", data);
+      return response.json();
+    },
+    estimate: async (data: EffectSizeEstimateRequest): Promise<EffectSizeResult> => {
+      const response = await apiRequest("POST", "/api/effect-size/estimate", data);
+      return response.json();
+    }
+  },
+
+  pilotData: {
+    analyze: (csv: string, options: PilotDataOptions): Promise<PilotDataResult> =>
+      postCsv("/api/pilot-data", csv, options)
+  },
+
+  datasets: {
+    diagnostics: (csv: string, options: DatasetDiagnosticsOptions): Promise<DatasetDiagnosticsResult> =>
+      postCsv("/api/datasets/diagnostics", csv, options)
+  },
+
+  analyses: {
+    run: (csv: string, options: PlannedAnalysisOptions): Promise<PlannedAnalysisResult> =>
+      postCsv("/api/analyses", csv, options),
+    list: async (calculationId?: string) => {
+      const response = await apiRequest("GET", calculationId ? `/api/analyses?calculationId=${encodeURIComponent(calculationId)}` : "/api/analyses");
+      return response.json();
+    }
+  },
+
   citations: {
     verify: async (data: CitationVerificationRequest) => {
       const response = await apiRequest("POST", "/api/citations/verify", data);
@@ -1,5 +1,17 @@
 import { SampleSizeCalculator } from "@/components/sample-size-calculator";
+import { PrecisionCalculator } from "@/components/precision-calculator";
+import { BayesianCalculator } from "@/components/bayesian-calculator";
+import { DatasetDiagnostics } from "@/components/dataset-diagnostics";
+import { PlannedAnalysis } from "@/components/planned-analysis";
 
 export default function SampleSizeCalculatorPage() {
-  return <SampleSizeCalculator />;
+  return (
+    <div className="space-y-6">
+      <SampleSizeCalculator />
+      <PrecisionCalculator />
+      <BayesianCalculator />
+      <DatasetDiagnostics />
+      <PlannedAnalysis />
+    </div>
+  );
 }
@@ -0,0 +1,61 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { registerRoutes } from './routes';
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const postJson = (path: string, body: unknown) =>
+  fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+const postCsv = (path: string, csv: string) =>
+  fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'Content-Type': 'text/csv' }, body: csv });
+
+async function assertBadRequest(response: Response, message: RegExp) {
+  assert.equal(response.status, 400);
+  assert.match((await response.json()).message, message);
+}
+
+describe('validation errors are reported as 400s', () => {
+  it('sample size calculation', async () => {
+    await assertBadRequest(await postJson('/api/sample-size/calculate', { testType: 'two-sample t-test', alpha: 0.05, power: 0.8 }), /effect size/i);
+    await assertBadRequest(await postJson('/api/sample-size/calculate', { testType: 'two-sample t-test', alpha: 2, power: 0.8, effectSize: 0.5 }), /alpha/i);
+    await assertBadRequest(await postJson('/api/sample-size/calculate', { testType: 'two-sample t-test', alpha: 0.05, power: 0.8, effectSize: '0.5' }), /effectSize/);
+    await assertBadRequest(await postJson('/api/sample-size/calculate', {
+      testType: 'two-sample t-test', alpha: 0.05, power: 0.8, effectSize: 0.5, looks: 3, spendingFunction: 'haybittle'
+    }), /spending function/i);
+  });
+
+  it('effect size conversion and estimation', async () => {
+    await assertBadRequest(await postJson('/api/effect-size/convert', { metric: 'd', value: 0.5, groups: 3 }), /more than two groups/);
+    await assertBadRequest(await postJson('/api/effect-size/estimate', {
+      source: 'means', mean1: 1, sd1: 0, n1: 10, mean2: 0, sd2: 1, n2: 10
+    }), /Standard deviations/);
+  });
+
+  it('uploaded data', async () => {
+    await assertBadRequest(await postCsv('/api/pilot-data?outcome=y&group=g', 'g,y\na,high\nb,low'), /numeric/);
+    await assertBadRequest(await postCsv('/api/datasets/diagnostics', 'a,b\n'), /header row/);
+    await assertBadRequest(await postCsv('/api/analyses?outcome=y&testType=two-sample%20t-test', 'g,y\na,1\nb,2'), /grouping column/);
+  });
+});
+
+describe('successful requests', () => {
+  it('returns the calculated sample size', async () => {
+    const response = await postJson('/api/sample-size/calculate', { testType: 'two-sample t-test', alpha: 0.05, power: 0.8, effectSize: 0.5 });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).sampleSize, 64);
+  });
+});
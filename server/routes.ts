@@ -1,15 +1,55 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { insertMethodSchema, insertSampleSizeCalculationSchema, insertCitationVerificationSchema, insertProtocolSchema, insertHypothesisSchema } from "@shared/schema";
 import { generateMethodsRecommendation, verifyCitation, generateProtocolContent, generateHypothesis } from "./services/gemini";
 import { searchPubMed } from "./services/pubmed";
-import { calculateSampleSize } from "./services/statistics";
+import {
+  calculateBayesianSampleSize,
+  calculatePowerCurve,
+  calculatePrecisionSampleSize,
+  calculateSampleSize,
+  SUPPORTED_TEST_TYPES,
+  type Assumption,
+  type MultiplicityAdjustment
+} from "./services/statistics";
+import { convertEffectSize, estimateEffectSize } from "./services/effect-sizes";
+import { getSimulationJob, SimulationCapacityError, startSimulationJob } from "./services/simulation";
+import { analyzePilotData } from "./services/pilot-data";
+import { analyzeDataset } from "./services/dataset-diagnostics";
+import { ANALYSIS_TEST_TYPES, runPlannedAnalysis } from "./services/analysis";
+import { ValidationError } from "./services/errors";
 import { exportProtocol, getExportMimeType, getExportFilename } from "./services/export";
 import { z } from "zod";
 
 const DEFAULT_USER_ID = "default-user";
 
+const NUMERIC_DESIGN_FIELDS = [
+  "effectSize", "power", "sampleSize", "groups", "allocationRatio", "baselineProportion", "treatmentProportion",
+  "riskRatio", "oddsRatio", "hazardRatio", "controlMedianSurvival", "controlEventRate", "accrualPeriod", "followUpPeriod",
+  "lossToFollowUpRate", "tableRows", "tableColumns", "categories", "discordantProportion10", "discordantProportion01",
+  "discordantProportion", "baselineRate", "rateRatio", "exposureTime", "overdispersion", "clusterSize", "icc", "clusterSizeCv",
+  "dropoutRate", "measurements", "repeatedMeasuresCorrelation", "sphericityEpsilon", "predictors", "testedPredictors",
+  "eventRate", "rSquaredOther", "meanDifference", "withinSubjectSd", "auc1", "auc2", "aucCorrelation", "controlsPerCase",
+  "baselineCorrelation", "margin", "looks", "comparisons"
+];
+const NUMBER_LIST_FIELDS = ["attritionSchedule", "armDropoutRates", "informationFractions", "nullProportions"];
+
+// Describes the first sample size input that is present but not of the expected type
+function describeMistypedDesignField(design: Record<string, unknown>): string | undefined {
+  const isNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value);
+  const isNumberList = (value: unknown) => Array.isArray(value) && value.length > 0 && value.every(isNumber);
+  const number = NUMERIC_DESIGN_FIELDS.find((field) => design[field] !== undefined && !isNumber(design[field]));
+  if (number) return `${number} must be a number`;
+  const list = NUMBER_LIST_FIELDS.find((field) => design[field] !== undefined && !isNumberList(design[field]));
+  if (list) return `${list} must be a list of numbers`;
+  const table = design.cellProportions;
+  if (table !== undefined && !(Array.isArray(table) && table.length > 0 && table.every(isNumberList))) {
+    return "cellProportions must be a table (array of rows) of numbers";
+  }
+  return undefined;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Hypothesis Generator endpoints
   app.post("/api/hypotheses", async (req, res) => {
@@ -99,26 +139,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Sample Size Calculator endpoint
   app.post("/api/sample-size/calculate", async (req, res) => {
     try {
-      const { testType, effectSize, power, alpha } = req.body;
-      
-      if (!testType || effectSize === undefined || power === undefined || alpha === undefined) {
-        return res.status(400).json({ message: "All parameters are required for sample size calculation" });
+      const {
+        testType, solveFor = "sampleSize", power, alpha, groups, baselineProportion, allocationRatio, proportionMethod,
+        clusterSize, icc, clusterSizeCv, hypothesisType = "superiority", margin, marginRationale, endpoints
+      } = req.body;
+      const isProportionTest = String(testType).toLowerCase() === "proportion test";
+      const isSurvivalTest = ["log-rank test", "survival analysis"].includes(String(testType).toLowerCase());
+      const isCountTest = ["poisson rate test", "poisson regression", "negative binomial rate test", "negative binomial regression"]
+        .includes(String(testType).toLowerCase());
+
+      if (typeof testType !== "string" || typeof alpha !== "number") {
+        return res.status(400).json({ message: "Test type and alpha are required for sample size calculation" });
+      }
+
+      if (endpoints !== undefined && (!Array.isArray(endpoints) ||
+        endpoints.some((endpoint) => typeof endpoint !== "object" || endpoint === null || typeof endpoint.name !== "string" || !endpoint.name.trim()))) {
+        return res.status(400).json({ message: "Endpoints must be an array of objects, each with a name" });
       }
 
-      const result = calculateSampleSize({ testType, effectSize, power, alpha });
+      // Design-specific rules are checked by the service; only the types of the inputs are checked here
+      for (const design of [req.body, ...(endpoints ?? [])]) {
+        const mistyped = describeMistypedDesignField(design);
+        if (mistyped) {
+          return res.status(400).json({ message: mistyped });
+        }
+      }
+
+      const result = calculateSampleSize({ ...req.body, solveFor });
       
       // Store the calculation
       const calculationData = {
         userId: DEFAULT_USER_ID,
         testType,
-        effectSize,
-        power,
+        solveFor,
+        hypothesisType,
+        margin: hypothesisType !== "superiority" ? margin : undefined,
+        marginRationale: hypothesisType !== "superiority" ? marginRationale : undefined,
+        effectSize: result.effectSize,
+        power: solveFor === "power" ? result.achievedPower : power,
         alpha,
+        groups,
+        baselineProportion: isProportionTest ? baselineProportion : undefined,
+        treatmentProportion: result.treatmentProportion,
+        allocationRatio: isProportionTest || isSurvivalTest || isCountTest ? allocationRatio ?? 1 : undefined,
+        proportionMethod: isProportionTest ? proportionMethod ?? "pooled" : undefined,
+        clusterSize,
+        icc: clusterSize !== undefined ? icc : undefined,
+        clusterSizeCv: clusterSize !== undefined ? clusterSizeCv ?? 0 : undefined,
+        designEffect: result.designEffect,
+        clustersPerArm: result.clustersPerArm,
         sampleSize: result.sampleSize,
         totalSampleSize: result.totalSampleSize,
         adjustedSampleSize: result.adjustedSampleSize,
+        dropoutRate: result.attrition.dropoutRate,
+        attrition: result.attrition,
+        groupSequential: result.groupSequential,
+        multiplicity: result.multiplicity,
+        achievedPower: result.achievedPower,
+        designParameters: result.designParameters,
         formula: result.formula,
-        assumptions: result.assumptions.join("; ")
+        assumptions: result.assumptions
       };
 
       const calculation = await storage.createSampleSizeCalculation(calculationData);
@@ -128,11 +208,529 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...result
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Sample size calculation error:", error);
       res.status(500).json({ message: "Failed to calculate sample size" });
     }
   });
 
+  // Power curve / sensitivity analysis endpoint
+  app.post("/api/sample-size/curve", async (req, res) => {
+    try {
+      const { testType, alpha, curveType, effectSizes, powers } = req.body;
+
+      if (!testType || alpha === undefined) {
+        return res.status(400).json({ message: "Test type and alpha are required for a power curve" });
+      }
+
+      if (!SUPPORTED_TEST_TYPES.includes(String(testType).toLowerCase())) {
+        return res.status(400).json({ message: `Unsupported test type: ${testType}` });
+      }
+
+      if (!["powerBySampleSize", "sampleSizeByEffect"].includes(curveType)) {
+        return res.status(400).json({ message: "curveType must be powerBySampleSize or sampleSizeByEffect" });
+      }
+
+      for (const values of [effectSizes, powers]) {
+        if (values !== undefined && (!Array.isArray(values) || values.length === 0 || values.length > 5 || !values.every((v: unknown) => typeof v === "number"))) {
+          return res.status(400).json({ message: "Effect sizes and powers must be lists of 1 to 5 numbers" });
+        }
+      }
+
+      const curve = calculatePowerCurve(req.body);
+      res.json(curve);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Power curve error:", error);
+      res.status(500).json({ message: "Failed to calculate power curve" });
+    }
+  });
+
+  // Precision-based sample size: n for a target confidence interval half-width
+  app.post("/api/sample-size/precision", async (req, res) => {
+    try {
+      const {
+        target, halfWidth, confidenceLevel = 0.95, standardDeviation, expectedProportion, intervalMethod,
+        populationSize, designEffect, dropoutRate, expectedSensitivity, expectedSpecificity, prevalence
+      } = req.body;
+
+      if (!["mean", "proportion", "survey", "diagnostic"].includes(target)) {
+        return res.status(400).json({ message: "target must be mean, proportion, survey or diagnostic" });
+      }
+
+      if (typeof halfWidth !== "number" || halfWidth <= 0) {
+        return res.status(400).json({ message: "A positive target half-width is required" });
+      }
+
+      if (typeof confidenceLevel !== "number" || confidenceLevel <= 0 || confidenceLevel >= 1) {
+        return res.status(400).json({ message: "Confidence level must be a number between 0 and 1" });
+      }
+
+      if (target === "mean" && (typeof standardDeviation !== "number" || standardDeviation <= 0)) {
+        return res.status(400).json({ message: "A positive standard deviation is required for a mean" });
+      }
+
+      if (target === "proportion") {
+        if (typeof expectedProportion !== "number" || expectedProportion <= 0 || expectedProportion >= 1) {
+          return res.status(400).json({ message: "An expected proportion between 0 and 1 is required" });
+        }
+        if (intervalMethod !== undefined && !["wald", "wilson", "clopperPearson"].includes(intervalMethod)) {
+          return res.status(400).json({ message: "intervalMethod must be wald, wilson or clopperPearson" });
+        }
+      }
+
+      if (target === "survey") {
+        if (populationSize !== undefined && (!Number.isInteger(populationSize) || populationSize < 2)) {
+          return res.status(400).json({ message: "Population size must be an integer of at least 2" });
+        }
+        if (designEffect !== undefined && (typeof designEffect !== "number" || designEffect < 1)) {
+          return res.status(400).json({ message: "Design effect must be a number of at least 1" });
+        }
+      }
+
+      if (target === "diagnostic" && [expectedSensitivity, expectedSpecificity, prevalence]
+        .some((value) => typeof value !== "number" || value <= 0 || value >= 1)) {
+        return res.status(400).json({ message: "Expected sensitivity, specificity and prevalence between 0 and 1 are required" });
+      }
+
+      if (dropoutRate !== undefined && (typeof dropoutRate !== "number" || dropoutRate < 0 || dropoutRate >= 1)) {
+        return res.status(400).json({ message: "Dropout rate must be a number in [0, 1)" });
+      }
+
+      const result = calculatePrecisionSampleSize({ ...req.body, confidenceLevel });
+      const calculation = await storage.createSampleSizeCalculation({
+        userId: DEFAULT_USER_ID,
+        testType: `${target} precision`,
+        solveFor: "precision",
+        halfWidth,
+        alpha: 1 - confidenceLevel,
+        sampleSize: result.sampleSize,
+        totalSampleSize: result.sampleSize,
+        adjustedSampleSize: result.adjustedSampleSize,
+        dropoutRate: result.attrition.dropoutRate,
+        attrition: result.attrition,
+        designParameters: result.designParameters,
+        formula: result.formula,
+        assumptions: result.assumptions
+      });
+
+      res.json({
+        id: calculation.id,
+        ...result
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Precision sample size error:", error);
+      res.status(500).json({ message: "Failed to calculate precision-based sample size" });
+    }
+  });
+
+  // Bayesian sample size: assurance, probability of success or credible interval width
+  app.post("/api/sample-size/bayesian", async (req, res) => {
+    try {
+      const {
+        criterion, testType, alpha = 0.05, priorMean, priorSd, analysisPriorMean, analysisPriorSd,
+        targetProbability = 0.8, posteriorThreshold = 0.975, intervalWidth, credibleLevel = 0.95, dropoutRate
+      } = req.body;
+
+      if (!["assurance", "posteriorProbability", "credibleInterval"].includes(criterion)) {
+        return res.status(400).json({ message: "criterion must be assurance, posteriorProbability or credibleInterval" });
+      }
+
+      if (!testType || !SUPPORTED_TEST_TYPES.includes(String(testType).toLowerCase())) {
+        return res.status(400).json({ message: `Unsupported test type: ${testType}` });
+      }
+
+      if (criterion !== "assurance" &&
+        !["two-sample t-test", "independent t-test", "paired t-test", "dependent t-test"].includes(String(testType).toLowerCase())) {
+        return res.status(400).json({ message: "Posterior probability and credible interval designs support two-sample and paired t-tests" });
+      }
+
+      if (typeof priorSd !== "number" || priorSd <= 0) {
+        return res.status(400).json({ message: "A positive prior standard deviation is required" });
+      }
+
+      if (criterion !== "credibleInterval" && typeof priorMean !== "number") {
+        return res.status(400).json({ message: "A prior mean is required for assurance and posterior probability designs" });
+      }
+
+      if (analysisPriorMean !== undefined && typeof analysisPriorMean !== "number") {
+        return res.status(400).json({ message: "Analysis prior mean must be a number" });
+      }
+
+      if (analysisPriorSd !== undefined && (typeof analysisPriorSd !== "number" || analysisPriorSd <= 0)) {
+        return res.status(400).json({ message: "Analysis prior standard deviation must be positive" });
+      }
+
+      for (const probability of [alpha, targetProbability, posteriorThreshold, credibleLevel]) {
+        if (typeof probability !== "number" || probability <= 0 || probability >= 1) {
+          return res.status(400).json({ message: "Alpha, target probability, posterior threshold and credible level must lie between 0 and 1" });
+        }
+      }
+
+      if (criterion === "credibleInterval" && (typeof intervalWidth !== "number" || intervalWidth <= 0)) {
+        return res.status(400).json({ message: "A positive credible interval width is required" });
+      }
+
+      if (dropoutRate !== undefined && (typeof dropoutRate !== "number" || dropoutRate < 0 || dropoutRate >= 1)) {
+        return res.status(400).json({ message: "Dropout rate must be a number in [0, 1)" });
+      }
+
+      const result = calculateBayesianSampleSize({
+        ...req.body, alpha, targetProbability, posteriorThreshold, credibleLevel
+      });
+      // Stored alpha is the tail probability of the decision rule
+      const tailProbability = criterion === "assurance" ? alpha
+        : criterion === "posteriorProbability" ? 1 - posteriorThreshold : 1 - credibleLevel;
+      const calculation = await storage.createSampleSizeCalculation({
+        userId: DEFAULT_USER_ID,
+        testType,
+        solveFor: "bayesian",
+        effectSize: criterion !== "credibleInterval" ? priorMean : undefined,
+        power: criterion !== "credibleInterval" ? targetProbability : undefined,
+        halfWidth: criterion === "credibleInterval" ? intervalWidth / 2 : undefined,
+        alpha: tailProbability,
+        sampleSize: result.sampleSize,
+        totalSampleSize: result.totalSampleSize,
+        adjustedSampleSize: result.adjustedSampleSize,
+        dropoutRate: result.attrition.dropoutRate,
+        attrition: result.attrition,
+        achievedPower: result.achievedProbability,
+        designParameters: result.designParameters,
+        formula: result.formula,
+        assumptions: result.assumptions
+      });
+
+      res.json({
+        id: calculation.id,
+        ...result
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Bayesian sample size error:", error);
+      res.status(500).json({ message: "Failed to calculate Bayesian sample size" });
+    }
+  });
+
+  // Simulation-based power: starts a background job and returns its id
+  app.post("/api/sample-size/simulate", async (req, res) => {
+    try {
+      const { distribution, test, control, treatment, alpha } = req.body;
+
+      if (!["normal", "lognormal", "binary"].includes(distribution)) {
+        return res.status(400).json({ message: "distribution must be normal, lognormal or binary" });
+      }
+
+      if (!["tTest", "welch", "mannWhitney", "ancova", "proportion"].includes(test)) {
+        return res.status(400).json({ message: "test must be tTest, welch, mannWhitney, ancova or proportion" });
+      }
+
+      if (typeof alpha !== "number" || !control || !treatment || typeof control.n !== "number" || typeof treatment.n !== "number") {
+        return res.status(400).json({ message: "Alpha and control and treatment arms with sample sizes are required" });
+      }
+
+      const job = startSimulationJob(req.body);
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof SimulationCapacityError) {
+        return res.status(429).json({ message: error.message });
+      }
+      console.error("Simulation start error:", error);
+      res.status(500).json({ message: "Failed to start simulation" });
+    }
+  });
+
+  app.get("/api/sample-size/simulate/:id", async (req, res) => {
+    try {
+      const job = getSimulationJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Simulation job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Simulation status error:", error);
+      res.status(500).json({ message: "Failed to get simulation status" });
+    }
+  });
+
+  // Effect size conversion endpoint
+  app.post("/api/effect-size/convert", async (req, res) => {
+    try {
+      const { metric, value } = req.body;
+
+      if (!["d", "g", "f", "f2", "r", "eta2", "oddsRatio", "riskRatio", "h"].includes(metric)) {
+        return res.status(400).json({ message: "metric must be one of d, g, f, f2, r, eta2, oddsRatio, riskRatio or h" });
+      }
+
+      if (typeof value !== "number") {
+        return res.status(400).json({ message: "A numeric effect size value is required" });
+      }
+
+      res.json(convertEffectSize(req.body));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Effect size conversion error:", error);
+      res.status(500).json({ message: "Failed to convert effect size" });
+    }
+  });
+
+  // Effect size estimation from summary statistics endpoint
+  app.post("/api/effect-size/estimate", async (req, res) => {
+    try {
+      const { source } = req.body;
+      const requiredFields: Record<string, string[]> = {
+        means: ["mean1", "sd1", "n1", "mean2", "sd2", "n2"],
+        tStatistic: ["t", "n1"],
+        fStatistic: ["f", "df1", "df2"],
+        twoByTwo: ["treatmentEvents", "treatmentTotal", "controlEvents", "controlTotal"]
+      };
+
+      if (!requiredFields[source]) {
+        return res.status(400).json({ message: "source must be means, tStatistic, fStatistic or twoByTwo" });
+      }
+
+      const missing = requiredFields[source].filter((field) => typeof req.body[field] !== "number");
+      if (missing.length > 0) {
+        return res.status(400).json({ message: `Missing numeric fields: ${missing.join(", ")}` });
+      }
+
+      res.json(estimateEffectSize(req.body));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Effect size estimation error:", error);
+      res.status(500).json({ message: "Failed to estimate effect size" });
+    }
+  });
+
+  // Pilot data upload: the CSV is the request body, analysis options come from the query string
+  app.post("/api/pilot-data", express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }), async (req, res) => {
+    try {
+      const query = req.query as Record<string, string | undefined>;
+      const numberParam = (name: string) => (query[name] !== undefined ? Number(query[name]) : undefined);
+
+      if (typeof req.body !== "string" || req.body.trim() === "") {
+        return res.status(400).json({ message: "Upload the CSV file as a text/csv request body" });
+      }
+
+      if (!query.outcome) {
+        return res.status(400).json({ message: "The outcome column is required" });
+      }
+
+      if (query.group && query.covariate) {
+        return res.status(400).json({ message: "Choose either a grouping column or a covariate, not both" });
+      }
+
+      const confidenceLevel = numberParam("confidenceLevel");
+      if (confidenceLevel !== undefined && !(confidenceLevel > 0 && confidenceLevel < 1)) {
+        return res.status(400).json({ message: "confidenceLevel must lie between 0 and 1" });
+      }
+
+      const bootstrapSamples = numberParam("bootstrapSamples");
+      if (bootstrapSamples !== undefined && (!Number.isInteger(bootstrapSamples) || bootstrapSamples < 100 || bootstrapSamples > 20000)) {
+        return res.status(400).json({ message: "bootstrapSamples must be an integer between 100 and 20000" });
+      }
+
+      const seed = numberParam("seed");
+      if (seed !== undefined && !Number.isInteger(seed)) {
+        return res.status(400).json({ message: "seed must be an integer" });
+      }
+
+      const result = analyzePilotData(req.body, {
+        outcome: query.outcome,
+        group: query.group || undefined,
+        controlGroup: query.controlGroup || undefined,
+        covariate: query.covariate || undefined,
+        confidenceLevel,
+        bootstrapSamples,
+        seed,
+        conservativeSd: query.conservativeSd === "true"
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Pilot data analysis error:", error);
+      res.status(500).json({ message: "Failed to analyze pilot data" });
+    }
+  });
+
+  // Dataset diagnostics: the CSV is the request body; pass calculationId to check a calculation's assumptions
+  app.post("/api/datasets/diagnostics", express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }), async (req, res) => {
+    try {
+      const query = req.query as Record<string, string | undefined>;
+
+      if (typeof req.body !== "string" || req.body.trim() === "") {
+        return res.status(400).json({ message: "Upload the CSV file as a text/csv request body" });
+      }
+
+      const alpha = query.alpha !== undefined ? Number(query.alpha) : undefined;
+      if (alpha !== undefined && !(alpha > 0 && alpha < 1)) {
+        return res.status(400).json({ message: "alpha must lie between 0 and 1" });
+      }
+
+      const bins = query.bins !== undefined ? Number(query.bins) : undefined;
+      if (bins !== undefined && (!Number.isInteger(bins) || bins < 1 || bins > 100)) {
+        return res.status(400).json({ message: "bins must be an integer between 1 and 100" });
+      }
+
+      let assumptions: Assumption[] | undefined;
+      if (query.calculationId) {
+        const calculation = await storage.getSampleSizeCalculation(query.calculationId);
+        if (!calculation) {
+          return res.status(404).json({ message: "Sample size calculation not found" });
+        }
+        assumptions = calculation.assumptions as Assumption[];
+      }
+
+      const result = analyzeDataset(req.body, {
+        columns: query.columns ? query.columns.split(",").map((column) => column.trim()) : undefined,
+        group: query.group || undefined,
+        outcome: query.outcome || undefined,
+        alpha,
+        bins,
+        assumptions
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Dataset diagnostics error:", error);
+      res.status(500).json({ message: "Failed to analyze dataset" });
+    }
+  });
+
+  // Planned analysis: runs the calculation's test on the collected data (CSV body) and stores the result
+  app.post("/api/analyses", express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }), async (req, res) => {
+    try {
+      const query = req.query as Record<string, string | undefined>;
+      const listParam = (name: string) => query[name] ? query[name]!.split(",").map((column) => column.trim()).filter(Boolean) : undefined;
+
+      if (typeof req.body !== "string" || req.body.trim() === "") {
+        return res.status(400).json({ message: "Upload the CSV file as a text/csv request body" });
+      }
+
+      if (!query.outcome) {
+        return res.status(400).json({ message: "The outcome column is required" });
+      }
+
+      const calculation = query.calculationId ? await storage.getSampleSizeCalculation(query.calculationId) : undefined;
+      if (query.calculationId && !calculation) {
+        return res.status(404).json({ message: "Sample size calculation not found" });
+      }
+
+      // Multi-endpoint calculations are analyzed as the endpoint that drove the sample
+      // size. Only the shared planning inputs are stored, so they describe that
+      // endpoint only when every endpoint uses the calculation's test
+      const multiplicity = calculation?.multiplicity as MultiplicityAdjustment | null | undefined;
+      if (calculation && multiplicity?.endpoints.some((endpoint) => endpoint.testType.toLowerCase() !== calculation.testType.toLowerCase())) {
+        return res.status(400).json({ message: "A calculation whose endpoints use different tests cannot be linked; choose the test instead" });
+      }
+      const drivingEndpoint = multiplicity?.endpoints.find((endpoint) => endpoint.name === multiplicity.drivingEndpoint);
+      const plannedAlpha = multiplicity ? drivingEndpoint?.alpha : calculation?.alpha;
+
+      const testType = calculation?.testType ?? query.testType;
+      if (!testType || !ANALYSIS_TEST_TYPES.includes(testType.toLowerCase())) {
+        return res.status(400).json({ message: `Analysis is available for: ${ANALYSIS_TEST_TYPES.join(", ")}` });
+      }
+
+      if (calculation && query.testType && query.testType.toLowerCase() !== calculation.testType.toLowerCase()) {
+        return res.status(400).json({ message: `The linked calculation was planned for a ${calculation.testType}` });
+      }
+      const alpha = query.alpha !== undefined ? Number(query.alpha) : plannedAlpha ?? 0.05;
+      if (!(alpha > 0 && alpha < 1)) {
+        return res.status(400).json({ message: "alpha must lie between 0 and 1" });
+      }
+
+      const confidenceLevel = query.confidenceLevel !== undefined ? Number(query.confidenceLevel) : 0.95;
+      if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+        return res.status(400).json({ message: "confidenceLevel must lie between 0 and 1" });
+      }
+
+      // Precision and Bayesian calculations have no planned effect to evaluate power against
+      const planned = calculation && calculation.effectSize !== null && ["sampleSize", "power", "effectSize"].includes(calculation.solveFor)
+        ? {
+          ...(calculation.designParameters as Record<string, unknown> ?? {}),
+          testType: calculation.testType,
+          alpha: plannedAlpha ?? calculation.alpha,
+          power: calculation.power ?? undefined,
+          effectSize: drivingEndpoint?.effectSize ?? calculation.effectSize,
+          hypothesisType: calculation.hypothesisType as "superiority" | "nonInferiority" | "superiorityByMargin" | "equivalence",
+          margin: calculation.margin ?? undefined,
+          groups: calculation.groups ?? undefined,
+          baselineProportion: calculation.baselineProportion ?? undefined,
+          allocationRatio: calculation.allocationRatio ?? undefined,
+          clusterSize: calculation.clusterSize ?? undefined,
+          icc: calculation.icc ?? undefined,
+          clusterSizeCv: calculation.clusterSizeCv ?? undefined
+        }
+        : undefined;
+
+      const result = runPlannedAnalysis(req.body, {
+        testType,
+        outcome: query.outcome,
+        group: query.group || undefined,
+        controlGroup: query.controlGroup || undefined,
+        pairedWith: query.pairedWith || undefined,
+        covariate: query.covariate || undefined,
+        predictors: listParam("predictors"),
+        covariates: listParam("covariates"),
+        alpha,
+        confidenceLevel,
+        planned
+      });
+
+      const stored = await storage.createAnalysisResult({
+        userId: DEFAULT_USER_ID,
+        calculationId: calculation?.id,
+        testType,
+        variables: result.variables,
+        sampleSize: result.n,
+        statisticName: result.statistic.name,
+        statistic: result.statistic.value,
+        degreesOfFreedom: result.statistic.df,
+        pValue: result.pValue,
+        alpha,
+        effectSizeMetric: result.effectSize.metric,
+        effectSize: result.effectSize.value,
+        effectSizeLower: result.effectSize.confidenceInterval[0],
+        effectSizeUpper: result.effectSize.confidenceInterval[1],
+        confidenceLevel,
+        achievedPower: result.achievedPower,
+        details: { groups: result.groups, coefficients: result.coefficients, table: result.table, notes: result.notes },
+        summary: result.summary
+      });
+
+      res.json({
+        id: stored.id,
+        calculationId: stored.calculationId,
+        ...result
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Planned analysis error:", error);
+      res.status(500).json({ message: "Failed to run analysis" });
+    }
+  });
+
   // Citation Verifier endpoint
   app.post("/api/citations/verify", async (req, res) => {
     try {
@@ -169,7 +767,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Protocol Exporter endpoint
   app.post("/api/protocols/export", async (req, res) => {
     try {
-      const { methodIds, title, format, includeCitations, includeEquipment, includeCostEstimates } = req.body;
+      const { methodIds, title, format, includeCitations, includeEquipment, includeCostEstimates, sampleSizeCalculationId } = req.body;
       
       if (!methodIds || !Array.isArray(methodIds) || methodIds.length === 0) {
         return res.status(400).json({ message: "At least one method ID is required" });
@@ -190,10 +788,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No valid methods found" });
       }
 
+      const sampleSize = sampleSizeCalculationId
+        ? await storage.getSampleSizeCalculation(sampleSizeCalculationId)
+        : undefined;
+
+      if (sampleSizeCalculationId && !sampleSize) {
+        return res.status(404).json({ message: "Sample size calculation not found" });
+      }
+
+      const analysisResults = sampleSize ? await storage.getAnalysisResultsByCalculation(sampleSize.id) : [];
+
       // Generate protocol content
       const protocolContent = await generateProtocolContent(
         validMethods,
-        undefined,
+        sampleSize,
         includeCitations,
         includeEquipment,
         includeCostEstimates
@@ -202,6 +810,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const protocolData = {
         title,
         methods: validMethods,
+        sampleSize,
+        analysisResults,
         content: protocolContent
       };
 
@@ -269,6 +879,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get user's analysis results, optionally for one calculation
+  app.get("/api/analyses", async (req, res) => {
+    try {
+      const calculationId = typeof req.query.calculationId === "string" ? req.query.calculationId : undefined;
+      const results = calculationId
+        ? await storage.getAnalysisResultsByCalculation(calculationId)
+        : await storage.getAnalysisResultsByUser(DEFAULT_USER_ID);
+      res.json(results);
+    } catch (error) {
+      console.error("Get analyses error:", error);
+      res.status(500).json({ message: "Failed to get analyses" });
+    }
+  });
+
   // Get user's citation verifications
   app.get("/api/citations", async (req, res) => {
     try {
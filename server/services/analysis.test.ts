@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runPlannedAnalysis } from './analysis';
+import { ValidationError } from './errors';
+
+// Reference statistics are R's t.test, wilcox.test, cor.test and oneway.test on
+// its built-in sleep, women and PlantGrowth datasets
+const sleepControl = [0.7, -1.6, -0.2, -1.2, -0.1, 3.4, 3.7, 0.8, 0.0, 2.0];
+const sleepTreatment = [1.9, 0.8, 1.1, 0.1, -0.1, 4.4, 5.5, 1.6, 4.6, 3.4];
+const sleep = ['group,extra', ...sleepControl.map((value) => `1,${value}`), ...sleepTreatment.map((value) => `2,${value}`)].join('\n');
+const sleepPaired = ['drug1,drug2', ...sleepControl.map((value, i) => `${value},${sleepTreatment[i]}`)].join('\n');
+
+const heights = [58, 59, 60, 61, 62, 63, 64, 65, 66, 67, 68, 69, 70, 71, 72];
+const weights = [115, 117, 120, 123, 126, 129, 132, 135, 139, 142, 146, 150, 154, 159, 164];
+const women = ['height,weight', ...heights.map((height, i) => `${height},${weights[i]}`)].join('\n');
+
+const plantGrowth: Record<string, number[]> = {
+  ctrl: [4.17, 5.58, 5.18, 6.11, 4.50, 4.61, 5.17, 4.53, 5.33, 5.14],
+  trt1: [4.81, 4.17, 4.41, 3.59, 5.87, 3.83, 6.03, 4.89, 4.32, 4.69],
+  trt2: [6.31, 5.12, 5.54, 5.50, 5.37, 5.29, 4.92, 6.15, 5.80, 5.26]
+};
+const plants = ['group,weight', ...Object.entries(plantGrowth).flatMap(([group, values]) => values.map((value) => `${group},${value}`))].join('\n');
+
+describe('runPlannedAnalysis', () => {
+  it("matches Student's t-test on sleep: t = 1.8608, p = 0.07919", () => {
+    const result = runPlannedAnalysis(sleep, { testType: 'two-sample t-test', outcome: 'extra', group: 'group' });
+    assert.equal(result.statistic.value, 1.8608);
+    assert.deepEqual(result.statistic.df, [18]);
+    assert.equal(result.pValue, 0.079187);
+  });
+
+  it('matches the paired t-test on sleep: t = -4.0621, p = 0.002833', () => {
+    const result = runPlannedAnalysis(sleepPaired, { testType: 'paired t-test', outcome: 'drug1', pairedWith: 'drug2' });
+    assert.equal(result.statistic.value, -4.0621);
+    assert.equal(result.pValue, 0.002833);
+  });
+
+  it('matches the continuity-corrected Mann-Whitney test on sleep: W = 25.5, p = 0.06933', () => {
+    const result = runPlannedAnalysis(sleep, { testType: 'mann-whitney test', outcome: 'extra', group: 'group' });
+    assert.equal(result.statistic.value, 10 * 10 - 25.5); // U counts the second group above the first
+    assert.equal(Math.round(result.pValue * 1e5) / 1e5, 0.06933);
+  });
+
+  it('matches the correlation test on women: r = 0.9955, t = 37.855', () => {
+    const result = runPlannedAnalysis(women, { testType: 'correlation test', outcome: 'weight', covariate: 'height' });
+    assert.equal(result.effectSize.value, 0.9955);
+    assert.equal(Math.round(result.statistic.value * 1000) / 1000, 37.855);
+  });
+
+  it('matches one-way ANOVA on PlantGrowth: F = 4.846, p = 0.01591', () => {
+    const result = runPlannedAnalysis(plants, { testType: 'one-way anova', outcome: 'weight', group: 'group' });
+    assert.equal(Math.round(result.statistic.value * 1000) / 1000, 4.846);
+    assert.deepEqual(result.statistic.df, [2, 27]);
+    assert.equal(result.pValue, 0.01591);
+  });
+
+  it('tests goodness of fit against the planned null proportions', () => {
+    const csv = ['category', ...Array(50).fill('a'), ...Array(30).fill('b'), ...Array(20).fill('c')].join('\n');
+    const planned = runPlannedAnalysis(csv, {
+      testType: 'chi-square goodness-of-fit test',
+      outcome: 'category',
+      planned: { testType: 'chi-square goodness-of-fit test', alpha: 0.05, effectSize: 0.3, nullProportions: [0.5, 0.3, 0.2] }
+    });
+    assert.equal(planned.statistic.value, 0);
+    const uniform = runPlannedAnalysis(csv, { testType: 'chi-square goodness-of-fit test', outcome: 'category' });
+    assert.equal(uniform.statistic.value, 14);
+  });
+
+  it('rejects unusable requests with a ValidationError', () => {
+    assert.throws(() => runPlannedAnalysis(sleep, { testType: 'log-rank test', outcome: 'extra' }), ValidationError);
+    assert.throws(() => runPlannedAnalysis(sleep, { testType: 'two-sample t-test', outcome: 'extra' }), ValidationError);
+    assert.throws(() => runPlannedAnalysis(sleep, { testType: 'two-sample t-test', outcome: 'missing', group: 'group' }), ValidationError);
+  });
+});
@@ -0,0 +1,585 @@
+import {
+  chiSquareCDF,
+  fCDF,
+  inverseNormalCDF,
+  noncentralChiSquareCDF,
+  noncentralFCDF,
+  noncentralTCDF,
+  normalCDF,
+  tCDF
+} from './distributions';
+import { calculateSampleSize, type SampleSizeParams } from './statistics';
+import { columnIndex, isMissing, parseNumber, readCsvTable, type CsvTable } from './csv';
+import { mannWhitneyU, mean, pooledStandardDeviation, round, standardDeviation } from './descriptive';
+import { ValidationError } from './errors';
+
+// Runs the test a sample size calculation was planned for on the collected
+// data. Effect sizes use the calculator's metrics (d, f, w, f², r) so they can
+// be compared with the planned effect; their intervals invert the noncentral
+// distribution of the test statistic. Achieved power is the power of the
+// collected sample to detect the planned effect, not the observed one.
+
+export type AnalysisEffectMetric = 'd' | 'dz' | 'f' | 'w' | 'r' | 'f2' | 'rankBiserial';
+
+export interface PlannedAnalysisOptions {
+  testType: string;
+  outcome: string;
+  group?: string; // t-test, ANOVA, Mann-Whitney and chi-square independence
+  controlGroup?: string; // reference group, defaults to the first group in the file
+  pairedWith?: string; // paired t-test: second measurement, differences are outcome - pairedWith
+  covariate?: string; // correlation test: the second variable
+  predictors?: string[]; // linear regression: predictors under test
+  covariates?: string[]; // linear regression: adjustment variables kept in both models
+  alpha?: number;
+  confidenceLevel?: number;
+  planned?: SampleSizeParams; // the planning calculation, for achieved power
+}
+
+export interface AnalysisGroupSummary {
+  name: string;
+  n: number;
+  mean: number;
+  sd: number;
+  median: number;
+}
+
+export interface RegressionCoefficient {
+  term: string;
+  estimate: number;
+  standardError: number;
+  t: number;
+  pValue: number;
+}
+
+export interface PlannedAnalysisResult {
+  testType: string;
+  test: string;
+  variables: Omit<PlannedAnalysisOptions, 'testType' | 'controlGroup' | 'alpha' | 'confidenceLevel' | 'planned'>;
+  n: number; // complete cases analyzed
+  excludedRows: number;
+  statistic: { name: string; value: number; df?: number[] };
+  pValue: number;
+  alpha: number;
+  significant: boolean;
+  effectSize: {
+    metric: AnalysisEffectMetric;
+    value: number;
+    confidenceInterval: [number, number];
+    level: number;
+  };
+  plannedEffectSize?: number;
+  achievedPower?: number;
+  groups?: AnalysisGroupSummary[];
+  coefficients?: RegressionCoefficient[];
+  table?: { rowLabels: string[]; columnLabels: string[]; counts: number[][] };
+  summary: string;
+  notes: string[];
+}
+
+type AnalysisKind = 'twoSampleT' | 'pairedT' | 'anova' | 'chiSquare' | 'goodnessOfFit' | 'correlation' | 'mannWhitney' | 'regression';
+
+const ANALYSES: Record<string, AnalysisKind> = {
+  'two-sample t-test': 'twoSampleT',
+  'independent t-test': 'twoSampleT',
+  'paired t-test': 'pairedT',
+  'dependent t-test': 'pairedT',
+  'one-way anova': 'anova',
+  'chi-square test': 'chiSquare',
+  'chi-square independence test': 'chiSquare',
+  'chi-square goodness-of-fit test': 'goodnessOfFit',
+  'correlation test': 'correlation',
+  'mann-whitney test': 'mannWhitney',
+  'wilcoxon rank-sum test': 'mannWhitney',
+  'linear regression': 'regression',
+  'multiple linear regression': 'regression'
+};
+
+export const ANALYSIS_TEST_TYPES = Object.keys(ANALYSES);
+
+const EFFECT_LABELS: Record<AnalysisEffectMetric, string> = {
+  d: 'd',
+  dz: 'd_z',
+  f: 'f',
+  w: 'w',
+  r: 'r',
+  f2: 'f²',
+  rankBiserial: 'r_rb'
+};
+
+type AnalysisOutcome = Omit<PlannedAnalysisResult, 'testType' | 'variables' | 'excludedRows' | 'alpha' | 'significant' | 'plannedEffectSize' | 'achievedPower' | 'summary' | 'notes'> & {
+  plannedSampleSize: number; // per group for multi-arm designs, as the calculator counts it
+  notes?: string[];
+};
+
+export function runPlannedAnalysis(csv: string, options: PlannedAnalysisOptions): PlannedAnalysisResult {
+  const { testType, alpha = 0.05, confidenceLevel = 0.95, planned } = options;
+  const kind = ANALYSES[testType.toLowerCase()];
+  if (!kind) throw new ValidationError(`Analysis is not available for test type: ${testType}`);
+  if (!(alpha > 0 && alpha < 1)) throw new ValidationError("Alpha must lie between 0 and 1");
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) throw new ValidationError("Confidence level must lie between 0 and 1");
+
+  const table = readCsvTable(csv);
+  const variables: PlannedAnalysisResult['variables'] = { outcome: options.outcome };
+  let cases: CompleteCases;
+  let outcome: AnalysisOutcome;
+
+  switch (kind) {
+    case 'twoSampleT':
+    case 'mannWhitney':
+    case 'anova': {
+      if (!options.group) throw new ValidationError("This analysis requires a grouping column");
+      variables.group = options.group;
+      cases = completeCases(table, [options.outcome], [options.group]);
+      const samples = splitByGroup(cases.numeric[0], cases.categorical[0], options.controlGroup);
+      if (kind !== 'anova' && samples.length !== 2) throw new ValidationError(`Expected two groups, found ${samples.length}`);
+      if (kind === 'anova' && samples.length < 2) throw new ValidationError("One-way ANOVA requires at least two groups");
+      outcome = kind === 'twoSampleT'
+        ? twoSampleTTest(samples, confidenceLevel)
+        : kind === 'mannWhitney' ? mannWhitneyTest(samples, confidenceLevel) : oneWayAnova(samples, confidenceLevel);
+      break;
+    }
+    case 'pairedT': {
+      if (!options.pairedWith) throw new ValidationError("The paired t-test requires a second measurement column");
+      variables.pairedWith = options.pairedWith;
+      cases = completeCases(table, [options.outcome, options.pairedWith], []);
+      outcome = pairedTTest(cases.numeric[0].map((value, i) => value - cases.numeric[1][i]), confidenceLevel);
+      break;
+    }
+    case 'chiSquare': {
+      if (!options.group) throw new ValidationError("The chi-square test of independence requires a grouping column");
+      variables.group = options.group;
+      cases = completeCases(table, [], [options.group, options.outcome]);
+      outcome = chiSquareTest(cases.categorical[0], cases.categorical[1], confidenceLevel);
+      break;
+    }
+    case 'goodnessOfFit': {
+      cases = completeCases(table, [], [options.outcome]);
+      outcome = chiSquareTest(null, cases.categorical[0], confidenceLevel, planned?.nullProportions);
+      break;
+    }
+    case 'correlation': {
+      if (!options.covariate) throw new ValidationError("The correlation test requires a second variable");
+      variables.covariate = options.covariate;
+      cases = completeCases(table, [options.outcome, options.covariate], []);
+      outcome = correlationTest(cases.numeric[0], cases.numeric[1], confidenceLevel);
+      break;
+    }
+    case 'regression': {
+      const predictors = options.predictors ?? [];
+      const covariates = options.covariates ?? [];
+      if (predictors.length === 0) throw new ValidationError("Linear regression requires at least one predictor");
+      if (new Set([options.outcome, ...predictors, ...covariates]).size !== predictors.length + covariates.length + 1) {
+        throw new ValidationError("Outcome, predictors and covariates must be distinct columns");
+      }
+      variables.predictors = predictors;
+      if (covariates.length > 0) variables.covariates = covariates;
+      cases = completeCases(table, [options.outcome, ...covariates, ...predictors], []);
+      outcome = linearRegression(cases.numeric[0], cases.numeric.slice(1), [...covariates, ...predictors], predictors.length, confidenceLevel);
+      break;
+    }
+  }
+
+  const notes = [...(outcome.notes ?? [])];
+  if (cases.excluded > 0) notes.push(`${cases.excluded} rows with missing values were excluded (complete-case analysis)`);
+
+  let achievedPower: number | undefined;
+  if (planned?.effectSize !== undefined) {
+    try {
+      achievedPower = round(calculateSampleSize({ ...planned, solveFor: 'power', sampleSize: outcome.plannedSampleSize }).achievedPower);
+    } catch {
+      notes.push("Achieved power could not be computed for the collected sample size");
+    }
+    if (planned.hypothesisType && planned.hypothesisType !== 'superiority') {
+      notes.push("The data were analyzed with a two-sided superiority test; the planned margin-based hypothesis is reflected only in achieved power");
+    }
+  } else {
+    notes.push("Link a sample size calculation to report achieved power for the planned effect");
+  }
+
+  const { plannedSampleSize, notes: _, ...analysis } = outcome;
+  const significant = analysis.pValue < alpha;
+  const { statistic, effectSize } = analysis;
+  const df = statistic.df ? `(${statistic.df.join(', ')})` : '';
+  const summary = `${analysis.test}: ${statistic.name}${df} = ${statistic.value}, ${formatP(analysis.pValue)}, ` +
+    `${EFFECT_LABELS[effectSize.metric]} = ${effectSize.value} ` +
+    `[${round(confidenceLevel * 100, 2)}% CI ${effectSize.confidenceInterval[0]}, ${effectSize.confidenceInterval[1]}], ` +
+    `n = ${analysis.n}; ${significant ? 'significant' : 'not significant'} at α = ${alpha}`;
+
+  return {
+    testType,
+    variables,
+    excludedRows: cases.excluded,
+    ...analysis,
+    alpha,
+    significant,
+    plannedEffectSize: planned?.effectSize,
+    achievedPower,
+    summary,
+    notes
+  };
+}
+
+interface CompleteCases {
+  numeric: number[][]; // one array per requested numeric column
+  categorical: string[][];
+  excluded: number;
+}
+
+// Listwise deletion across every column the analysis uses
+function completeCases(table: CsvTable, numericColumns: string[], categoricalColumns: string[]): CompleteCases {
+  const numericIndexes = numericColumns.map((column) => columnIndex(table, column));
+  const categoricalIndexes = categoricalColumns.map((column) => columnIndex(table, column));
+  const cases: CompleteCases = { numeric: numericColumns.map(() => []), categorical: categoricalColumns.map(() => []), excluded: 0 };
+
+  for (const row of table.rows) {
+    if ([...numericIndexes, ...categoricalIndexes].some((index) => isMissing(row[index]))) {
+      cases.excluded++;
+      continue;
+    }
+    numericIndexes.forEach((index, i) => {
+      const value = parseNumber(row[index]);
+      if (value === null) throw new ValidationError(`Column ${numericColumns[i]} must be numeric`);
+      cases.numeric[i].push(value);
+    });
+    categoricalIndexes.forEach((index, i) => cases.categorical[i].push(row[index].trim()));
+  }
+  return cases;
+}
+
+interface GroupSample {
+  name: string;
+  values: number[];
+}
+
+function splitByGroup(values: number[], groups: string[], controlGroup?: string): GroupSample[] {
+  const samples: GroupSample[] = [];
+  values.forEach((value, i) => {
+    let sample = samples.find((candidate) => candidate.name === groups[i]);
+    if (!sample) {
+      sample = { name: groups[i], values: [] };
+      samples.push(sample);
+    }
+    sample.values.push(value);
+  });
+  if (controlGroup !== undefined) {
+    const control = samples.findIndex((sample) => sample.name === controlGroup);
+    if (control === -1) throw new ValidationError(`Control group not found: ${controlGroup}`);
+    samples.unshift(...samples.splice(control, 1));
+  }
+  if (samples.length > 20) throw new ValidationError("The grouping column has more than 20 groups");
+  if (samples.some((sample) => sample.values.length < 2)) throw new ValidationError("Every group needs at least two observations");
+  return samples;
+}
+
+function twoSampleTTest([control, treatment]: GroupSample[], level: number): AnalysisOutcome {
+  const n1 = control.values.length;
+  const n2 = treatment.values.length;
+  const sd = pooledStandardDeviation([control.values, treatment.values]);
+  if (sd === 0) throw new ValidationError("The outcome has no within-group variation");
+  const scale = Math.sqrt(1 / n1 + 1 / n2);
+  const t = (mean(treatment.values) - mean(control.values)) / (sd * scale);
+  const df = n1 + n2 - 2;
+  const [lower, upper] = noncentralityInterval((ncp) => noncentralTCDF(t, df, ncp), t, level, true);
+
+  return {
+    test: "Student's two-sample t-test",
+    n: n1 + n2,
+    statistic: { name: 't', value: round(t), df: [df] },
+    pValue: round(2 * (1 - tCDF(Math.abs(t), df)), 6),
+    effectSize: { metric: 'd', value: round(t * scale), confidenceInterval: [round(lower * scale), round(upper * scale)], level },
+    groups: [control, treatment].map(summarizeGroup),
+    plannedSampleSize: Math.min(n1, n2),
+    notes: [`Effect is ${treatment.name} minus ${control.name}, standardized by the pooled SD`]
+  };
+}
+
+function pairedTTest(differences: number[], level: number): AnalysisOutcome {
+  const n = differences.length;
+  if (n < 2) throw new ValidationError("The paired t-test needs at least two complete pairs");
+  const sd = standardDeviation(differences);
+  if (sd === 0) throw new ValidationError("The paired differences have no variation");
+  const t = mean(differences) / (sd / Math.sqrt(n));
+  const [lower, upper] = noncentralityInterval((ncp) => noncentralTCDF(t, n - 1, ncp), t, level, true);
+
+  return {
+    test: 'Paired t-test',
+    n,
+    statistic: { name: 't', value: round(t), df: [n - 1] },
+    pValue: round(2 * (1 - tCDF(Math.abs(t), n - 1)), 6),
+    effectSize: { metric: 'dz', value: round(t / Math.sqrt(n)), confidenceInterval: [round(lower / Math.sqrt(n)), round(upper / Math.sqrt(n))], level },
+    groups: [summarizeGroup({ name: 'Differences', values: differences })],
+    plannedSampleSize: n
+  };
+}
+
+function oneWayAnova(samples: GroupSample[], level: number): AnalysisOutcome {
+  const all = samples.flatMap((sample) => sample.values);
+  const total = all.length;
+  const k = samples.length;
+  const grandMean = mean(all);
+  const between = samples.reduce((sum, sample) => sum + sample.values.length * (mean(sample.values) - grandMean) ** 2, 0);
+  const within = samples.reduce((sum, sample) => {
+    const m = mean(sample.values);
+    return sum + sample.values.reduce((s, value) => s + (value - m) ** 2, 0);
+  }, 0);
+  if (within === 0) throw new ValidationError("The outcome has no within-group variation");
+  const df1 = k - 1;
+  const df2 = total - k;
+  const f = (between / df1) / (within / df2);
+  const [lower, upper] = noncentralityInterval((ncp) => noncentralFCDF(f, df1, df2, ncp), f * df1, level, false);
+
+  return {
+    test: 'One-way ANOVA',
+    n: total,
+    statistic: { name: 'F', value: round(f), df: [df1, df2] },
+    pValue: round(1 - fCDF(f, df1, df2), 6),
+    effectSize: {
+      metric: 'f',
+      value: round(Math.sqrt(between / within)),
+      confidenceInterval: [round(Math.sqrt(lower / total)), round(Math.sqrt(upper / total))],
+      level
+    },
+    groups: samples.map(summarizeGroup),
+    plannedSampleSize: Math.min(...samples.map((sample) => sample.values.length))
+  };
+}
+
+// Pearson chi-square without continuity correction; goodness of fit against
+// the planned null proportions, or equal ones, when there is no grouping column
+function chiSquareTest(rowValues: string[] | null, columnValues: string[], level: number, nullProportions?: number[]): AnalysisOutcome {
+  const columnLabels = Array.from(new Set(columnValues)).sort();
+  const rowLabels = rowValues ? Array.from(new Set(rowValues)).sort() : ['Observed'];
+  if (columnLabels.length < 2 || rowLabels.length < (rowValues ? 2 : 1)) {
+    throw new ValidationError("The chi-square test needs at least two categories in each variable");
+  }
+  if (columnLabels.length * rowLabels.length > 400) throw new ValidationError("The contingency table has more than 400 cells");
+  if (nullProportions && nullProportions.length !== columnLabels.length) {
+    throw new ValidationError(`The linked calculation planned ${nullProportions.length} categories, but the outcome has ${columnLabels.length}`);
+  }
+
+  const counts = rowLabels.map(() => columnLabels.map(() => 0));
+  columnValues.forEach((value, i) => {
+    counts[rowValues ? rowLabels.indexOf(rowValues[i]) : 0][columnLabels.indexOf(value)]++;
+  });
+  const n = columnValues.length;
+  const rowTotals = counts.map((row) => row.reduce((sum, count) => sum + count, 0));
+  const columnTotals = columnLabels.map((_, j) => counts.reduce((sum, row) => sum + row[j], 0));
+  const nullTotal = nullProportions?.reduce((sum, p) => sum + p, 0) ?? 1;
+  const expected = (i: number, j: number) => rowValues
+    ? (rowTotals[i] * columnTotals[j]) / n
+    : nullProportions ? (n * nullProportions[j]) / nullTotal : n / columnLabels.length;
+
+  let chiSquare = 0;
+  let sparseCells = 0;
+  counts.forEach((row, i) => row.forEach((count, j) => {
+    const e = expected(i, j);
+    if (e < 5) sparseCells++;
+    chiSquare += (count - e) ** 2 / e;
+  }));
+  const df = rowValues ? (rowLabels.length - 1) * (columnLabels.length - 1) : columnLabels.length - 1;
+  const [lower, upper] = noncentralityInterval((ncp) => noncentralChiSquareCDF(chiSquare, df, ncp), chiSquare, level, false);
+
+  return {
+    test: rowValues
+      ? 'Chi-square test of independence'
+      : `Chi-square goodness-of-fit test (${nullProportions ? 'planned' : 'equal'} proportions)`,
+    n,
+    statistic: { name: 'χ²', value: round(chiSquare), df: [df] },
+    pValue: round(1 - chiSquareCDF(chiSquare, df), 6),
+    effectSize: {
+      metric: 'w',
+      value: round(Math.sqrt(chiSquare / n)),
+      confidenceInterval: [round(Math.sqrt(lower / n)), round(Math.sqrt(upper / n))],
+      level
+    },
+    table: { rowLabels, columnLabels, counts },
+    plannedSampleSize: n,
+    notes: [
+      ...(nullProportions
+        ? [`Planned null proportions were matched to categories in sorted order: ${columnLabels.map((label, j) => `${label} ${round(nullProportions[j] / nullTotal)}`).join(', ')}`]
+        : []),
+      ...(sparseCells > 0 ? [`${sparseCells} cells have expected counts below 5; the chi-square approximation may be poor`] : [])
+    ]
+  };
+}
+
+function correlationTest(x: number[], y: number[], level: number): AnalysisOutcome {
+  const n = x.length;
+  if (n < 4) throw new ValidationError("The correlation test needs at least four complete pairs");
+  const sx = standardDeviation(x);
+  const sy = standardDeviation(y);
+  if (sx === 0 || sy === 0) throw new ValidationError("Both variables must vary to compute a correlation");
+  const mx = mean(x);
+  const my = mean(y);
+  const r = Math.max(-1, Math.min(1, x.reduce((sum, value, i) => sum + (value - mx) * (y[i] - my), 0) / ((n - 1) * sx * sy)));
+  const bounded = Math.max(-0.999999, Math.min(0.999999, r));
+  const t = (bounded * Math.sqrt(n - 2)) / Math.sqrt(1 - bounded * bounded);
+  const margin = inverseNormalCDF(1 - (1 - level) / 2) / Math.sqrt(n - 3);
+
+  return {
+    test: 'Pearson correlation test',
+    n,
+    statistic: { name: 't', value: round(t), df: [n - 2] },
+    pValue: round(2 * (1 - tCDF(Math.abs(t), n - 2)), 6),
+    effectSize: {
+      metric: 'r',
+      value: round(r),
+      confidenceInterval: [round(Math.tanh(Math.atanh(bounded) - margin)), round(Math.tanh(Math.atanh(bounded) + margin))],
+      level
+    },
+    plannedSampleSize: n,
+    notes: ["Correlation interval uses the Fisher z transformation"]
+  };
+}
+
+// Normal approximation with tie and continuity corrections; the rank-biserial
+// interval uses the Hanley-McNeil variance of U / (n₁n₂)
+function mannWhitneyTest([control, treatment]: GroupSample[], level: number): AnalysisOutcome {
+  const n1 = control.values.length;
+  const n2 = treatment.values.length;
+  const total = n1 + n2;
+  const { u, variance } = mannWhitneyU(control.values, treatment.values);
+  const mu = (n1 * n2) / 2;
+  const sigma = Math.sqrt(variance);
+  if (sigma === 0) throw new ValidationError("All outcome values are tied");
+  const z = (u - mu - 0.5 * Math.sign(u - mu)) / sigma;
+
+  const auc = u / (n1 * n2);
+  const q1 = auc / (2 - auc);
+  const q2 = (2 * auc * auc) / (1 + auc);
+  const se = Math.sqrt((auc * (1 - auc) + (n2 - 1) * (q1 - auc * auc) + (n1 - 1) * (q2 - auc * auc)) / (n1 * n2));
+  const margin = inverseNormalCDF(1 - (1 - level) / 2) * se;
+  const toRankBiserial = (value: number) => round(2 * Math.max(0, Math.min(1, value)) - 1);
+
+  return {
+    test: 'Mann-Whitney U test',
+    n: total,
+    statistic: { name: 'U', value: round(u) },
+    pValue: round(2 * (1 - normalCDF(Math.abs(z))), 6),
+    effectSize: {
+      metric: 'rankBiserial',
+      value: toRankBiserial(auc),
+      confidenceInterval: [toRankBiserial(auc - margin), toRankBiserial(auc + margin)],
+      level
+    },
+    groups: [control, treatment].map(summarizeGroup),
+    plannedSampleSize: Math.min(n1, n2),
+    notes: [`U counts ${treatment.name} values above ${control.name} values; z = ${round(z)}`]
+  };
+}
+
+// Ordinary least squares with the last `tested` columns compared against a
+// model holding the remaining covariates
+function linearRegression(y: number[], columns: number[][], names: string[], tested: number, level: number): AnalysisOutcome {
+  const n = y.length;
+  const p = columns.length;
+  if (n < p + 2) throw new ValidationError(`Linear regression with ${p} predictors needs at least ${p + 2} complete cases`);
+
+  const full = fitLeastSquares(y, columns);
+  const reduced = tested < p ? fitLeastSquares(y, columns.slice(0, p - tested)) : null;
+  const totalSquares = y.reduce((sum, value) => sum + (value - mean(y)) ** 2, 0);
+  if (totalSquares === 0) throw new ValidationError("The outcome has no variation");
+  const rSquaredFull = 1 - full.residualSquares / totalSquares;
+  const rSquaredReduced = reduced ? 1 - reduced.residualSquares / totalSquares : 0;
+
+  const df2 = n - p - 1;
+  const f2 = Math.max(0, (rSquaredFull - rSquaredReduced) / (1 - rSquaredFull));
+  const f = (f2 * df2) / tested;
+  const [lower, upper] = noncentralityInterval((ncp) => noncentralFCDF(f, tested, df2, ncp), f * tested, level, false);
+  const sigmaSquared = full.residualSquares / df2;
+
+  return {
+    test: tested < p ? 'Linear regression (partial F-test of the tested predictors)' : 'Linear regression (overall F-test)',
+    n,
+    statistic: { name: 'F', value: round(f), df: [tested, df2] },
+    pValue: round(1 - fCDF(f, tested, df2), 6),
+    effectSize: { metric: 'f2', value: round(f2), confidenceInterval: [round(lower / n), round(upper / n)], level },
+    coefficients: ['(Intercept)', ...names].map((term, j) => {
+      const standardError = Math.sqrt(sigmaSquared * full.inverse[j][j]);
+      const t = full.coefficients[j] / standardError;
+      return {
+        term,
+        estimate: round(full.coefficients[j]),
+        standardError: round(standardError),
+        t: round(t),
+        pValue: round(2 * (1 - tCDF(Math.abs(t), df2)), 6)
+      };
+    }),
+    plannedSampleSize: n,
+    notes: [`R² = ${round(rSquaredFull)}${reduced ? `, R² without the tested predictors = ${round(rSquaredReduced)}` : ''}`]
+  };
+}
+
+function fitLeastSquares(y: number[], columns: number[][]) {
+  const design = y.map((_, i) => [1, ...columns.map((column) => column[i])]);
+  const k = design[0].length;
+  const crossProducts = Array.from({ length: k }, (_, a) =>
+    Array.from({ length: k }, (_, b) => design.reduce((sum, row) => sum + row[a] * row[b], 0)));
+  const inverse = invertMatrix(crossProducts);
+  const xty = Array.from({ length: k }, (_, a) => design.reduce((sum, row, i) => sum + row[a] * y[i], 0));
+  const coefficients = inverse.map((row) => row.reduce((sum, value, b) => sum + value * xty[b], 0));
+  const residualSquares = design.reduce((sum, row, i) =>
+    sum + (y[i] - row.reduce((s, value, j) => s + value * coefficients[j], 0)) ** 2, 0);
+  return { coefficients, inverse, residualSquares };
+}
+
+// Gauss-Jordan elimination with partial pivoting
+function invertMatrix(matrix: number[][]): number[][] {
+  const size = matrix.length;
+  const augmented = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  const scale = Math.max(...matrix.map((row, i) => Math.abs(row[i])), 1);
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(augmented[row][column]) > Math.abs(augmented[pivot][column])) pivot = row;
+    }
+    if (Math.abs(augmented[pivot][column]) < 1e-10 * scale) throw new ValidationError("The predictors are collinear");
+    [augmented[column], augmented[pivot]] = [augmented[pivot], augmented[column]];
+
+    const divisor = augmented[column][column];
+    augmented[column] = augmented[column].map((value) => value / divisor);
+    for (let row = 0; row < size; row++) {
+      if (row === column) continue;
+      const factor = augmented[row][column];
+      augmented[row] = augmented[row].map((value, j) => value - factor * augmented[column][j]);
+    }
+  }
+  return augmented.map((row) => row.slice(size));
+}
+
+// Confidence limits for the noncentrality parameter: the CDF of the observed
+// statistic decreases as the noncentrality grows, so each limit is a root
+function noncentralityInterval(cdfAt: (ncp: number) => number, estimate: number, level: number, signed: boolean): [number, number] {
+  const tail = (1 - level) / 2;
+  const solve = (target: number) => {
+    if (!signed && cdfAt(0) <= target) return 0;
+    let lower = signed ? estimate - 1 : 0;
+    while (signed && cdfAt(lower) < target && lower > -1e6) lower -= Math.max(1, Math.abs(lower));
+    let upper = Math.max(estimate, 0) + 1;
+    while (cdfAt(upper) > target && upper < 1e6) upper += Math.max(1, upper);
+    for (let i = 0; i < 100 && upper - lower > 1e-8 * Math.max(1, Math.abs(upper)); i++) {
+      const middle = (lower + upper) / 2;
+      if (cdfAt(middle) > target) lower = middle;
+      else upper = middle;
+    }
+    return (lower + upper) / 2;
+  };
+  return [solve(1 - tail), solve(tail)];
+}
+
+function summarizeGroup(sample: GroupSample): AnalysisGroupSummary {
+  const sorted = [...sample.values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    name: sample.name,
+    n: sorted.length,
+    mean: round(mean(sorted)),
+    sd: round(standardDeviation(sorted)),
+    median: round(sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2)
+  };
+}
+
+function formatP(p: number): string {
+  return p < 0.001 ? 'p < 0.001' : `p = ${round(p, 3)}`;
+}
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { columnIndex, isMissing, parseNumber, readCsvTable } from './csv';
+import { ValidationError } from './errors';
+
+describe('readCsvTable', () => {
+  it('parses quoted fields with commas, escaped quotes and newlines', () => {
+    const table = readCsvTable('name, note\r\n"Smith, J","said ""hi"""\n"multi\nline",2\n');
+    assert.deepEqual(table.columns, ['name', 'note']);
+    assert.deepEqual(table.rows, [['Smith, J', 'said "hi"'], ['multi\nline', '2']]);
+  });
+
+  it('drops blank lines and keeps a final row without a newline', () => {
+    assert.deepEqual(readCsvTable('a,b\n1,2\n\n,\n3,4').rows, [['1', '2'], ['3', '4']]);
+  });
+
+  it('rejects files without data rows or with an unterminated quote', () => {
+    assert.throws(() => readCsvTable('a,b\n'), ValidationError);
+    assert.throws(() => readCsvTable('a,b\n"1,2\n'), ValidationError);
+  });
+
+  it('reports unknown columns', () => {
+    assert.throws(() => columnIndex(readCsvTable('a\n1'), 'b'), /Column not found: b/);
+  });
+});
+
+describe('cell values', () => {
+  it('treats common missing-value codes as missing', () => {
+    for (const value of ['', ' NA ', 'n/a', 'NaN', 'null', '.', undefined]) assert.equal(isMissing(value), true);
+    assert.equal(isMissing('0'), false);
+  });
+
+  it('parses finite numbers only', () => {
+    assert.equal(parseNumber(' 2.5 '), 2.5);
+    assert.equal(parseNumber('1e3'), 1000);
+    assert.equal(parseNumber('abc'), null);
+    assert.equal(parseNumber('Infinity'), null);
+    assert.equal(parseNumber('NA'), null);
+  });
+});
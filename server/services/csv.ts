@@ -0,0 +1,77 @@
+import { ValidationError } from './errors';
+
+// CSV reading shared by the uploaded-data services
+
+export interface CsvTable {
+  columns: string[];
+  rows: string[][];
+}
+
+const MAX_ROWS = 100000;
+const MISSING_VALUES = new Set(['', 'na', 'n/a', 'nan', 'null', '.']);
+
+// Header plus data rows, with blank lines dropped
+export function readCsvTable(text: string): CsvTable {
+  const table = parseCsv(text);
+  if (table.length < 2) throw new ValidationError("The file needs a header row and at least one data row");
+  const rows = table.slice(1).filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (rows.length > MAX_ROWS) throw new ValidationError(`The file has more than ${MAX_ROWS} rows`);
+  return { columns: table[0].map((name) => name.trim()), rows };
+}
+
+export function columnIndex(table: CsvTable, name: string): number {
+  const index = table.columns.indexOf(name);
+  if (index === -1) throw new ValidationError(`Column not found: ${name}`);
+  return index;
+}
+
+export function isMissing(value: string | undefined): boolean {
+  return value === undefined || MISSING_VALUES.has(value.trim().toLowerCase());
+}
+
+export function parseNumber(value: string | undefined): number | null {
+  if (isMissing(value)) return null;
+  const number = Number(value!.trim());
+  return Number.isFinite(number) ? number : null;
+}
+
+// RFC 4180 style parsing: quoted fields may contain commas, quotes ("") and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new ValidationError("Unterminated quoted field in the CSV file");
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
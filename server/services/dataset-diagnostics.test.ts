@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeDataset } from './dataset-diagnostics';
+import { ValidationError } from './errors';
+
+// Reference values are R's shapiro.test and car::leveneTest on its built-in datasets
+const women = ['height', ...Array.from({ length: 15 }, (_, i) => 58 + i)].join('\n');
+const plantGrowth: Record<string, number[]> = {
+  ctrl: [4.17, 5.58, 5.18, 6.11, 4.50, 4.61, 5.17, 4.53, 5.33, 5.14],
+  trt1: [4.81, 4.17, 4.41, 3.59, 5.87, 3.83, 6.03, 4.89, 4.32, 4.69],
+  trt2: [6.31, 5.12, 5.54, 5.50, 5.37, 5.29, 4.92, 6.15, 5.80, 5.26]
+};
+const plants = ['group,weight', ...Object.entries(plantGrowth).flatMap(([group, values]) => values.map((value) => `${group},${value}`))].join('\n');
+
+describe('analyzeDataset', () => {
+  it('matches Shapiro-Wilk on women$height: W = 0.9636, p = 0.7545', () => {
+    const [variable] = analyzeDataset(women).variables;
+    assert.deepEqual(variable.normality, { test: 'Shapiro-Wilk', w: 0.9636, pValue: 0.7545 });
+  });
+
+  it('matches Levene and Brown-Forsythe on PlantGrowth', () => {
+    const [{ tests }] = analyzeDataset(plants, { group: 'group' }).varianceEquality;
+    const byName = Object.fromEntries(tests.map((test) => [test.test, test]));
+    assert.equal(byName['Brown-Forsythe'].statistic, 1.1192);
+    assert.equal(byName['Brown-Forsythe'].pValue, 0.3412);
+    assert.equal(byName.Levene.statistic, 1.237);
+    assert.equal(byName.Levene.pValue, 0.3062);
+  });
+
+  it('rejects invalid options with a ValidationError', () => {
+    assert.throws(() => analyzeDataset(women, { alpha: 1 }), ValidationError);
+    assert.throws(() => analyzeDataset(women, { bins: 0 }), ValidationError);
+  });
+});
@@ -0,0 +1,427 @@
+import { fCDF, inverseNormalCDF, normalCDF } from './distributions';
+import { columnIndex, isMissing, parseNumber, readCsvTable } from './csv';
+import { mean, quantile, round, standardDeviation } from './descriptive';
+import { ValidationError } from './errors';
+import type { Assumption } from './statistics';
+
+// Distribution diagnostics for uploaded datasets: descriptive tables,
+// Shapiro-Wilk normality, Levene and Brown-Forsythe variance equality,
+// Tukey outlier fences, and histogram and Q-Q data for charts. The design
+// assumptions listed by a sample size calculation can be checked against
+// the same data.
+
+export type AssumptionCheckStatus = 'consistent' | 'violated' | 'notTestable';
+
+export interface DatasetDiagnosticsOptions {
+  columns?: string[]; // numeric columns to describe; all numeric columns by default
+  group?: string; // summaries are produced per group when set
+  outcome?: string; // column used for assumption checks, defaults to the first described column
+  alpha?: number; // significance level of the diagnostic tests
+  bins?: number; // histogram bins; Freedman-Diaconis by default
+  assumptions?: Assumption[]; // e.g. the assumptions of a sample size calculation
+}
+
+export interface DescriptiveStatistics {
+  n: number;
+  missing: number;
+  mean: number;
+  sd: number;
+  median: number;
+  q1: number;
+  q3: number;
+  min: number;
+  max: number;
+  skewness?: number; // adjusted Fisher-Pearson G1, n >= 3
+  skewnessSe?: number;
+  kurtosis?: number; // excess kurtosis G2, n >= 4
+  kurtosisSe?: number;
+}
+
+export interface NormalityTest {
+  test: 'Shapiro-Wilk';
+  w: number;
+  pValue: number;
+}
+
+export interface VarianceEqualityTest {
+  test: 'Levene' | 'Brown-Forsythe';
+  statistic: number;
+  df1: number;
+  df2: number;
+  pValue: number;
+}
+
+export interface OutlierSummary {
+  method: 'Tukey fences (1.5 × IQR)';
+  lowerFence: number;
+  upperFence: number;
+  rows: number[]; // 1-based data rows, header excluded
+  values: number[];
+}
+
+export interface VariableDiagnostics {
+  column: string;
+  group?: string;
+  descriptives: DescriptiveStatistics;
+  normality?: NormalityTest;
+  outliers: OutlierSummary;
+  histogram: { start: number; end: number; count: number }[];
+  qqPlot: { theoretical: number; observed: number; expected: number }[]; // expected = mean + SD × theoretical
+}
+
+export interface AssumptionCheck {
+  assumption: string;
+  status: AssumptionCheckStatus;
+  detail: string;
+}
+
+export interface DatasetDiagnosticsResult {
+  rows: number;
+  columns: string[];
+  numericColumns: string[];
+  alpha: number;
+  variables: VariableDiagnostics[];
+  varianceEquality: { column: string; tests: VarianceEqualityTest[] }[];
+  assumptionChecks: AssumptionCheck[];
+  notes: string[];
+}
+
+const MAX_QQ_POINTS = 200;
+const MAX_GROUPS = 20;
+
+export function analyzeDataset(csv: string, options: DatasetDiagnosticsOptions = {}): DatasetDiagnosticsResult {
+  const { group, alpha = 0.05, bins } = options;
+  if (!(alpha > 0 && alpha < 1)) throw new ValidationError("Alpha must lie between 0 and 1");
+  if (bins !== undefined && (!Number.isInteger(bins) || bins < 1 || bins > 100)) {
+    throw new ValidationError("Histogram bins must be an integer between 1 and 100");
+  }
+
+  const table = readCsvTable(csv);
+  const { columns, rows } = table;
+  const groupIndex = group !== undefined ? columnIndex(table, group) : undefined;
+  const numericColumns = columns.filter((column, index) =>
+    index !== groupIndex &&
+    rows.some((row) => !isMissing(row[index])) &&
+    rows.every((row) => isMissing(row[index]) || parseNumber(row[index]) !== null)
+  );
+  const described = options.columns ?? numericColumns;
+  described.forEach((column) => {
+    columnIndex(table, column);
+    if (!numericColumns.includes(column)) throw new ValidationError(`Column ${column} is not numeric`);
+  });
+  if (described.length === 0) throw new ValidationError("The file has no numeric columns to describe");
+
+  // Rows are split by group in order of first appearance; rows without a group are dropped
+  const groupNames: string[] = [];
+  const rowGroups = rows.map((row) => {
+    if (groupIndex === undefined) return 'All';
+    const name = row[groupIndex]?.trim() ?? '';
+    if (isMissing(name)) return null;
+    if (!groupNames.includes(name)) groupNames.push(name);
+    return name;
+  });
+  if (groupIndex === undefined) groupNames.push('All');
+  if (groupNames.length > MAX_GROUPS) throw new ValidationError(`The grouping column has more than ${MAX_GROUPS} groups`);
+
+  const notes: string[] = [];
+  const droppedRows = rowGroups.filter((name) => name === null).length;
+  if (droppedRows > 0) notes.push(`${droppedRows} rows without a ${group} value were excluded`);
+
+  const samples = new Map<string, Sample[]>();
+  for (const column of described) {
+    const index = columns.indexOf(column);
+    samples.set(column, groupNames.map((name) => {
+      const sample: Sample = { name, values: [], rows: [], missing: 0 };
+      rows.forEach((row, i) => {
+        if (rowGroups[i] !== name) return;
+        const value = parseNumber(row[index]);
+        if (value === null) {
+          sample.missing++;
+        } else {
+          sample.values.push(value);
+          sample.rows.push(i + 1);
+        }
+      });
+      return sample;
+    }));
+  }
+
+  const variables: VariableDiagnostics[] = [];
+  const varianceEquality: DatasetDiagnosticsResult['varianceEquality'] = [];
+  samples.forEach((columnSamples, column) => {
+    for (const sample of columnSamples) {
+      if (sample.values.length === 0) continue;
+      variables.push(describeVariable(column, groupIndex !== undefined ? sample.name : undefined, sample, bins));
+    }
+    const testable = columnSamples.map((sample) => sample.values).filter((values) => values.length >= 2);
+    if (groupIndex !== undefined && testable.length >= 2) {
+      const tests = [varianceEqualityTest(testable, 'mean'), varianceEqualityTest(testable, 'median')]
+        .filter((test): test is VarianceEqualityTest => test !== null);
+      if (tests.length > 0) varianceEquality.push({ column, tests });
+    }
+  });
+
+  if (variables.some((variable) => variable.descriptives.n > 5000)) {
+    notes.push("Shapiro-Wilk is limited to 5000 observations; larger samples are not tested");
+  } else if (variables.some((variable) => variable.descriptives.n > 500)) {
+    notes.push("With large samples the normality tests flag trivial departures; judge the Q-Q plots as well");
+  }
+
+  const outcome = options.outcome ?? described[0];
+  if (!samples.has(outcome)) throw new ValidationError(`The outcome column ${outcome} must be one of the described columns`);
+  const assumptionChecks = (options.assumptions ?? []).map((assumption) =>
+    checkAssumption(assumption, outcome, samples.get(outcome)!, variables, varianceEquality, alpha)
+  );
+
+  return { rows: rows.length, columns, numericColumns, alpha, variables, varianceEquality, assumptionChecks, notes };
+}
+
+interface Sample {
+  name: string;
+  values: number[];
+  rows: number[];
+  missing: number;
+}
+
+function describeVariable(column: string, group: string | undefined, sample: Sample, bins?: number): VariableDiagnostics {
+  const sorted = [...sample.values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const m = mean(sorted);
+  const sd = n > 1 ? standardDeviation(sorted) : 0;
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const shape = shapeStatistics(sorted);
+
+  const iqr = q3 - q1;
+  const lowerFence = q1 - 1.5 * iqr;
+  const upperFence = q3 + 1.5 * iqr;
+  const flagged = sample.values
+    .map((value, i) => ({ value, row: sample.rows[i] }))
+    .filter(({ value }) => value < lowerFence || value > upperFence);
+
+  const normality = shapiroWilk(sorted);
+  return {
+    column,
+    group,
+    descriptives: {
+      n,
+      missing: sample.missing,
+      mean: round(m),
+      sd: round(sd),
+      median: round(quantile(sorted, 0.5)),
+      q1: round(q1),
+      q3: round(q3),
+      min: sorted[0],
+      max: sorted[n - 1],
+      ...shape
+    },
+    normality: normality ? { test: 'Shapiro-Wilk', w: round(normality.w), pValue: round(normality.pValue) } : undefined,
+    outliers: {
+      method: 'Tukey fences (1.5 × IQR)',
+      lowerFence: round(lowerFence),
+      upperFence: round(upperFence),
+      rows: flagged.map(({ row }) => row),
+      values: flagged.map(({ value }) => value)
+    },
+    histogram: histogram(sorted, bins),
+    qqPlot: qqPoints(sorted, m, sd)
+  };
+}
+
+// Keyed assumptions are matched to a data check; unkeyed, design-level
+// assumptions such as independence cannot be judged from the data
+function checkAssumption(
+  { key, text: assumption }: Assumption,
+  outcome: string,
+  outcomeSamples: Sample[],
+  variables: VariableDiagnostics[],
+  varianceEquality: DatasetDiagnosticsResult['varianceEquality'],
+  alpha: number
+): AssumptionCheck {
+  const observed = outcomeSamples.filter((sample) => sample.values.length > 0);
+  const label = (variable: VariableDiagnostics) => variable.group ?? outcome;
+
+  if (key === 'normality') {
+    const tested = variables.filter((variable) => variable.column === outcome && variable.normality);
+    if (tested.length === 0) {
+      return { assumption, status: 'notTestable', detail: "Shapiro-Wilk needs between 3 and 5000 observations per group" };
+    }
+    const rejected = tested.filter((variable) => variable.normality!.pValue < alpha);
+    const results = tested.map((variable) => `${label(variable)}: W = ${variable.normality!.w}, p = ${variable.normality!.pValue}`).join('; ');
+    return {
+      assumption,
+      status: rejected.length > 0 ? 'violated' : 'consistent',
+      detail: `Shapiro-Wilk on ${outcome} (${results})`
+    };
+  }
+
+  if (key === 'equalVariances') {
+    const test = varianceEquality.find((entry) => entry.column === outcome)?.tests.find((candidate) => candidate.test === 'Brown-Forsythe');
+    if (!test) {
+      return { assumption, status: 'notTestable', detail: "Variance equality needs a grouping column with at least two groups of two or more values" };
+    }
+    return {
+      assumption,
+      status: test.pValue < alpha ? 'violated' : 'consistent',
+      detail: `Brown-Forsythe test on ${outcome}: F(${test.df1}, ${test.df2}) = ${test.statistic}, p = ${test.pValue}`
+    };
+  }
+
+  const distinct = new Set(observed.flatMap((sample) => sample.values)).size;
+  if (key === 'continuousOutcome') {
+    return {
+      assumption,
+      status: distinct > 2 ? 'consistent' : 'violated',
+      detail: `${outcome} takes ${distinct} distinct values`
+    };
+  }
+
+  if (key === 'binaryOutcome') {
+    const binary = observed.every((sample) => sample.values.every((value) => value === 0 || value === 1));
+    return {
+      assumption,
+      status: binary ? 'consistent' : 'violated',
+      detail: binary ? `${outcome} is coded 0/1` : `${outcome} has values other than 0 and 1`
+    };
+  }
+
+  if (key === 'equalGroupSizes') {
+    if (observed.length < 2) {
+      return { assumption, status: 'notTestable', detail: "Group sizes need a grouping column" };
+    }
+    const sizes = observed.map((sample) => sample.values.length);
+    return {
+      assumption,
+      status: Math.max(...sizes) <= 1.1 * Math.min(...sizes) ? 'consistent' : 'violated',
+      detail: `Observed group sizes: ${observed.map((sample) => `${sample.name} ${sample.values.length}`).join(', ')}`
+    };
+  }
+
+  return { assumption, status: 'notTestable', detail: "Depends on the study design rather than the observed data" };
+}
+
+// Royston (1992, 1995) approximation, valid for 3 <= n <= 5000
+function shapiroWilk(sorted: number[]): { w: number; pValue: number } | null {
+  const n = sorted.length;
+  if (n < 3 || n > 5000 || sorted[n - 1] - sorted[0] === 0) return null;
+
+  let a: number[];
+  if (n === 3) {
+    a = [-Math.SQRT1_2, 0, Math.SQRT1_2];
+  } else {
+    const m = sorted.map((_, i) => inverseNormalCDF((i + 1 - 0.375) / (n + 0.25)));
+    const mm = m.reduce((sum, value) => sum + value * value, 0);
+    const u = 1 / Math.sqrt(n);
+    const an = m[n - 1] / Math.sqrt(mm) + polynomial([0, 0.221157, -0.147981, -2.07119, 4.434685, -2.706056], u);
+    if (n > 5) {
+      const an1 = m[n - 2] / Math.sqrt(mm) + polynomial([0, 0.042981, -0.293762, -1.752461, 5.682633, -3.582633], u);
+      const phi = (mm - 2 * m[n - 1] ** 2 - 2 * m[n - 2] ** 2) / (1 - 2 * an ** 2 - 2 * an1 ** 2);
+      a = m.map((value) => value / Math.sqrt(phi));
+      [a[0], a[1], a[n - 2], a[n - 1]] = [-an, -an1, an1, an];
+    } else {
+      const phi = (mm - 2 * m[n - 1] ** 2) / (1 - 2 * an ** 2);
+      a = m.map((value) => value / Math.sqrt(phi));
+      [a[0], a[n - 1]] = [-an, an];
+    }
+  }
+
+  const m = mean(sorted);
+  const squares = sorted.reduce((sum, value) => sum + (value - m) ** 2, 0);
+  const w = Math.min(1, a.reduce((sum, coefficient, i) => sum + coefficient * sorted[i], 0) ** 2 / squares);
+  if (w >= 1) return { w, pValue: 1 };
+
+  if (n === 3) {
+    return { w, pValue: Math.max(0, Math.min(1, (6 / Math.PI) * (Math.asin(Math.sqrt(w)) - Math.asin(Math.sqrt(0.75))))) };
+  }
+  const y = Math.log(1 - w);
+  if (n <= 11) {
+    const gamma = 0.459 * n - 2.273;
+    if (y >= gamma) return { w, pValue: 0 };
+    const mu = polynomial([0.544, -0.39978, 0.025054, -0.0006714], n);
+    const sigma = Math.exp(polynomial([1.3822, -0.77857, 0.062767, -0.0020322], n));
+    return { w, pValue: 1 - normalCDF((-Math.log(gamma - y) - mu) / sigma) };
+  }
+  const logN = Math.log(n);
+  const mu = polynomial([-1.5861, -0.31082, -0.083751, 0.0038915], logN);
+  const sigma = Math.exp(polynomial([-0.4803, -0.082676, 0.0030302], logN));
+  return { w, pValue: 1 - normalCDF((y - mu) / sigma) };
+}
+
+// One-way ANOVA on absolute deviations from the group mean (Levene) or median (Brown-Forsythe)
+function varianceEqualityTest(samples: number[][], center: 'mean' | 'median'): VarianceEqualityTest | null {
+  const deviations = samples.map((values) => {
+    const middle = center === 'mean' ? mean(values) : quantile([...values].sort((a, b) => a - b), 0.5);
+    return values.map((value) => Math.abs(value - middle));
+  });
+  const k = deviations.length;
+  const total = deviations.reduce((sum, values) => sum + values.length, 0);
+  const grandMean = deviations.reduce((sum, values) => sum + values.reduce((s, value) => s + value, 0), 0) / total;
+  const between = deviations.reduce((sum, values) => sum + values.length * (mean(values) - grandMean) ** 2, 0);
+  const within = deviations.reduce((sum, values) => {
+    const groupMean = mean(values);
+    return sum + values.reduce((s, value) => s + (value - groupMean) ** 2, 0);
+  }, 0);
+  if (total <= k || within === 0) return null;
+
+  const statistic = (between / (k - 1)) / (within / (total - k));
+  return {
+    test: center === 'mean' ? 'Levene' : 'Brown-Forsythe',
+    statistic: round(statistic),
+    df1: k - 1,
+    df2: total - k,
+    pValue: round(1 - fCDF(statistic, k - 1, total - k))
+  };
+}
+
+function shapeStatistics(sorted: number[]): Pick<DescriptiveStatistics, 'skewness' | 'skewnessSe' | 'kurtosis' | 'kurtosisSe'> {
+  const n = sorted.length;
+  const m = mean(sorted);
+  const moment = (power: number) => sorted.reduce((sum, value) => sum + (value - m) ** power, 0) / n;
+  const m2 = moment(2);
+  if (n < 3 || m2 === 0) return {};
+
+  const skewnessSe = Math.sqrt((6 * n * (n - 1)) / ((n - 2) * (n + 1) * (n + 3)));
+  const shape: ReturnType<typeof shapeStatistics> = {
+    skewness: round((Math.sqrt(n * (n - 1)) / (n - 2)) * (moment(3) / m2 ** 1.5)),
+    skewnessSe: round(skewnessSe)
+  };
+  if (n >= 4) {
+    const excess = moment(4) / (m2 * m2) - 3;
+    shape.kurtosis = round(((n - 1) / ((n - 2) * (n - 3))) * ((n + 1) * excess + 6));
+    shape.kurtosisSe = round(2 * skewnessSe * Math.sqrt((n * n - 1) / ((n - 3) * (n + 5))));
+  }
+  return shape;
+}
+
+function histogram(sorted: number[], bins?: number): VariableDiagnostics['histogram'] {
+  const n = sorted.length;
+  const min = sorted[0];
+  const max = sorted[n - 1];
+  if (max === min) return [{ start: min, end: max, count: n }];
+
+  // Freedman-Diaconis width, falling back to Sturges when the IQR is zero
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  const count = bins ?? Math.min(50, Math.max(1, iqr > 0
+    ? Math.ceil((max - min) / (2 * iqr * Math.pow(n, -1 / 3)))
+    : Math.ceil(Math.log2(n)) + 1));
+  const width = (max - min) / count;
+  const counts = Array(count).fill(0);
+  for (const value of sorted) counts[Math.min(count - 1, Math.floor((value - min) / width))]++;
+  return counts.map((binCount, i) => ({ start: round(min + i * width), end: round(min + (i + 1) * width), count: binCount }));
+}
+
+function qqPoints(sorted: number[], m: number, sd: number): VariableDiagnostics['qqPlot'] {
+  const n = sorted.length;
+  const step = Math.max(1, n / MAX_QQ_POINTS);
+  const points: VariableDiagnostics['qqPlot'] = [];
+  for (let position = 0; position < n; position += step) {
+    const i = Math.floor(position);
+    const theoretical = inverseNormalCDF((i + 1 - 0.375) / (n + 0.25));
+    points.push({ theoretical: round(theoretical), observed: sorted[i], expected: round(m + sd * theoretical) });
+  }
+  return points;
+}
+
+function polynomial(coefficients: number[], x: number): number {
+  return coefficients.reduceRight((sum, coefficient) => sum * x + coefficient, 0);
+}
@@ -0,0 +1,72 @@
+// Descriptive statistics and rank helpers shared by the data and simulation services
+
+export function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+export function mean(values: number[]): number {
+  return sum(values) / values.length;
+}
+
+// Sample variance with the n - 1 denominator
+export function variance(values: number[]): number {
+  const average = mean(values);
+  return values.reduce((total, value) => total + (value - average) * (value - average), 0) / (values.length - 1);
+}
+
+export function standardDeviation(values: number[]): number {
+  return Math.sqrt(variance(values));
+}
+
+// Within-group SD pooled over the degrees of freedom of every sample
+export function pooledStandardDeviation(samples: number[][]): number {
+  return pooledStandardDeviationFromSummaries(samples.map((values) => ({ sd: standardDeviation(values), n: values.length })));
+}
+
+export function pooledStandardDeviationFromSummaries(groups: { sd: number; n: number }[]): number {
+  let squares = 0;
+  let df = 0;
+  for (const { sd, n } of groups) {
+    squares += (n - 1) * sd * sd;
+    df += n - 1;
+  }
+  return Math.sqrt(squares / df);
+}
+
+// Linear interpolation between order statistics (type 7)
+export function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (position - lower) * (sorted[upper] - sorted[lower]);
+}
+
+export function round(value: number, digits = 4): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+// Mann-Whitney U counting treatment values above control values, from mid-ranks
+// of the pooled sample, with the tie-corrected variance of U under H0
+export function mannWhitneyU(control: number[], treatment: number[]): { u: number; variance: number } {
+  const pooled = [...control.map((value) => ({ value, treated: false })), ...treatment.map((value) => ({ value, treated: true }))]
+    .sort((a, b) => a.value - b.value);
+  const n = pooled.length;
+  let rankSum = 0;
+  let tieCorrection = 0;
+  for (let i = 0; i < n;) {
+    let j = i;
+    while (j + 1 < n && pooled[j + 1].value === pooled[i].value) j++;
+    const ties = j - i + 1;
+    const midRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) if (pooled[k].treated) rankSum += midRank;
+    tieCorrection += ties ** 3 - ties;
+    i = j + 1;
+  }
+  const n0 = control.length;
+  const n1 = treatment.length;
+  return {
+    u: rankSum - (n1 * (n1 + 1)) / 2,
+    variance: ((n0 * n1) / 12) * (n + 1 - tieCorrection / (n * (n - 1)))
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  chiSquareQuantile,
+  fQuantile,
+  inverseNormalCDF,
+  noncentralChiSquareCDF,
+  noncentralFCDF,
+  noncentralTCDF,
+  normalCDF,
+  tCDF,
+  tQuantile
+} from './distributions';
+
+const close = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected} ± ${tolerance}, got ${actual}`);
+
+describe('central distributions', () => {
+  it('matches tabulated quantiles', () => {
+    close(inverseNormalCDF(0.975), 1.959964, 1e-6);
+    close(tQuantile(0.975, 10), 2.228139, 1e-5);
+    close(chiSquareQuantile(0.95, 1), 3.841459, 1e-5);
+    close(fQuantile(0.95, 2, 10), 4.102821, 1e-5);
+  });
+});
+
+describe('noncentral distributions', () => {
+  it('reduces to the central t when the noncentrality is zero', () => {
+    for (const t of [-2, 0.5, 1.8]) close(noncentralTCDF(t, 12, 0), tCDF(t, 12), 1e-8);
+  });
+
+  it('approaches a shifted normal for large degrees of freedom', () => {
+    close(noncentralTCDF(1.5, 1e6, 2.8), normalCDF(1.5 - 2.8), 1e-4);
+  });
+
+  it('matches the closed form of the noncentral chi-square with one degree of freedom', () => {
+    // X = (Z + √λ)², so P(X ≤ x) = Φ(√x - √λ) - Φ(-√x - √λ)
+    for (const [x, ncp] of [[3.841459, 7.849], [1, 0.5], [10, 4]]) {
+      const root = Math.sqrt(ncp);
+      close(noncentralChiSquareCDF(x, 1, ncp), normalCDF(Math.sqrt(x) - root) - normalCDF(-Math.sqrt(x) - root), 1e-8);
+    }
+  });
+
+  it('gives F(1, ν) the distribution of the squared noncentral t', () => {
+    const df = 18;
+    const delta = 2.5;
+    const t = 2.1;
+    const expected = noncentralTCDF(t, df, delta) - noncentralTCDF(-t, df, delta);
+    close(noncentralFCDF(t * t, 1, df, delta * delta), expected, 1e-7);
+  });
+});
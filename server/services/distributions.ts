@@ -0,0 +1,325 @@
+// Probability distribution functions used by the statistics service.
+// Incomplete gamma/beta follow Numerical Recipes; the noncentral t
+// distribution follows Lenth (1989), Applied Statistics algorithm AS 243;
+// other noncentral distributions are evaluated as Poisson mixtures.
+
+const EPSILON = 1e-14;
+const TINY = 1e-300;
+const MAX_ITERATIONS = 1000;
+
+export function logGamma(x: number): number {
+  // Lanczos approximation (g = 7, n = 9)
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  const z = x - 1;
+  const t = z + 7.5;
+  let series = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    series += coefficients[i] / (z + i);
+  }
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(series);
+}
+
+// Regularized lower incomplete gamma function P(a, x)
+export function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x < a + 1) return gammaSeries(a, x);
+  return 1 - gammaContinuedFraction(a, x);
+}
+
+// Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x)
+export function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  if (x < a + 1) return 1 - gammaSeries(a, x);
+  return gammaContinuedFraction(a, x);
+}
+
+function gammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+  let ap = a;
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    ap += 1;
+    term *= x / ap;
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+function gammaContinuedFraction(a: number, x: number): number {
+  // Modified Lentz's method
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+// Regularized incomplete beta function I_x(a, b)
+export function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const logFront = logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+  if (x < (a + 1) / (a + b + 2)) {
+    return Math.exp(logFront) * betaContinuedFraction(x, a, b) / a;
+  }
+  return 1 - Math.exp(logFront) * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - qab * x / qap;
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = -(a + m) * (qab + m) * x / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return h;
+}
+
+// Finds x such that cdf(x) = p for a monotonically increasing cdf
+function invertCDF(cdf: (x: number) => number, p: number, lower: number, upper: number): number {
+  let lo = lower;
+  let hi = upper;
+  while (cdf(lo) > p) lo = lo < 0 ? lo * 2 : lo - Math.max(1, Math.abs(lo));
+  while (cdf(hi) < p) hi = hi > 0 ? hi * 2 : hi + Math.max(1, Math.abs(hi));
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (cdf(mid) < p) lo = mid;
+    else hi = mid;
+    if (hi - lo < 1e-12 * Math.max(1, Math.abs(mid))) break;
+  }
+  return (lo + hi) / 2;
+}
+
+// Sums Poisson(mean)-weighted terms outward from the mode until the weights vanish
+function poissonMixture(mean: number, term: (j: number) => number): number {
+  if (mean <= 0) return term(0);
+
+  const mode = Math.floor(mean);
+  const weight = (j: number) => Math.exp(-mean + j * Math.log(mean) - logGamma(j + 1));
+  let total = 0;
+  for (let j = mode; j >= 0; j--) {
+    const w = weight(j);
+    total += w * term(j);
+    if (w < 1e-16) break;
+  }
+  for (let j = mode + 1; j <= mode + 100000; j++) {
+    const w = weight(j);
+    total += w * term(j);
+    if (w < 1e-16) break;
+  }
+  return total;
+}
+
+export function betaQuantile(p: number, a: number, b: number): number {
+  return invertCDF((x) => regularizedBeta(x, a, b), p, 0, 1);
+}
+
+export function normalCDF(x: number): number {
+  const tail = 0.5 * regularizedGammaQ(0.5, x * x / 2);
+  return x < 0 ? tail : 1 - tail;
+}
+
+export function inverseNormalCDF(p: number): number {
+  // Acklam's rational approximation refined with one Halley step
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02,
+             1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02,
+             6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00,
+             -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00,
+             3.754408661907416e+00];
+  const pLow = 0.02425;
+
+  let x: number;
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+        ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  } else if (p <= 1 - pLow) {
+    const q = p - 0.5;
+    const r = q * q;
+    x = (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+        (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  } else {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+         ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const e = normalCDF(x) - p;
+  const u = e * Math.sqrt(2 * Math.PI) * Math.exp(x * x / 2);
+  return x - u / (1 + x * u / 2);
+}
+
+export function tCDF(t: number, df: number): number {
+  const tail = 0.5 * regularizedBeta(df / (df + t * t), df / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+}
+
+export function tQuantile(p: number, df: number): number {
+  const start = inverseNormalCDF(p);
+  return invertCDF((t) => tCDF(t, df), p, start - 1, start + 1);
+}
+
+export function noncentralTCDF(t: number, df: number, ncp: number): number {
+  if (ncp === 0) return tCDF(t, df);
+
+  let tt = t;
+  let delta = ncp;
+  let lowerTail = true;
+  if (t < 0) {
+    lowerTail = false;
+    tt = -tt;
+    delta = -delta;
+  }
+
+  // Normal approximation for very large df or noncentrality
+  if (df > 4e5 || delta * delta > 2 * Math.LN2 * 1021) {
+    const s = 1 / (4 * df);
+    const z = (tt * (1 - s) - delta) / Math.sqrt(1 + tt * tt * 2 * s);
+    const cdf = normalCDF(z);
+    return lowerTail ? cdf : 1 - cdf;
+  }
+
+  let total = 0;
+  const x = tt * tt / (tt * tt + df);
+  if (x > 0) {
+    const lambda = delta * delta;
+    let p = 0.5 * Math.exp(-0.5 * lambda);
+    let q = Math.sqrt(2 / Math.PI) * p * delta;
+    let s = 0.5 - p;
+    if (s < 1e-7) s = -0.5 * Math.expm1(-0.5 * lambda);
+    let a = 0.5;
+    const b = 0.5 * df;
+    const rxb = Math.pow(1 - x, b);
+    const logBeta = 0.5 * Math.log(Math.PI) + logGamma(b) - logGamma(0.5 + b);
+    let xOdd = regularizedBeta(x, a, b);
+    let gOdd = 2 * rxb * Math.exp(a * Math.log(x) - logBeta);
+    const bx = b * x;
+    let xEven = bx < Number.EPSILON ? bx : 1 - rxb;
+    let gEven = bx * rxb;
+    total = p * xOdd + q * xEven;
+
+    for (let it = 1; it <= MAX_ITERATIONS; it++) {
+      a += 1;
+      xOdd -= gOdd;
+      xEven -= gEven;
+      gOdd *= x * (a + b - 1) / a;
+      gEven *= x * (a + b - 0.5) / (a + 0.5);
+      p *= lambda / (2 * it);
+      q *= lambda / (2 * it + 1);
+      total += p * xOdd + q * xEven;
+      s -= p;
+      if (s < -1e-10 || (s <= 0 && it > 1)) break;
+      if (Math.abs(2 * s * (xOdd - gOdd)) < 1e-12) break;
+    }
+  }
+
+  total += normalCDF(-delta);
+  const cdf = Math.min(total, 1);
+  return lowerTail ? cdf : 1 - cdf;
+}
+
+export function fCDF(f: number, df1: number, df2: number): number {
+  if (f <= 0) return 0;
+  return regularizedBeta(df1 * f / (df1 * f + df2), df1 / 2, df2 / 2);
+}
+
+export function fQuantile(p: number, df1: number, df2: number): number {
+  return invertCDF((f) => fCDF(f, df1, df2), p, 0, 10);
+}
+
+export function noncentralFCDF(f: number, df1: number, df2: number, ncp: number): number {
+  if (f <= 0) return 0;
+  const x = df1 * f / (df1 * f + df2);
+  return poissonMixture(ncp / 2, (j) => regularizedBeta(x, df1 / 2 + j, df2 / 2));
+}
+
+export function chiSquareCDF(x: number, df: number): number {
+  return regularizedGammaP(df / 2, x / 2);
+}
+
+export function chiSquareQuantile(p: number, df: number): number {
+  return invertCDF((x) => chiSquareCDF(x, df), p, 0, Math.max(10, 2 * df));
+}
+
+export function noncentralChiSquareCDF(x: number, df: number, ncp: number): number {
+  if (x <= 0) return 0;
+  return poissonMixture(ncp / 2, (j) => regularizedGammaP(df / 2 + j, x / 2));
+}
+
+// CDF of max |Z_i| over k standard normals sharing correlation rho >= 0, integrating
+// over the common component in Z_i = √ρ U + √(1 - ρ) E_i (Simpson's rule on ±8)
+export function maxAbsEquicorrelatedNormalCDF(c: number, k: number, rho: number): number {
+  if (c <= 0) return 0;
+  const a = Math.sqrt(rho);
+  const b = Math.sqrt(1 - rho);
+  const intervals = 320;
+  const step = 16 / intervals;
+  let sum = 0;
+  for (let i = 0; i <= intervals; i++) {
+    const u = -8 + i * step;
+    const inner = b === 0
+      ? (Math.abs(u) < c ? 1 : 0)
+      : normalCDF((c - a * u) / b) - normalCDF((-c - a * u) / b);
+    const weight = i === 0 || i === intervals ? 1 : i % 2 === 1 ? 4 : 2;
+    sum += weight * Math.exp(-u * u / 2) * Math.pow(Math.max(inner, 0), k);
+  }
+  return Math.min(sum * step / 3 / Math.sqrt(2 * Math.PI), 1);
+}
+
+// Two-sided Dunnett critical value for k comparisons with a shared control (large-sample)
+export function dunnettQuantile(p: number, k: number, rho: number): number {
+  return invertCDF((c) => maxAbsEquicorrelatedNormalCDF(c, k, rho), p, 0, 10);
+}
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertEffectSize, estimateEffectSize } from './effect-sizes';
+import { ValidationError } from './errors';
+
+describe('estimateEffectSize', () => {
+  it('matches the worked example of Borenstein et al. (2009, ch. 4)', () => {
+    const result = estimateEffectSize({ source: 'means', mean1: 103, sd1: 5.5, n1: 50, mean2: 100, sd2: 4.5, n2: 50 });
+    assert.equal(result.pooledSd, 5.0249);
+    assert.equal(result.effectSizes.d, 0.597);
+    assert.equal(result.effectSizes.g, 0.5924);
+    assert.equal(result.confidenceInterval?.lower, 0.1964);
+  });
+
+  it('rejects non-positive standard deviations', () => {
+    assert.throws(() => estimateEffectSize({ source: 'means', mean1: 1, sd1: 0, n1: 10, mean2: 0, sd2: 1, n2: 10 }), ValidationError);
+  });
+});
+
+describe('convertEffectSize', () => {
+  it('converts d = 0.5 with equal groups', () => {
+    const { effectSizes } = convertEffectSize({ metric: 'd', value: 0.5 });
+    assert.equal(effectSizes.f, 0.25);
+    assert.equal(effectSizes.r, 0.2425); // d / √(d² + 4)
+    assert.equal(effectSizes.oddsRatio, 2.4766); // exp(dπ/√3), Chinn (2000)
+  });
+
+  it('round-trips through the odds ratio', () => {
+    assert.equal(convertEffectSize({ metric: 'oddsRatio', value: 2.4766 }).effectSizes.d, 0.5);
+  });
+
+  it('rejects metrics that are undefined for more than two groups', () => {
+    assert.throws(() => convertEffectSize({ metric: 'd', value: 0.5, groups: 3 }), ValidationError);
+  });
+});
@@ -0,0 +1,279 @@
+import { inverseNormalCDF } from './distributions';
+import { pooledStandardDeviationFromSummaries, round } from './descriptive';
+import { ValidationError } from './errors';
+
+// Conversions between effect size metrics and estimates from raw summaries.
+// Two-group conversions go through Cohen's d: r and f via the group-size factor
+// a = (n₁ + n₂)² / (n₁n₂), odds ratios via the logistic approximation of
+// Chinn (2000), ln OR = d·π/√3.
+
+export type EffectSizeMetric = 'd' | 'g' | 'f' | 'f2' | 'r' | 'eta2' | 'oddsRatio' | 'riskRatio' | 'h';
+
+export interface EffectSizeSet {
+  d?: number;
+  g?: number;
+  f?: number;
+  f2?: number;
+  r?: number;
+  eta2?: number;
+  oddsRatio?: number;
+  riskRatio?: number;
+  h?: number;
+  riskDifference?: number;
+  baselineProportion?: number;
+  treatmentProportion?: number;
+}
+
+export interface EffectSizeConversionParams {
+  metric: EffectSizeMetric;
+  value: number;
+  n1?: number; // group sizes: needed for Hedges' g, default to equal groups otherwise
+  n2?: number;
+  groups?: number; // number of groups behind f, f² or η²
+  baselineProportion?: number; // control proportion for risk ratios and Cohen's h
+}
+
+export type EffectSizeSource =
+  | { source: 'means'; mean1: number; sd1: number; n1: number; mean2: number; sd2: number; n2: number }
+  | { source: 'tStatistic'; t: number; n1: number; n2?: number } // omit n2 for paired or one-sample t
+  | { source: 'fStatistic'; f: number; df1: number; df2: number }
+  | { source: 'twoByTwo'; treatmentEvents: number; treatmentTotal: number; controlEvents: number; controlTotal: number };
+
+export interface EffectSizeResult {
+  effectSizes: EffectSizeSet;
+  pooledSd?: number;
+  confidenceInterval?: { metric: EffectSizeMetric; lower: number; upper: number; level: number };
+  notes: string[];
+}
+
+const CONFIDENCE_LEVEL = 0.95;
+const LOGISTIC_SCALE = Math.PI / Math.sqrt(3);
+
+export function convertEffectSize(params: EffectSizeConversionParams): EffectSizeResult {
+  const { metric, value, n1, n2, groups = 2, baselineProportion } = params;
+  if (!Number.isFinite(value)) throw new ValidationError("Effect size value must be a finite number");
+  if (baselineProportion !== undefined && (baselineProportion <= 0 || baselineProportion >= 1)) {
+    throw new ValidationError("Baseline proportion must lie between 0 and 1");
+  }
+
+  // With more than two groups only the variance-explained metrics are comparable
+  if (groups > 2) {
+    if (!['f', 'f2', 'eta2'].includes(metric)) {
+      throw new ValidationError("Only f, f² and η² can be converted for more than two groups");
+    }
+    return {
+      effectSizes: fromEtaSquared(toEtaSquared(metric, value)),
+      notes: [`${groups} groups: d, r and ratio measures are not defined`]
+    };
+  }
+
+  const d = toCohensD(metric, value, n1, n2, baselineProportion);
+  const notes = [
+    n1 && n2 ? `Group sizes n₁ = ${n1}, n₂ = ${n2}` : "Equal group sizes assumed for d, r and f",
+    "Odds ratios converted with ln OR = d·π/√3 (Chinn, 2000)"
+  ];
+  if (['f', 'f2', 'eta2', 'r'].includes(metric) && value >= 0) {
+    notes.push("f, f², η² and r carry no direction; d is reported as positive");
+  }
+  if (!n1 || !n2) notes.push("Hedges' g requires group sizes");
+  if (baselineProportion === undefined) notes.push("Risk ratio and Cohen's h require a baseline proportion");
+
+  return { effectSizes: fromCohensD(d, n1, n2, baselineProportion), notes };
+}
+
+export function estimateEffectSize(input: EffectSizeSource): EffectSizeResult {
+  const z = inverseNormalCDF(1 - (1 - CONFIDENCE_LEVEL) / 2);
+
+  switch (input.source) {
+    case 'means': {
+      const { mean1, sd1, n1, mean2, sd2, n2 } = input;
+      requireGroupSize(n1, 2);
+      requireGroupSize(n2, 2);
+      if (sd1 <= 0 || sd2 <= 0) throw new ValidationError("Standard deviations must be positive");
+      const pooledSd = pooledStandardDeviationFromSummaries([{ sd: sd1, n: n1 }, { sd: sd2, n: n2 }]);
+      const d = (mean1 - mean2) / pooledSd;
+      const se = Math.sqrt((n1 + n2) / (n1 * n2) + d * d / (2 * (n1 + n2)));
+      return {
+        effectSizes: fromCohensD(d, n1, n2),
+        pooledSd: round(pooledSd),
+        confidenceInterval: { metric: 'd', lower: round(d - z * se), upper: round(d + z * se), level: CONFIDENCE_LEVEL },
+        notes: ["d = (mean₁ - mean₂) / pooled SD, group 1 is the treatment group"]
+      };
+    }
+
+    case 'tStatistic': {
+      const { t, n1, n2 } = input;
+      if (n2 === undefined) {
+        // Paired or one-sample t: standardized mean difference d_z
+        requireGroupSize(n1, 2);
+        const dz = t / Math.sqrt(n1);
+        const se = Math.sqrt(1 / n1 + dz * dz / (2 * n1));
+        return {
+          effectSizes: { d: round(dz) },
+          confidenceInterval: { metric: 'd', lower: round(dz - z * se), upper: round(dz + z * se), level: CONFIDENCE_LEVEL },
+          notes: ["Paired or one-sample t: d_z = t / √n, standardized by the SD of differences"]
+        };
+      }
+      requireGroupSize(n1, 2);
+      requireGroupSize(n2, 2);
+      const d = t * Math.sqrt(1 / n1 + 1 / n2);
+      const se = Math.sqrt((n1 + n2) / (n1 * n2) + d * d / (2 * (n1 + n2)));
+      return {
+        effectSizes: fromCohensD(d, n1, n2),
+        confidenceInterval: { metric: 'd', lower: round(d - z * se), upper: round(d + z * se), level: CONFIDENCE_LEVEL },
+        notes: ["Independent-samples t: d = t·√(1/n₁ + 1/n₂)"]
+      };
+    }
+
+    case 'fStatistic': {
+      const { f, df1, df2 } = input;
+      if (f < 0 || df1 < 1 || df2 < 1) throw new ValidationError("F must be non-negative with positive degrees of freedom");
+      const eta2 = f * df1 / (f * df1 + df2);
+      if (df1 === 1) {
+        // Two groups: η² = r², with N = df2 + 2 split equally
+        const half = (df2 + 2) / 2;
+        const d = Math.sqrt(f) * Math.sqrt(2 / half);
+        return {
+          effectSizes: { ...fromCohensD(d, half, half), ...fromEtaSquared(eta2) },
+          notes: ["Partial η² = F·df₁ / (F·df₁ + df₂)", "df₁ = 1 treated as two equal groups; d is reported as positive"]
+        };
+      }
+      return {
+        effectSizes: fromEtaSquared(eta2),
+        notes: ["Partial η² = F·df₁ / (F·df₁ + df₂)", `${df1 + 1} groups: d, r and ratio measures are not defined`]
+      };
+    }
+
+    case 'twoByTwo': {
+      const { treatmentEvents, treatmentTotal, controlEvents, controlTotal } = input;
+      requireGroupSize(treatmentTotal, 1);
+      requireGroupSize(controlTotal, 1);
+      if (treatmentEvents < 0 || treatmentEvents > treatmentTotal || controlEvents < 0 || controlEvents > controlTotal) {
+        throw new ValidationError("Event counts must lie between 0 and the group totals");
+      }
+      const cells = [treatmentEvents, treatmentTotal - treatmentEvents, controlEvents, controlTotal - controlEvents];
+      // Haldane-Anscombe correction when any cell is empty
+      const corrected = cells.some((cell) => cell === 0) ? cells.map((cell) => cell + 0.5) : cells;
+      const [a, b, c, e] = corrected;
+      const oddsRatio = (a * e) / (b * c);
+      const logSe = Math.sqrt(1 / a + 1 / b + 1 / c + 1 / e);
+      const p1 = controlEvents / controlTotal;
+      const p2 = treatmentEvents / treatmentTotal;
+
+      return {
+        effectSizes: {
+          ...fromCohensD(Math.log(oddsRatio) / LOGISTIC_SCALE, treatmentTotal, controlTotal),
+          oddsRatio: round(oddsRatio),
+          riskRatio: p1 > 0 ? round(p2 / p1) : undefined,
+          h: round(2 * Math.asin(Math.sqrt(p2)) - 2 * Math.asin(Math.sqrt(p1))),
+          riskDifference: round(p2 - p1),
+          baselineProportion: round(p1),
+          treatmentProportion: round(p2)
+        },
+        confidenceInterval: {
+          metric: 'oddsRatio',
+          lower: round(Math.exp(Math.log(oddsRatio) - z * logSe)),
+          upper: round(Math.exp(Math.log(oddsRatio) + z * logSe)),
+          level: CONFIDENCE_LEVEL
+        },
+        notes: [
+          "Odds ratio, risk ratio and risk difference compare treatment to control",
+          ...(corrected !== cells ? ["0.5 added to every cell because of an empty cell"] : []),
+          "d converted from the odds ratio with d = ln OR·√3/π"
+        ]
+      };
+    }
+
+    default:
+      throw new ValidationError("Unsupported effect size source");
+  }
+}
+
+function toCohensD(metric: EffectSizeMetric, value: number, n1?: number, n2?: number, p1?: number): number {
+  const a = groupSizeFactor(n1, n2);
+  switch (metric) {
+    case 'd':
+      return value;
+    case 'g':
+      if (!n1 || !n2) throw new ValidationError("Converting Hedges' g requires both group sizes");
+      return value / hedgesCorrection(n1, n2);
+    case 'r':
+      if (Math.abs(value) >= 1) throw new ValidationError("r must lie strictly between -1 and 1");
+      return value * Math.sqrt(a) / Math.sqrt(1 - value * value);
+    case 'eta2':
+    case 'f':
+    case 'f2':
+      return Math.sqrt(toEtaSquared(metric, value) / (1 - toEtaSquared(metric, value))) * Math.sqrt(a);
+    case 'oddsRatio':
+      if (value <= 0) throw new ValidationError("Odds ratio must be positive");
+      return Math.log(value) / LOGISTIC_SCALE;
+    case 'riskRatio':
+    case 'h': {
+      if (p1 === undefined) throw new ValidationError("A baseline proportion is required to convert risk ratios and Cohen's h");
+      const p2 = metric === 'riskRatio'
+        ? p1 * value
+        : Math.pow(Math.sin(Math.asin(Math.sqrt(p1)) + value / 2), 2);
+      if (p2 <= 0 || p2 >= 1) throw new ValidationError("Implied treatment proportion must lie between 0 and 1");
+      return Math.log((p2 / (1 - p2)) / (p1 / (1 - p1))) / LOGISTIC_SCALE;
+    }
+    default:
+      throw new ValidationError(`Unsupported effect size metric: ${metric}`);
+  }
+}
+
+function fromCohensD(d: number, n1?: number, n2?: number, p1?: number): EffectSizeSet {
+  const a = groupSizeFactor(n1, n2);
+  const r = d / Math.sqrt(d * d + a);
+  const f = Math.abs(d) / Math.sqrt(a);
+  const oddsRatio = Math.exp(d * LOGISTIC_SCALE);
+  const effects: EffectSizeSet = {
+    d: round(d),
+    g: n1 && n2 ? round(d * hedgesCorrection(n1, n2)) : undefined,
+    f: round(f),
+    f2: round(f * f),
+    r: round(r),
+    eta2: round(r * r),
+    oddsRatio: round(oddsRatio)
+  };
+
+  if (p1 !== undefined) {
+    const p2 = oddsRatio * p1 / (1 - p1 + oddsRatio * p1);
+    effects.riskRatio = round(p2 / p1);
+    effects.h = round(2 * Math.asin(Math.sqrt(p2)) - 2 * Math.asin(Math.sqrt(p1)));
+    effects.riskDifference = round(p2 - p1);
+    effects.baselineProportion = p1;
+    effects.treatmentProportion = round(p2);
+  }
+  return effects;
+}
+
+function toEtaSquared(metric: EffectSizeMetric, value: number): number {
+  if (value < 0) throw new ValidationError(`${metric} must be non-negative`);
+  switch (metric) {
+    case 'eta2':
+      if (value >= 1) throw new ValidationError("η² must be below 1");
+      return value;
+    case 'f':
+      return value * value / (1 + value * value);
+    default:
+      return value / (1 + value);
+  }
+}
+
+function fromEtaSquared(eta2: number): EffectSizeSet {
+  const f2 = eta2 / (1 - eta2);
+  return { f: round(Math.sqrt(f2)), f2: round(f2), eta2: round(eta2) };
+}
+
+function groupSizeFactor(n1?: number, n2?: number): number {
+  return n1 && n2 ? Math.pow(n1 + n2, 2) / (n1 * n2) : 4;
+}
+
+function hedgesCorrection(n1: number, n2: number): number {
+  // Small-sample bias correction J = 1 - 3 / (4(n₁ + n₂) - 9)
+  return 1 - 3 / (4 * (n1 + n2) - 9);
+}
+
+function requireGroupSize(n: number, minimum: number): void {
+  if (!Number.isInteger(n) || n < minimum) throw new ValidationError(`Group sizes must be integers of at least ${minimum}`);
+}
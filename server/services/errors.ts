@@ -0,0 +1,7 @@
+// Thrown when request parameters or uploaded data cannot be used; routes report these as 400s
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
@@ -9,6 +9,7 @@ export interface ProtocolData {
   title: string;
   methods: any[];
   sampleSize?: any;
+  analysisResults?: any[];
   content: any;
 }
 
@@ -33,6 +34,7 @@ function exportToJSON(data: ProtocolData, options: ExportOptions): string {
     generatedAt: new Date().toISOString(),
     methods: data.methods,
     sampleSize: data.sampleSize,
+    analysisResults: data.analysisResults ?? [],
     options: options,
     content: data.content
   };
@@ -80,9 +82,36 @@ function exportToText(data: ProtocolData, options: ExportOptions): string {
     text += `Required sample size: ${data.sampleSize.sampleSize || 'Not calculated'}\n`;
     text += `Total participants: ${data.sampleSize.totalSampleSize || 'Not calculated'}\n`;
     text += `Adjusted for dropout: ${data.sampleSize.adjustedSampleSize || 'Not calculated'}\n`;
-    text += `Statistical power: ${data.sampleSize.power || 'Not specified'}\n`;
-    text += `Alpha level: ${data.sampleSize.alpha || 'Not specified'}\n`;
-    text += `Effect size: ${data.sampleSize.effectSize || 'Not specified'}\n`;
+    text += describeAttrition(data.sampleSize.attrition);
+    if (data.sampleSize.solveFor === 'precision') {
+      // Descriptive estimates are sized by interval width rather than power
+      text += `Precision target: ±${data.sampleSize.halfWidth} half-width of a ${Math.round((1 - data.sampleSize.alpha) * 10000) / 100}% confidence interval\n`;
+    } else if (data.sampleSize.solveFor === 'bayesian') {
+      text += describeBayesian(data.sampleSize.designParameters ?? {});
+    } else {
+      text += `Statistical power: ${data.sampleSize.power || 'Not specified'}\n`;
+      text += `Alpha level: ${data.sampleSize.alpha || 'Not specified'}\n`;
+      text += `Effect size: ${data.sampleSize.effectSize ?? 'Not specified'}\n`;
+      text += describeHypothesis(data.sampleSize);
+      text += describeGroupSequential(data.sampleSize.groupSequential);
+      text += describeMultiplicity(data.sampleSize.multiplicity);
+    }
+    if (data.sampleSize.formula) text += `Formula: ${data.sampleSize.formula}\n`;
+    if (data.sampleSize.assumptions?.length) {
+      text += `Assumptions: ${data.sampleSize.assumptions.map((assumption: any) => assumption.text).join('; ')}\n`;
+    }
+  }
+
+  // Results of the planned analysis on the collected data
+  if (data.analysisResults && data.analysisResults.length > 0) {
+    text += `\nANALYSIS RESULTS\n`;
+    text += `${'-'.repeat(16)}\n`;
+    data.analysisResults.forEach((result) => {
+      text += `${result.summary}\n`;
+      if (result.achievedPower !== null && result.achievedPower !== undefined) {
+        text += `Achieved power for the planned effect size: ${result.achievedPower}\n`;
+      }
+    });
   }
 
   // Add equipment list if requested
@@ -108,6 +137,108 @@ function exportToText(data: ProtocolData, options: ExportOptions): string {
   return text;
 }
 
+const HYPOTHESIS_DESCRIPTIONS: Record<string, string> = {
+  nonInferiority: 'Non-inferiority: the trial must show that treatment is worse than control by less than the margin',
+  superiorityByMargin: 'Superiority by margin: the trial must show that treatment beats control by more than the margin',
+  equivalence: 'Equivalence (two one-sided tests): the trial must show that the difference lies within ± the margin'
+};
+
+function describeHypothesis(sampleSize: any): string {
+  const description = HYPOTHESIS_DESCRIPTIONS[sampleSize.hypothesisType];
+  if (!description) return `Hypothesis: Superiority (two-sided)\n`;
+
+  let text = `Hypothesis: ${description}\n`;
+  text += `Margin: ${sampleSize.margin}\n`;
+  text += `Margin rationale: ${sampleSize.marginRationale || 'Not specified; the margin should reflect the largest clinically acceptable loss of effect'}\n`;
+  return text;
+}
+
+function describeAttrition(attrition: any): string {
+  if (!attrition) return '';
+  const percent = (rate: number) => `${Math.round(rate * 10000) / 100}%`;
+
+  let text = `Attrition: ${percent(attrition.dropoutRate)} expected dropout; enrolment inflated as n / (1 - dropout)\n`;
+  if (attrition.attritionSchedule) {
+    text += `Per-wave attrition: ${attrition.attritionSchedule.map(percent).join(', ')}\n`;
+  }
+  if (attrition.armDropoutRates) {
+    text += `Dropout by arm: ${attrition.armDropoutRates.map(percent).join(', ')}\n`;
+  }
+  return text;
+}
+
+const BAYESIAN_CRITERION_LABELS: Record<string, string> = {
+  assurance: 'Assurance (expected power over the prior)',
+  posteriorProbability: 'Probability of a successful posterior',
+  credibleInterval: 'Credible interval width'
+};
+
+function describeBayesian(parameters: any): string {
+  let text = `Bayesian criterion: ${BAYESIAN_CRITERION_LABELS[parameters.criterion] ?? parameters.criterion}\n`;
+  if (parameters.priorMean !== undefined) {
+    text += `Design prior: Normal(mean ${parameters.priorMean}, SD ${parameters.priorSd})\n`;
+  }
+  if (parameters.criterion !== 'assurance') {
+    text += `Analysis prior: Normal(mean ${parameters.analysisPriorMean}, SD ${parameters.analysisPriorSd})\n`;
+  }
+  if (parameters.targetProbability !== undefined) text += `Target probability: ${parameters.targetProbability}\n`;
+  if (parameters.posteriorThreshold !== undefined) text += `Success rule: P(effect > 0 | data) >= ${parameters.posteriorThreshold}\n`;
+  if (parameters.intervalWidth !== undefined) {
+    text += `Credible interval: width ${parameters.intervalWidth} at ${Math.round(parameters.credibleLevel * 10000) / 100}%\n`;
+  }
+  return text;
+}
+
+const SPENDING_FUNCTION_LABELS: Record<string, string> = {
+  obrienFleming: "O'Brien-Fleming",
+  pocock: 'Pocock',
+  lanDeMetsObrienFleming: "Lan-DeMets O'Brien-Fleming-type spending",
+  lanDeMetsPocock: 'Lan-DeMets Pocock-type spending'
+};
+
+function describeGroupSequential(groupSequential: any): string {
+  if (!groupSequential) return '';
+  const columns = ['Look', 'Info', 'N/group', 'Efficacy Z', 'Nominal p', 'Futility Z', 'Cum. alpha'];
+  const rows = groupSequential.looks.map((look: any) => [
+    look.look,
+    look.informationFraction,
+    look.sampleSize ?? '-',
+    look.efficacyBoundary,
+    look.nominalAlpha,
+    look.futilityBoundary ?? '-',
+    look.cumulativeAlphaSpent
+  ].map(String));
+  const widths = columns.map((column, i) => Math.max(column.length, ...rows.map((row: string[]) => row[i].length)));
+  const formatRow = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd() + '\n';
+
+  let text = `Interim analyses: ${groupSequential.looks.length} looks, ${SPENDING_FUNCTION_LABELS[groupSequential.spendingFunction] ?? groupSequential.spendingFunction} boundaries`;
+  text += groupSequential.futility ? ' with non-binding futility stopping\n' : ', efficacy stopping only\n';
+  text += formatRow(columns);
+  text += formatRow(widths.map((width) => '-'.repeat(width)));
+  rows.forEach((row: string[]) => { text += formatRow(row); });
+  text += `Maximum sample size inflation: ${groupSequential.maxInflation}\n`;
+  text += `Expected sample size inflation: ${groupSequential.expectedInflationH0} under H0, ${groupSequential.expectedInflationH1} under H1\n`;
+  return text;
+}
+
+const MULTIPLICITY_LABELS: Record<string, string> = {
+  bonferroni: 'Bonferroni',
+  holm: 'Holm step-down',
+  hochberg: 'Hochberg step-up',
+  dunnett: 'Dunnett many-to-one'
+};
+
+function describeMultiplicity(multiplicity: any): string {
+  if (!multiplicity) return '';
+  let text = `Multiplicity: ${MULTIPLICITY_LABELS[multiplicity.method] ?? multiplicity.method} adjustment of family-wise alpha ${multiplicity.familyAlpha}\n`;
+  multiplicity.endpoints.forEach((endpoint: any) => {
+    const driving = endpoint.name === multiplicity.drivingEndpoint ? ' (drives the sample size)' : '';
+    text += `- ${endpoint.name}: ${endpoint.testType}, adjusted alpha ${endpoint.alpha}, n = ${endpoint.sampleSize} per group, ${endpoint.adjustedSampleSize} enrolled${driving}\n`;
+  });
+  if (multiplicity.planningNote) text += `${multiplicity.planningNote}\n`;
+  return text;
+}
+
 function exportToPDF(data: ProtocolData, options: ExportOptions): Buffer {
   // In a real implementation, you'd use a library like puppeteer or jsPDF
   // For now, we'll return a simple text-based "PDF" as a buffer
@@ -200,6 +200,15 @@ Structure the protocol with:
 7. References (if requested)
 8. Cost Estimates (if requested)
 
+When the sample size uses a non-inferiority, superiority-by-margin or equivalence hypothesis,
+the Sample Size Justification must state the hypothesis type, the margin and its rationale.
+When the sample size includes a group sequential design, reproduce its interim boundary table
+(information fraction, efficacy and futility boundaries, nominal p-values) for DSMB review.
+When the sample size adjusts for multiple endpoints, name the adjustment method and list each
+endpoint's adjusted alpha and sample size, stating which endpoint drives the overall size.
+When the sample size is Bayesian, state the criterion, the design and analysis priors and the
+target probability or credible interval width instead of frequentist power.
+
 Return as structured JSON for document generation.`;
 
     const response = await ai.models.generateContent({
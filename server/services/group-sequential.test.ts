@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { designGroupSequential } from './group-sequential';
+import { ValidationError } from './errors';
+
+// Three equally spaced looks, α = 0.05 two-sided, 80% power. Fixed boundaries and
+// inflation factors are from Jennison and Turnbull (2000), tables 2.1 to 2.4; the
+// Lan-DeMets boundaries match gsDesign's sfLDOF
+const boundaries = (spendingFunction: Parameters<typeof designGroupSequential>[0]['spendingFunction']) =>
+  designGroupSequential({ looks: 3, alpha: 0.05, power: 0.8, spendingFunction });
+
+const assertClose = (actual: number[], expected: number[], tolerance = 0.001) =>
+  actual.forEach((value, i) => assert.ok(Math.abs(value - expected[i]) <= tolerance, `expected ${expected[i]}, got ${value}`));
+
+describe('group sequential boundaries', () => {
+  it("gives O'Brien-Fleming boundaries 3.471, 2.454 and 2.004", () => {
+    const design = boundaries('obrienFleming');
+    assertClose(design.looks.map((look) => look.efficacyBoundary), [3.471, 2.454, 2.004]);
+    assertClose([design.maxInflation], [1.017]);
+  });
+
+  it('gives a constant Pocock boundary of 2.289', () => {
+    const design = boundaries('pocock');
+    assertClose(design.looks.map((look) => look.efficacyBoundary), [2.289, 2.289, 2.289]);
+    assertClose([design.maxInflation], [1.166]);
+  });
+
+  it("gives Lan-DeMets O'Brien-Fleming-type boundaries 3.710, 2.511 and 1.993", () => {
+    const design = boundaries('lanDeMetsObrienFleming');
+    assertClose(design.looks.map((look) => look.efficacyBoundary), [3.710, 2.511, 1.993]);
+    assert.equal(design.looks[2].cumulativeAlphaSpent, 0.025);
+  });
+
+  it('rejects an unknown spending function', () => {
+    assert.throws(() => designGroupSequential({ looks: 3, alpha: 0.05, power: 0.8, spendingFunction: 'haybittle' as never }), ValidationError);
+  });
+});
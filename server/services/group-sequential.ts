@@ -0,0 +1,280 @@
+import { inverseNormalCDF, normalCDF } from './distributions';
+import { round } from './descriptive';
+import { ValidationError } from './errors';
+
+// Group sequential boundaries by the recursive numerical integration of
+// Armitage, McPherson and Rowe (1969), following Jennison and Turnbull (2000,
+// ch. 19). The B-value Z_k√t_k has independent N(δΔt, Δt) increments, where δ is
+// the drift: the expected final z-statistic. Efficacy boundaries are one-sided
+// at α/2 and computed under H₀ ignoring futility (non-binding); futility
+// boundaries spend β under the alternative and meet the efficacy boundary at the
+// final look.
+
+export type SpendingFunction = 'obrienFleming' | 'pocock' | 'lanDeMetsObrienFleming' | 'lanDeMetsPocock';
+
+export interface GroupSequentialParams {
+  looks: number; // analyses including the final one
+  informationFractions?: number[]; // increasing, ending at 1; equally spaced by default
+  spendingFunction?: SpendingFunction;
+  futility?: boolean;
+  alpha: number; // two-sided; efficacy boundaries use α/2
+  power: number;
+}
+
+export interface GroupSequentialLook {
+  look: number;
+  informationFraction: number;
+  efficacyBoundary: number; // z-scale
+  nominalAlpha: number; // one-sided nominal p-value at the efficacy boundary
+  futilityBoundary?: number;
+  cumulativeAlphaSpent: number;
+  stopProbabilityH0: number;
+  stopProbabilityH1: number;
+  sampleSize?: number; // cumulative per-group sample size, filled in by the caller
+}
+
+export interface GroupSequentialDesign {
+  spendingFunction: SpendingFunction;
+  futility: boolean;
+  looks: GroupSequentialLook[];
+  drift: number;
+  maxInflation: number; // maximum sample size relative to the fixed design
+  expectedInflationH0: number;
+  expectedInflationH1: number;
+  // Per-group expected sample sizes, filled in by the caller
+  expectedSampleSizeH0?: number;
+  expectedSampleSizeH1?: number;
+}
+
+interface Grid {
+  z: number[];
+  weightedDensity: number[]; // density × Simpson weight
+}
+
+const GRID_STEP = 0.02;
+const TAIL = 8; // standard deviations covered below an open continuation region
+const SPENDING_LABELS: Record<SpendingFunction, string> = {
+  obrienFleming: "O'Brien-Fleming",
+  pocock: 'Pocock',
+  lanDeMetsObrienFleming: "Lan-DeMets O'Brien-Fleming-type",
+  lanDeMetsPocock: 'Lan-DeMets Pocock-type'
+};
+
+export function designGroupSequential(params: GroupSequentialParams): GroupSequentialDesign {
+  const { looks, alpha, power, futility = false, spendingFunction = 'lanDeMetsObrienFleming' } = params;
+  if (!(spendingFunction in SPENDING_LABELS)) {
+    throw new ValidationError("Spending function must be obrienFleming, pocock, lanDeMetsObrienFleming or lanDeMetsPocock");
+  }
+  const fractions = resolveInformationFractions(looks, params.informationFractions);
+  const oneSidedAlpha = alpha / 2;
+  const beta = 1 - power;
+
+  const efficacy = efficacyBoundaries(fractions, oneSidedAlpha, spendingFunction);
+  let drift: number;
+  let futilityBounds: number[] | undefined;
+  if (futility) {
+    // The drift is raised until β spending ends exactly on the final efficacy boundary
+    drift = bisect((d) => futilityBoundaries(fractions, efficacy, d, beta, spendingFunction).final - efficacy[looks - 1], 0, 15);
+    futilityBounds = futilityBoundaries(fractions, efficacy, drift, beta, spendingFunction).bounds;
+  } else {
+    drift = bisect((d) => boundaryCrossing(fractions, efficacy, undefined, d).rejection - power, 0, 15);
+  }
+
+  const underH0 = boundaryCrossing(fractions, efficacy, futilityBounds, 0);
+  // Non-binding: α is spent as if futility boundaries were never followed
+  const alphaSpending = boundaryCrossing(fractions, efficacy, undefined, 0);
+  const underH1 = boundaryCrossing(fractions, efficacy, futilityBounds, drift);
+  const fixedDrift = inverseNormalCDF(1 - oneSidedAlpha) + inverseNormalCDF(power);
+  const maxInflation = Math.pow(drift / fixedDrift, 2);
+  const expectedFraction = (stops: number[]) => stops.reduce((sum, p, k) => sum + p * fractions[k], 0);
+
+  let spent = 0;
+  return {
+    spendingFunction,
+    futility,
+    looks: fractions.map((t, k) => {
+      spent += alphaSpending.upperExits[k];
+      return {
+        look: k + 1,
+        informationFraction: round(t, 4),
+        efficacyBoundary: round(efficacy[k], 4),
+        nominalAlpha: round(1 - normalCDF(efficacy[k]), 6),
+        futilityBoundary: futilityBounds ? round(futilityBounds[k], 4) : undefined,
+        cumulativeAlphaSpent: round(spent, 6),
+        stopProbabilityH0: round(underH0.stops[k], 4),
+        stopProbabilityH1: round(underH1.stops[k], 4)
+      };
+    }),
+    drift: round(drift, 4),
+    maxInflation: round(maxInflation, 4),
+    expectedInflationH0: round(maxInflation * expectedFraction(underH0.stops), 4),
+    expectedInflationH1: round(maxInflation * expectedFraction(underH1.stops), 4)
+  };
+}
+
+export function groupSequentialPower(design: GroupSequentialDesign, drift: number): number {
+  // Rejection probability of a planned design at another drift
+  const fractions = design.looks.map((look) => look.informationFraction);
+  const efficacy = design.looks.map((look) => look.efficacyBoundary);
+  const futility = design.futility ? design.looks.map((look) => look.futilityBoundary as number) : undefined;
+  return boundaryCrossing(fractions, efficacy, futility, drift).rejection;
+}
+
+export function describeGroupSequential(design: GroupSequentialDesign): string[] {
+  return [
+    `Group sequential design with ${design.looks.length} analyses at information fractions ${design.looks.map((look) => look.informationFraction).join(', ')}`,
+    `${SPENDING_LABELS[design.spendingFunction]} efficacy boundaries, one-sided at α/2`,
+    design.futility
+      ? `Non-binding futility boundaries from Lan-DeMets ${isPocockFamily(design.spendingFunction) ? 'Pocock' : "O'Brien-Fleming"}-type β spending`
+      : "No futility stopping",
+    `Maximum sample size inflation ${design.maxInflation}; expected ${design.expectedInflationH0} under H₀ and ${design.expectedInflationH1} under H₁`
+  ];
+}
+
+function resolveInformationFractions(looks: number, fractions?: number[]): number[] {
+  if (!Number.isInteger(looks) || looks < 2 || looks > 10) {
+    throw new ValidationError("Group sequential designs need between 2 and 10 analyses");
+  }
+  if (!fractions) return Array.from({ length: looks }, (_, k) => (k + 1) / looks);
+
+  if (fractions.length !== looks) throw new ValidationError("Provide one information fraction per analysis");
+  if (fractions.some((t, k) => t <= (k === 0 ? 0 : fractions[k - 1]) || t > 1) || fractions[looks - 1] !== 1) {
+    throw new ValidationError("Information fractions must increase strictly and end at 1");
+  }
+  return fractions;
+}
+
+function isPocockFamily(spendingFunction: SpendingFunction): boolean {
+  return spendingFunction === 'pocock' || spendingFunction === 'lanDeMetsPocock';
+}
+
+function spent(spendingFunction: SpendingFunction, level: number, t: number): number {
+  if (t <= 0) return 0;
+  if (isPocockFamily(spendingFunction)) {
+    return level * Math.log(1 + (Math.E - 1) * t);
+  }
+  return 2 - 2 * normalCDF(inverseNormalCDF(1 - level / 2) / Math.sqrt(t));
+}
+
+function efficacyBoundaries(fractions: number[], level: number, spendingFunction: SpendingFunction): number[] {
+  if (spendingFunction === 'obrienFleming' || spendingFunction === 'pocock') {
+    // Classical boundaries share one constant chosen to give overall level α
+    const shape = (t: number) => spendingFunction === 'pocock' ? 1 : 1 / Math.sqrt(t);
+    const boundsFor = (c: number) => fractions.map((t) => c * shape(t));
+    const c = bisect((c) => level - boundaryCrossing(fractions, boundsFor(c), undefined, 0).rejection, 0, 15);
+    return boundsFor(c);
+  }
+
+  const bounds: number[] = [];
+  let grid: Grid | null = null;
+  fractions.forEach((t, k) => {
+    const previous = k === 0 ? 0 : fractions[k - 1];
+    const increment = spent(spendingFunction, level, t) - spent(spendingFunction, level, previous);
+    bounds.push(bisect((b) => increment - upperExit(grid, previous, t, 0, b), -5, 15));
+    grid = propagate(grid, previous, t, 0, -Infinity, bounds[k]);
+  });
+  return bounds;
+}
+
+function futilityBoundaries(
+  fractions: number[],
+  efficacy: number[],
+  drift: number,
+  beta: number,
+  spendingFunction: SpendingFunction
+): { bounds: number[]; final: number } {
+  const bounds: number[] = [];
+  let grid: Grid | null = null;
+  let final = 0;
+  for (let k = 0; k < fractions.length; k++) {
+    const t = fractions[k];
+    const previous = k === 0 ? 0 : fractions[k - 1];
+    const increment = spent(spendingFunction, beta, t) - spent(spendingFunction, beta, previous);
+    const bound = bisect((a) => lowerExit(grid, previous, t, drift, a) - increment, -15, 15);
+    final = bound;
+    // Futility cannot sit above efficacy; the final look closes the gap
+    bounds.push(k === fractions.length - 1 ? efficacy[k] : Math.min(bound, efficacy[k]));
+    if (k < fractions.length - 1) grid = propagate(grid, previous, t, drift, bounds[k], efficacy[k]);
+  }
+  return { bounds, final };
+}
+
+function boundaryCrossing(fractions: number[], efficacy: number[], futility: number[] | undefined, drift: number) {
+  const upperExits: number[] = [];
+  const stops: number[] = [];
+  let grid: Grid | null = null;
+  let continuing = 1;
+  fractions.forEach((t, k) => {
+    const previous = k === 0 ? 0 : fractions[k - 1];
+    const last = k === fractions.length - 1;
+    const upper = upperExit(grid, previous, t, drift, efficacy[k]);
+    const lower = futility && !last ? lowerExit(grid, previous, t, drift, futility[k]) : 0;
+    upperExits.push(upper);
+    // Every trial still running stops at the final analysis
+    stops.push(last ? continuing : upper + lower);
+    continuing -= upper + lower;
+    if (!last) grid = propagate(grid, previous, t, drift, futility ? futility[k] : -Infinity, efficacy[k]);
+  });
+  return { upperExits, stops, rejection: upperExits.reduce((sum, p) => sum + p, 0) };
+}
+
+function transitionMean(u: number, previous: number, t: number, drift: number): number {
+  // Expected B-value at t given Z = u at the previous look
+  return u * Math.sqrt(previous) + drift * (t - previous);
+}
+
+function upperExit(grid: Grid | null, previous: number, t: number, drift: number, bound: number): number {
+  if (!grid) return 1 - normalCDF(bound - drift * Math.sqrt(t));
+  const sd = Math.sqrt(t - previous);
+  return grid.z.reduce((sum, u, i) =>
+    sum + grid.weightedDensity[i] * (1 - normalCDF((bound * Math.sqrt(t) - transitionMean(u, previous, t, drift)) / sd)), 0);
+}
+
+function lowerExit(grid: Grid | null, previous: number, t: number, drift: number, bound: number): number {
+  if (!grid) return normalCDF(bound - drift * Math.sqrt(t));
+  const sd = Math.sqrt(t - previous);
+  return grid.z.reduce((sum, u, i) =>
+    sum + grid.weightedDensity[i] * normalCDF((bound * Math.sqrt(t) - transitionMean(u, previous, t, drift)) / sd), 0);
+}
+
+function propagate(grid: Grid | null, previous: number, t: number, drift: number, lower: number, upper: number): Grid {
+  // Sub-density of Z at t over the continuation region (lower, upper)
+  const mean = drift * Math.sqrt(t);
+  const lo = Math.max(lower, mean - TAIL);
+  const hi = Math.min(upper, mean + TAIL);
+  if (hi <= lo) return { z: [], weightedDensity: [] };
+
+  const intervals = 2 * Math.max(25, Math.ceil((hi - lo) / GRID_STEP / 2));
+  const h = (hi - lo) / intervals;
+  const sd = Math.sqrt(t - previous);
+  const z: number[] = [];
+  const weightedDensity: number[] = [];
+  for (let i = 0; i <= intervals; i++) {
+    const point = lo + i * h;
+    const simpson = (i === 0 || i === intervals ? 1 : i % 2 === 1 ? 4 : 2) * h / 3;
+    const density = grid
+      ? grid.z.reduce((sum, u, j) =>
+        sum + grid.weightedDensity[j] * standardNormalDensity((point * Math.sqrt(t) - transitionMean(u, previous, t, drift)) / sd), 0)
+        * Math.sqrt(t) / sd
+      : standardNormalDensity(point - mean);
+    z.push(point);
+    weightedDensity.push(density * simpson);
+  }
+  return { z, weightedDensity };
+}
+
+function standardNormalDensity(x: number): number {
+  return Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+}
+
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  // Root of an increasing function on [low, high], clamped to the bracket
+  if (f(low) >= 0) return low;
+  if (f(high) <= 0) return high;
+  for (let i = 0; i < 60 && high - low > 1e-7; i++) {
+    const mid = (low + high) / 2;
+    if (f(mid) < 0) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzePilotData } from './pilot-data';
+import { ValidationError } from './errors';
+
+const sleep = ['group,extra', ...[0.7, -1.6, -0.2, -1.2, -0.1, 3.4, 3.7, 0.8, 0.0, 2.0].map((value) => `1,${value}`),
+  ...[1.9, 0.8, 1.1, 0.1, -0.1, 4.4, 5.5, 1.6, 4.6, 3.4].map((value) => `2,${value}`)].join('\n');
+
+describe('analyzePilotData', () => {
+  it("prefills a t-test with Cohen's d from the pooled SD", () => {
+    const result = analyzePilotData(sleep, { outcome: 'extra', group: 'group', seed: 1, bootstrapSamples: 500 });
+    assert.equal(result.pooledSd, 1.8986);
+    assert.equal(result.effect?.value, 0.8322);
+    assert.deepEqual(result.prefill, { testType: 'two-sample t-test', effectSize: 0.8322, sdSource: 'observed' });
+  });
+
+  it('leaves the effect out when the outcome does not vary within groups', () => {
+    const result = analyzePilotData('group,y\na,5\na,5\nb,7\nb,7', { outcome: 'y', group: 'group', seed: 1, bootstrapSamples: 100 });
+    assert.equal(result.effect, undefined);
+    assert.equal(result.prefill, undefined);
+  });
+
+  it('rejects a non-numeric outcome', () => {
+    assert.throws(() => analyzePilotData('group,y\na,high\nb,low', { outcome: 'y', group: 'group' }), ValidationError);
+  });
+});
@@ -0,0 +1,282 @@
+import { inverseNormalCDF } from './distributions';
+import { createRandom } from './simulation';
+import { columnIndex, isMissing, parseNumber, readCsvTable } from './csv';
+import { mean, pooledStandardDeviation, round, standardDeviation } from './descriptive';
+import { ValidationError } from './errors';
+
+// Summaries of uploaded pilot or historical data used to ground planning
+// assumptions: group descriptives, the pooled SD, correlations with the
+// outcome, and the observed effect size. Intervals for the effect and the
+// pooled SD come from a seeded, group-stratified percentile bootstrap.
+
+export type PilotOutcomeType = 'continuous' | 'binary';
+export type PilotEffectMetric = 'd' | 'f' | 'riskDifference';
+
+export interface PilotDataOptions {
+  outcome: string; // outcome column
+  group?: string; // grouping column; omitted for a single sample
+  controlGroup?: string; // reference group, defaults to the first group in the file
+  covariate?: string; // prefill a correlation test against this column when there is no group
+  confidenceLevel?: number; // defaults to 0.95
+  bootstrapSamples?: number;
+  seed?: number;
+  conservativeSd?: boolean; // standardize the prefilled effect by the upper confidence limit of the SD
+}
+
+export interface PilotGroupSummary {
+  name: string;
+  n: number;
+  missing: number;
+  mean: number;
+  sd: number;
+  proportion?: number; // binary outcomes
+}
+
+export interface PilotCorrelation {
+  column: string;
+  n: number;
+  r: number;
+  confidenceInterval: [number, number]; // Fisher z
+}
+
+export interface PilotEffectEstimate {
+  metric: PilotEffectMetric;
+  value: number;
+  confidenceInterval: [number, number]; // percentile bootstrap
+  description: string;
+}
+
+// Inputs for the sample size calculator derived from the pilot data
+export interface PilotPrefill {
+  testType: string;
+  effectSize?: number;
+  groups?: number;
+  baselineProportion?: number;
+  treatmentProportion?: number;
+  sdSource?: 'observed' | 'upperConfidenceLimit';
+}
+
+export interface PilotDataResult {
+  rows: number;
+  columns: string[];
+  outcomeType: PilotOutcomeType;
+  groups: PilotGroupSummary[];
+  pooledSd?: number;
+  pooledSdInterval?: [number, number];
+  correlations: PilotCorrelation[];
+  effect?: PilotEffectEstimate;
+  confidenceLevel: number;
+  bootstrapSamples: number;
+  seed: number;
+  prefill?: PilotPrefill;
+  notes: string[];
+}
+
+const DEFAULT_BOOTSTRAP_SAMPLES = 2000;
+const MAX_BOOTSTRAP_SAMPLES = 20000;
+const MAX_RESAMPLED_VALUES = 5e7; // bounds the work of a single request
+
+export function analyzePilotData(csv: string, options: PilotDataOptions): PilotDataResult {
+  const { outcome, group, covariate, confidenceLevel = 0.95, conservativeSd = false } = options;
+  const bootstrapSamples = options.bootstrapSamples ?? DEFAULT_BOOTSTRAP_SAMPLES;
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) throw new ValidationError("Confidence level must lie between 0 and 1");
+  if (!Number.isInteger(bootstrapSamples) || bootstrapSamples < 100 || bootstrapSamples > MAX_BOOTSTRAP_SAMPLES) {
+    throw new ValidationError(`Bootstrap samples must be an integer between 100 and ${MAX_BOOTSTRAP_SAMPLES}`);
+  }
+
+  const table = readCsvTable(csv);
+  const { columns, rows } = table;
+  const outcomeIndex = columnIndex(table, outcome);
+  const groupIndex = group !== undefined ? columnIndex(table, group) : undefined;
+  const outcomeValues = rows.map((row) => parseNumber(row[outcomeIndex]));
+  if (rows.some((row, i) => outcomeValues[i] === null && !isMissing(row[outcomeIndex]))) {
+    throw new ValidationError("The outcome column must be numeric; code binary outcomes as 0/1");
+  }
+  const observed = outcomeValues.filter((value): value is number => value !== null);
+  if (observed.length < 2) throw new ValidationError("At least two non-missing outcome values are required");
+  const outcomeType: PilotOutcomeType = observed.every((value) => value === 0 || value === 1) ? 'binary' : 'continuous';
+
+  // Group samples in order of first appearance, with the reference group first
+  const samples = new Map<string, { values: number[]; missing: number }>();
+  rows.forEach((row, i) => {
+    const name = groupIndex !== undefined ? row[groupIndex]?.trim() ?? '' : 'All';
+    if (groupIndex !== undefined && isMissing(name)) return;
+    const sample = samples.get(name) ?? { values: [], missing: 0 };
+    const value = outcomeValues[i];
+    if (value === null) sample.missing++;
+    else sample.values.push(value);
+    samples.set(name, sample);
+  });
+  const names = Array.from(samples.keys());
+  if (options.controlGroup !== undefined) {
+    if (!samples.has(options.controlGroup)) throw new ValidationError(`Control group not found: ${options.controlGroup}`);
+    names.splice(names.indexOf(options.controlGroup), 1);
+    names.unshift(options.controlGroup);
+  }
+  if (names.length > 20) throw new ValidationError("The grouping column has more than 20 groups");
+  const groupValues = names.map((name) => samples.get(name)!.values);
+  if (groupValues.some((values) => values.length < 2)) throw new ValidationError("Every group needs at least two outcome values");
+
+  const groups: PilotGroupSummary[] = names.map((name, i) => {
+    const values = groupValues[i];
+    return {
+      name,
+      n: values.length,
+      missing: samples.get(name)!.missing,
+      mean: round(mean(values)),
+      sd: round(standardDeviation(values)),
+      proportion: outcomeType === 'binary' ? round(mean(values)) : undefined
+    };
+  });
+
+  const notes: string[] = [];
+  const correlations = columns
+    .map((column, index) => ({ column, index }))
+    .filter(({ index }) => index !== outcomeIndex && index !== groupIndex)
+    .map(({ column, index }) => correlate(column, rows.map((row) => parseNumber(row[index])), outcomeValues, confidenceLevel))
+    .filter((correlation): correlation is PilotCorrelation => correlation !== null);
+
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const totalValues = groupValues.reduce((sum, values) => sum + values.length, 0);
+  if (bootstrapSamples * totalValues > MAX_RESAMPLED_VALUES) {
+    throw new ValidationError("Bootstrap is too large: reduce the number of bootstrap samples");
+  }
+  const bootstrap = (statistic: (samples: number[][]) => number) =>
+    bootstrapInterval(groupValues, statistic, bootstrapSamples, confidenceLevel, createRandom(seed));
+
+  let pooledSd: number | undefined;
+  let pooledSdInterval: [number, number] | undefined;
+  if (outcomeType === 'continuous') {
+    pooledSd = pooledStandardDeviation(groupValues);
+    pooledSdInterval = bootstrap(pooledStandardDeviation);
+  }
+
+  let effect: PilotEffectEstimate | undefined;
+  let prefill: PilotPrefill | undefined;
+  const sdForPlanning = conservativeSd && pooledSdInterval ? pooledSdInterval[1] : pooledSd;
+  const sdSource = conservativeSd ? 'upperConfidenceLimit' : 'observed';
+
+  if (groupIndex !== undefined && names.length === 2 && outcomeType === 'binary') {
+    const difference = (samples: number[][]) => mean(samples[1]) - mean(samples[0]);
+    effect = {
+      metric: 'riskDifference',
+      value: round(difference(groupValues)),
+      confidenceInterval: bootstrap(difference),
+      description: `Proportion in ${names[1]} minus proportion in ${names[0]}`
+    };
+    prefill = {
+      testType: 'proportion test',
+      baselineProportion: groups[0].proportion,
+      treatmentProportion: groups[1].proportion
+    };
+  } else if (groupIndex !== undefined && names.length > 1 && outcomeType === 'continuous' && !(pooledSd! > 0 && sdForPlanning! > 0)) {
+    notes.push("The outcome does not vary within groups, so no standardized effect size can be estimated");
+  } else if (groupIndex !== undefined && names.length === 2) {
+    const d = (samples: number[][]) => (mean(samples[1]) - mean(samples[0])) / pooledStandardDeviation(samples);
+    effect = {
+      metric: 'd',
+      value: round(d(groupValues)),
+      confidenceInterval: bootstrap(d),
+      description: `Cohen's d for ${names[1]} versus ${names[0]}, standardized by the pooled SD`
+    };
+    prefill = {
+      testType: 'two-sample t-test',
+      effectSize: round((mean(groupValues[1]) - mean(groupValues[0])) / sdForPlanning!),
+      sdSource
+    };
+  } else if (groupIndex !== undefined && names.length > 2 && outcomeType === 'continuous') {
+    effect = {
+      metric: 'f',
+      value: round(cohensF(groupValues, pooledStandardDeviation(groupValues))),
+      confidenceInterval: bootstrap((samples) => cohensF(samples, pooledStandardDeviation(samples))),
+      description: "Cohen's f: SD of the group means over the pooled within-group SD"
+    };
+    prefill = {
+      testType: 'one-way anova',
+      effectSize: round(cohensF(groupValues, sdForPlanning!)),
+      groups: names.length,
+      sdSource
+    };
+  } else if (groupIndex !== undefined && names.length > 2) {
+    notes.push("Binary outcomes with more than two groups are summarized but not converted to an effect size");
+  } else if (groupIndex !== undefined) {
+    notes.push("Only one group was found; no between-group effect size can be estimated");
+  } else if (covariate !== undefined) {
+    columnIndex(table, covariate);
+    const correlation = correlations.find((candidate) => candidate.column === covariate);
+    if (!correlation) throw new ValidationError(`Column ${covariate} needs at least four numeric values paired with the outcome, and both must vary`);
+    prefill = { testType: 'correlation test', effectSize: correlation.r };
+  }
+
+  if (conservativeSd && prefill?.sdSource) {
+    notes.push(`Prefilled effect standardized by the ${round(confidenceLevel * 100, 2)}% upper confidence limit of the pooled SD (${pooledSdInterval![1]})`);
+  }
+  if (Math.min(...groups.map((summary) => summary.n)) < 10) {
+    notes.push("Small pilot groups give imprecise estimates; plan with the confidence limits, not only the point estimate");
+  }
+
+  return {
+    rows: rows.length,
+    columns,
+    outcomeType,
+    groups,
+    pooledSd: pooledSd !== undefined ? round(pooledSd) : undefined,
+    pooledSdInterval,
+    correlations,
+    effect,
+    confidenceLevel,
+    bootstrapSamples,
+    seed,
+    prefill,
+    notes
+  };
+}
+
+function correlate(column: string, xs: (number | null)[], ys: (number | null)[], level: number): PilotCorrelation | null {
+  const pairs = xs
+    .map((x, i) => [x, ys[i]] as const)
+    .filter((pair): pair is readonly [number, number] => pair[0] !== null && pair[1] !== null);
+  if (pairs.length < 4) return null;
+  const x = pairs.map((pair) => pair[0]);
+  const y = pairs.map((pair) => pair[1]);
+  const sx = standardDeviation(x);
+  const sy = standardDeviation(y);
+  if (sx === 0 || sy === 0) return null;
+
+  const mx = mean(x);
+  const my = mean(y);
+  const covariance = pairs.reduce((sum, [a, b]) => sum + (a - mx) * (b - my), 0) / (pairs.length - 1);
+  const r = Math.max(-1, Math.min(1, covariance / (sx * sy)));
+  // Fisher z interval, clamped away from ±1 so perfect correlations stay finite
+  const z = Math.atanh(Math.max(-0.999999, Math.min(0.999999, r)));
+  const margin = inverseNormalCDF(1 - (1 - level) / 2) / Math.sqrt(pairs.length - 3);
+  return { column, n: pairs.length, r: round(r), confidenceInterval: [round(Math.tanh(z - margin)), round(Math.tanh(z + margin))] };
+}
+
+function bootstrapInterval(
+  samples: number[][],
+  statistic: (samples: number[][]) => number,
+  replicates: number,
+  level: number,
+  random: () => number
+): [number, number] {
+  // Resampling within groups keeps the group sizes of the pilot study
+  const estimates: number[] = [];
+  for (let b = 0; b < replicates; b++) {
+    const resampled = samples.map((values) => values.map(() => values[Math.floor(random() * values.length)]));
+    const estimate = statistic(resampled);
+    if (Number.isFinite(estimate)) estimates.push(estimate);
+  }
+  if (estimates.length === 0) throw new ValidationError("The bootstrap produced no finite estimates");
+  estimates.sort((a, b) => a - b);
+  const tail = (1 - level) / 2;
+  const quantile = (p: number) => estimates[Math.min(estimates.length - 1, Math.max(0, Math.floor(p * estimates.length)))];
+  return [round(quantile(tail)), round(quantile(1 - tail))];
+}
+
+function cohensF(samples: number[][], sd: number): number {
+  const total = samples.reduce((sum, values) => sum + values.length, 0);
+  const grandMean = samples.reduce((sum, values) => sum + values.length * mean(values), 0) / total;
+  const between = samples.reduce((sum, values) => sum + values.length * Math.pow(mean(values) - grandMean, 2), 0) / total;
+  return Math.sqrt(between) / sd;
+}
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runSimulation } from './simulation';
+import { ValidationError } from './errors';
+
+describe('runSimulation', () => {
+  it("reproduces the noncentral t power of 0.8015 for d = 0.5 with 64 per group", async () => {
+    const result = await runSimulation({
+      distribution: 'normal',
+      control: { n: 64, mean: 0, sd: 1 },
+      treatment: { n: 64, mean: 0.5, sd: 1 },
+      test: 'tTest',
+      alpha: 0.05,
+      simulations: 2000,
+      seed: 20240601
+    });
+    assert.ok(Math.abs(result.power - 0.8015) < 3 * result.monteCarloStandardError, `power ${result.power}`);
+  });
+
+  it('is reproducible for a fixed seed', async () => {
+    const params = {
+      distribution: 'normal' as const,
+      control: { n: 20, mean: 0, sd: 1 },
+      treatment: { n: 20, mean: 0.6, sd: 1 },
+      test: 'mannWhitney' as const,
+      alpha: 0.05,
+      simulations: 200,
+      seed: 7
+    };
+    assert.equal((await runSimulation(params)).rejections, (await runSimulation(params)).rejections);
+  });
+
+  it('rejects arms above the size cap', async () => {
+    await assert.rejects(runSimulation({
+      distribution: 'normal',
+      control: { n: 50001, mean: 0, sd: 1 },
+      treatment: { n: 10, mean: 0, sd: 1 },
+      test: 'tTest',
+      alpha: 0.05
+    }), ValidationError);
+  });
+});
@@ -0,0 +1,362 @@
+import { randomUUID } from 'crypto';
+import { inverseNormalCDF, normalCDF, tCDF } from './distributions';
+import { mannWhitneyU, mean, sum, variance } from './descriptive';
+import { ValidationError } from './errors';
+
+// Monte Carlo power analysis for two-arm designs without closed-form power:
+// synthetic datasets are drawn from a seeded data-generating model, the planned
+// test is run on each, and the rejection rate estimates power.
+
+export type SimulationDistribution = 'normal' | 'lognormal' | 'binary';
+export type SimulationTest = 'tTest' | 'welch' | 'mannWhitney' | 'ancova' | 'proportion';
+export type SimulationJobStatus = 'running' | 'completed' | 'failed';
+
+export interface SimulationArm {
+  n: number;
+  mean: number; // event probability for binary outcomes
+  sd?: number; // ignored for binary outcomes
+  missingRate?: number; // proportion of outcomes missing completely at random
+}
+
+export interface SimulationParams {
+  distribution: SimulationDistribution;
+  control: SimulationArm;
+  treatment: SimulationArm;
+  test: SimulationTest;
+  alpha: number;
+  simulations?: number;
+  seed?: number;
+  covariateCorrelation?: number; // correlation of a baseline covariate with the outcome
+}
+
+export interface SimulationResult {
+  power: number;
+  monteCarloStandardError: number;
+  confidenceInterval: [number, number];
+  simulations: number;
+  rejections: number;
+  meanEstimate: number; // average estimated treatment - control difference
+  redrawnDatasets: number; // datasets discarded for leaving an arm with fewer than 2 observed outcomes
+  seed: number;
+  assumptions: string[];
+}
+
+export interface SimulationJob {
+  id: string;
+  status: SimulationJobStatus;
+  progress: number;
+  completedSimulations: number;
+  totalSimulations: number;
+  result?: SimulationResult;
+  error?: string;
+  createdAt: Date;
+  finishedAt?: Date;
+}
+
+// Raised when the server is already running its maximum number of jobs
+export class SimulationCapacityError extends Error {
+  constructor() {
+    super(`At most ${MAX_RUNNING_JOBS} simulations can run at once; try again when one finishes`);
+    this.name = "SimulationCapacityError";
+  }
+}
+
+const DEFAULT_SIMULATIONS = 1000;
+const MAX_SIMULATIONS = 100000;
+const MAX_DRAWS = 2e8; // bounds the work of a single job
+const MAX_ARM_SIZE = 50000;
+// Outcomes drawn between yields to the event loop; one dataset is at most 2 × MAX_ARM_SIZE
+const DRAWS_PER_TICK = 100000;
+const MAX_RUNNING_JOBS = 4;
+const JOB_TTL_MS = 60 * 60 * 1000; // finished jobs stay retrievable for an hour
+
+const jobs = new Map<string, SimulationJob>();
+
+export function startSimulationJob(params: SimulationParams): SimulationJob {
+  validateSimulation(params);
+  evictFinishedJobs();
+  if (Array.from(jobs.values()).filter((job) => job.status === 'running').length >= MAX_RUNNING_JOBS) {
+    throw new SimulationCapacityError();
+  }
+  const job: SimulationJob = {
+    id: randomUUID(),
+    status: 'running',
+    progress: 0,
+    completedSimulations: 0,
+    totalSimulations: params.simulations ?? DEFAULT_SIMULATIONS,
+    createdAt: new Date()
+  };
+  jobs.set(job.id, job);
+
+  runSimulation(params, (completed) => {
+    job.completedSimulations = completed;
+    job.progress = completed / job.totalSimulations;
+  })
+    .then((result) => {
+      job.status = 'completed';
+      job.result = result;
+    })
+    .catch((error) => {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    })
+    .finally(() => {
+      job.finishedAt = new Date();
+    });
+
+  return job;
+}
+
+export function getSimulationJob(id: string): SimulationJob | undefined {
+  evictFinishedJobs();
+  return jobs.get(id);
+}
+
+function evictFinishedJobs(): void {
+  const cutoff = Date.now() - JOB_TTL_MS;
+  jobs.forEach((job, id) => {
+    if (job.finishedAt && job.finishedAt.getTime() < cutoff) jobs.delete(id);
+  });
+}
+
+export async function runSimulation(
+  params: SimulationParams,
+  onProgress?: (completed: number) => void
+): Promise<SimulationResult> {
+  validateSimulation(params);
+  const simulations = params.simulations ?? DEFAULT_SIMULATIONS;
+  const seed = params.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = createRandom(seed);
+
+  let rejections = 0;
+  let estimateSum = 0;
+  let redrawnDatasets = 0;
+  const batchSize = Math.max(1, Math.floor(DRAWS_PER_TICK / (params.control.n + params.treatment.n)));
+  for (let done = 0; done < simulations; ) {
+    const batchEnd = Math.min(done + batchSize, simulations);
+    for (; done < batchEnd; done++) {
+      // Missingness can leave an arm unanalysable; such datasets are redrawn
+      // rather than counted as non-rejections
+      let dataset = generateDataset(params, random);
+      while (dataset.some((arm) => arm.outcomes.length < 2)) {
+        if (++redrawnDatasets > simulations) {
+          throw new ValidationError("Missing data rates leave too few observed outcomes per arm to analyse most datasets");
+        }
+        dataset = generateDataset(params, random);
+      }
+      const { pValue, estimate } = runTest(params.test, dataset);
+      if (pValue < params.alpha) rejections++;
+      estimateSum += estimate;
+    }
+    onProgress?.(done);
+    // Yield between batches so long runs do not block the event loop
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  const power = rejections / simulations;
+  const monteCarloStandardError = Math.sqrt(power * (1 - power) / simulations);
+  const z = inverseNormalCDF(0.975);
+  return {
+    power,
+    monteCarloStandardError,
+    confidenceInterval: [
+      Math.max(0, power - z * monteCarloStandardError),
+      Math.min(1, power + z * monteCarloStandardError)
+    ],
+    simulations,
+    rejections,
+    meanEstimate: estimateSum / simulations,
+    redrawnDatasets,
+    seed,
+    assumptions: describeSimulation(params, simulations, redrawnDatasets)
+  };
+}
+
+function validateSimulation(params: SimulationParams): void {
+  const { distribution, control, treatment, test, alpha, covariateCorrelation } = params;
+  const simulations = params.simulations ?? DEFAULT_SIMULATIONS;
+  if (!Number.isInteger(simulations) || simulations < 1 || simulations > MAX_SIMULATIONS) {
+    throw new ValidationError(`Number of simulations must be an integer between 1 and ${MAX_SIMULATIONS}`);
+  }
+  if (!(alpha > 0 && alpha < 1)) throw new ValidationError("Alpha must lie between 0 and 1");
+
+  for (const arm of [control, treatment]) {
+    if (!Number.isInteger(arm.n) || arm.n < 2 || arm.n > MAX_ARM_SIZE) {
+      throw new ValidationError(`Each arm needs an integer sample size between 2 and ${MAX_ARM_SIZE}`);
+    }
+    if (typeof arm.mean !== 'number' || !Number.isFinite(arm.mean)) throw new ValidationError("Each arm needs a finite mean");
+    const missingRate = arm.missingRate ?? 0;
+    if (!(missingRate >= 0 && missingRate < 1)) throw new ValidationError("Missing data rates must lie in [0, 1)");
+    if (distribution === 'binary') {
+      if (arm.mean <= 0 || arm.mean >= 1) throw new ValidationError("Binary outcomes need event probabilities between 0 and 1");
+    } else if (arm.sd === undefined || !(arm.sd > 0 && Number.isFinite(arm.sd))) {
+      throw new ValidationError("Continuous outcomes need a positive SD in each arm");
+    }
+    if (distribution === 'lognormal' && arm.mean <= 0) throw new ValidationError("Lognormal outcomes need positive means");
+  }
+
+  if ((distribution === 'binary') !== (test === 'proportion')) {
+    throw new ValidationError("Binary outcomes must use the proportion test, and the proportion test needs binary outcomes");
+  }
+  if (test === 'ancova' && covariateCorrelation === undefined) {
+    throw new ValidationError("ANCOVA simulations need a covariate correlation");
+  }
+  if (covariateCorrelation !== undefined && !(covariateCorrelation > -1 && covariateCorrelation < 1)) {
+    throw new ValidationError("Covariate correlation must lie strictly between -1 and 1");
+  }
+  if (simulations * (control.n + treatment.n) > MAX_DRAWS) {
+    throw new ValidationError("Simulation is too large: reduce the number of simulations or the sample size");
+  }
+}
+
+export function createRandom(seed: number): () => number {
+  // mulberry32: small, fast and reproducible for a given seed
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function standardNormal(random: () => number): number {
+  // Box-Muller transform; 1 - u keeps the logarithm finite
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+interface SimulatedArm {
+  outcomes: number[];
+  covariates: number[];
+}
+
+function generateDataset(params: SimulationParams, random: () => number): [SimulatedArm, SimulatedArm] {
+  const rho = params.covariateCorrelation ?? 0;
+  return [params.control, params.treatment].map((arm) => {
+    const outcomes: number[] = [];
+    const covariates: number[] = [];
+    for (let i = 0; i < arm.n; i++) {
+      const covariate = standardNormal(random);
+      const noise = rho * covariate + Math.sqrt(1 - rho * rho) * standardNormal(random);
+      if (random() < (arm.missingRate ?? 0)) continue; // complete-case analysis
+      outcomes.push(drawOutcome(params.distribution, arm, noise, random));
+      covariates.push(covariate);
+    }
+    return { outcomes, covariates };
+  }) as [SimulatedArm, SimulatedArm];
+}
+
+function drawOutcome(distribution: SimulationDistribution, arm: SimulationArm, z: number, random: () => number): number {
+  switch (distribution) {
+    case 'binary':
+      return random() < arm.mean ? 1 : 0;
+    case 'lognormal': {
+      // Log-scale parameters matching the requested mean and SD
+      const sigma2 = Math.log(1 + Math.pow((arm.sd as number) / arm.mean, 2));
+      return Math.exp(Math.log(arm.mean) - sigma2 / 2 + Math.sqrt(sigma2) * z);
+    }
+    default:
+      return arm.mean + (arm.sd as number) * z;
+  }
+}
+
+function runTest(test: SimulationTest, [control, treatment]: [SimulatedArm, SimulatedArm]): { pValue: number; estimate: number } {
+  const x = control.outcomes;
+  const y = treatment.outcomes;
+  const estimate = mean(y) - mean(x);
+
+  switch (test) {
+    case 'welch': {
+      const v1 = variance(x) / x.length;
+      const v2 = variance(y) / y.length;
+      const df = Math.pow(v1 + v2, 2) / (v1 * v1 / (x.length - 1) + v2 * v2 / (y.length - 1));
+      return { pValue: twoSidedT(estimate / Math.sqrt(v1 + v2), df), estimate };
+    }
+
+    case 'mannWhitney':
+      return { pValue: mannWhitneyPValue(x, y), estimate };
+
+    case 'ancova':
+      return ancova(control, treatment);
+
+    case 'proportion': {
+      const pooled = (sum(x) + sum(y)) / (x.length + y.length);
+      const se = Math.sqrt(pooled * (1 - pooled) * (1 / x.length + 1 / y.length));
+      return { pValue: se > 0 ? 2 * (1 - normalCDF(Math.abs(estimate) / se)) : 1, estimate };
+    }
+
+    case 'tTest':
+    default: {
+      const df = x.length + y.length - 2;
+      const pooledVariance = ((x.length - 1) * variance(x) + (y.length - 1) * variance(y)) / df;
+      const se = Math.sqrt(pooledVariance * (1 / x.length + 1 / y.length));
+      return { pValue: twoSidedT(estimate / se, df), estimate };
+    }
+  }
+}
+
+function ancova(control: SimulatedArm, treatment: SimulatedArm): { pValue: number; estimate: number } {
+  // Outcome regressed on arm and covariate with a common within-arm slope
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const arm of [control, treatment]) {
+    const xBar = mean(arm.covariates);
+    const yBar = mean(arm.outcomes);
+    arm.covariates.forEach((x, i) => {
+      sxx += (x - xBar) * (x - xBar);
+      sxy += (x - xBar) * (arm.outcomes[i] - yBar);
+      syy += (arm.outcomes[i] - yBar) * (arm.outcomes[i] - yBar);
+    });
+  }
+  const n0 = control.outcomes.length;
+  const n1 = treatment.outcomes.length;
+  const slope = sxy / sxx;
+  const covariateGap = mean(treatment.covariates) - mean(control.covariates);
+  const estimate = mean(treatment.outcomes) - mean(control.outcomes) - slope * covariateGap;
+  const df = n0 + n1 - 3;
+  const residualVariance = (syy - slope * sxy) / df;
+  const se = Math.sqrt(residualVariance * (1 / n0 + 1 / n1 + covariateGap * covariateGap / sxx));
+  return { pValue: df > 0 ? twoSidedT(estimate / se, df) : 1, estimate };
+}
+
+function mannWhitneyPValue(x: number[], y: number[]): number {
+  // Normal approximation with mid-ranks and a tie correction
+  const { u, variance: varianceU } = mannWhitneyU(x, y);
+  if (varianceU <= 0) return 1;
+  return 2 * (1 - normalCDF(Math.abs(u - x.length * y.length / 2) / Math.sqrt(varianceU)));
+}
+
+function twoSidedT(t: number, df: number): number {
+  if (!Number.isFinite(t)) return Number.isNaN(t) ? 1 : 0;
+  return 2 * (1 - tCDF(Math.abs(t), df));
+}
+
+function describeSimulation(params: SimulationParams, simulations: number, redrawnDatasets: number): string[] {
+  const { distribution, control, treatment, test, alpha, covariateCorrelation } = params;
+  const describeArm = (label: string, arm: SimulationArm) => distribution === 'binary'
+    ? `${label}: n = ${arm.n}, event probability ${arm.mean}`
+    : `${label}: n = ${arm.n}, mean ${arm.mean}, SD ${arm.sd}`;
+  return [
+    `${simulations} simulated datasets from ${distribution} outcomes`,
+    describeArm('Control', control),
+    describeArm('Treatment', treatment),
+    `Analysis by ${SIMULATION_TEST_LABELS[test]}, two-sided α = ${alpha}`,
+    ...(covariateCorrelation !== undefined ? [`Baseline covariate correlated ${covariateCorrelation} with the outcome`] : []),
+    ...(control.missingRate || treatment.missingRate
+      ? [`Outcomes missing completely at random (control ${control.missingRate ?? 0}, treatment ${treatment.missingRate ?? 0}), complete-case analysis`]
+      : []),
+    ...(redrawnDatasets > 0
+      ? [`${redrawnDatasets} datasets with fewer than 2 observed outcomes in an arm were redrawn`]
+      : [])
+  ];
+}
+
+const SIMULATION_TEST_LABELS: Record<SimulationTest, string> = {
+  tTest: "Student's t-test",
+  welch: "Welch's t-test",
+  mannWhitney: "Mann-Whitney U test",
+  ancova: "ANCOVA adjusting for the baseline covariate",
+  proportion: "two-proportion z-test"
+};
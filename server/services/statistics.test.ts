@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculatePrecisionSampleSize, calculateSampleSize, type SampleSizeParams } from './statistics';
+import { ValidationError } from './errors';
+
+// Reference values are from G*Power 3.1, Cohen (1988), or the closed-form
+// formula cited next to each design; α = 0.05 two-sided and 80% power throughout
+const solve = (params: Partial<SampleSizeParams> & { testType: string }) =>
+  calculateSampleSize({ alpha: 0.05, power: 0.8, ...params });
+
+describe('t-test designs (noncentral t)', () => {
+  it('sizes a two-sample t-test with d = 0.5 at 64 per group', () => {
+    const result = solve({ testType: 'two-sample t-test', effectSize: 0.5 });
+    assert.equal(result.sampleSize, 64);
+    assert.equal(result.totalSampleSize, 128);
+  });
+
+  it('reports power 0.8015 for 64 per group', () => {
+    const result = solve({ testType: 'two-sample t-test', effectSize: 0.5, solveFor: 'power', sampleSize: 64 });
+    assert.equal(Math.round(result.achievedPower * 1e4) / 1e4, 0.8015);
+  });
+
+  it('sizes a paired t-test with d = 0.5 at 34 pairs', () => {
+    assert.equal(solve({ testType: 'paired t-test', effectSize: 0.5 }).sampleSize, 34);
+  });
+});
+
+describe('F and chi-square designs', () => {
+  it('sizes a one-way ANOVA with f = 0.25 and three groups at 53 per group', () => {
+    const result = solve({ testType: 'one-way anova', effectSize: 0.25, groups: 3 });
+    assert.equal(result.sampleSize, 53);
+    assert.equal(result.totalSampleSize, 159);
+  });
+
+  it('sizes a multiple regression with f² = 0.15 and five predictors at N = 92', () => {
+    assert.equal(solve({ testType: 'multiple linear regression', effectSize: 0.15, predictors: 5 }).sampleSize, 92);
+  });
+
+  it('sizes a 2×2 chi-square test with w = 0.3 at N = 88', () => {
+    assert.equal(solve({ testType: 'chi-square test', effectSize: 0.3 }).sampleSize, 88);
+  });
+
+  it('sizes a goodness-of-fit test with w = 0.3 over four categories at N = 122', () => {
+    assert.equal(solve({ testType: 'chi-square goodness-of-fit test', effectSize: 0.3, categories: 4 }).sampleSize, 122);
+  });
+
+  it('sizes a correlation test with r = 0.3 at N = 85 (Cohen, Table 3.4.1)', () => {
+    assert.equal(solve({ testType: 'correlation test', effectSize: 0.3 }).sampleSize, 85);
+  });
+});
+
+describe('closed-form designs', () => {
+  it('sizes two proportions 0.5 vs 0.6 at 388 per group (pooled normal approximation)', () => {
+    assert.equal(solve({ testType: 'proportion test', baselineProportion: 0.5, effectSize: 0.1 }).sampleSize, 388);
+  });
+
+  it('requires 66 events for a hazard ratio of 0.5 (Schoenfeld)', () => {
+    const result = solve({ testType: 'log-rank test', hazardRatio: 0.5, controlMedianSurvival: 12, accrualPeriod: 12, followUpPeriod: 12 });
+    assert.equal(result.requiredEvents, 66);
+  });
+
+  it('sizes McNemar with discordant proportions 0.25 and 0.10 at 120 pairs (Connor)', () => {
+    assert.equal(solve({ testType: 'mcnemar test', discordantProportion10: 0.25, discordantProportion01: 0.1 }).sampleSize, 120);
+  });
+
+  it('sizes a Poisson rate ratio of 0.5 from one event per participant at 50 per group', () => {
+    assert.equal(solve({ testType: 'poisson rate test', baselineRate: 1, rateRatio: 0.5, exposureTime: 1 }).sampleSize, 50);
+  });
+
+  it('inflates rank tests by the asymptotic relative efficiency 3/π', () => {
+    assert.equal(solve({ testType: 'mann-whitney test', effectSize: 0.5 }).sampleSize, 67);
+    assert.equal(solve({ testType: 'wilcoxon signed-rank test', effectSize: 0.5 }).sampleSize, 35);
+    assert.equal(solve({ testType: 'kruskal-wallis test', effectSize: 0.25, groups: 3 }).sampleSize, 55);
+  });
+});
+
+describe('design layers', () => {
+  it('rounds clustered arms up to whole clusters', () => {
+    // 64 × (1 + 19 × 0.05) = 124.8, so 7 clusters of 20 per arm
+    const result = solve({ testType: 'two-sample t-test', effectSize: 0.5, clusterSize: 20, icc: 0.05 });
+    assert.equal(result.designEffect, 1.95);
+    assert.deepEqual(result.clustersPerArm, [7, 7]);
+    assert.equal(result.sampleSize, 140);
+  });
+
+  it('shrinks the sample by 1 - ρ² under ANCOVA', () => {
+    assert.equal(solve({ testType: 'two-sample t-test', effectSize: 0.5, baselineCorrelation: 0.5 }).sampleSize, 49);
+  });
+
+  it('sizes non-inferiority with no true difference like a one-sided superiority test', () => {
+    assert.equal(solve({ testType: 'two-sample t-test', effectSize: 0, hypothesisType: 'nonInferiority', margin: 0.5 }).sampleSize, 64);
+  });
+
+  it('inflates for dropout as n / (1 - d)', () => {
+    assert.equal(solve({ testType: 'two-sample t-test', effectSize: 0.5, dropoutRate: 0.2 }).adjustedSampleSize, 160);
+  });
+
+  it('sizes Bonferroni endpoints at α / m', () => {
+    const result = solve({ testType: 'two-sample t-test', effectSize: 0.5, comparisons: 2 });
+    assert.equal(result.sampleSize, calculateSampleSize({ testType: 'two-sample t-test', effectSize: 0.5, alpha: 0.025, power: 0.8 }).sampleSize);
+    assert.equal(result.multiplicity?.endpoints[0].alpha, 0.025);
+  });
+});
+
+describe('precision designs', () => {
+  it('sizes a Wald interval of ±0.05 around 0.5 at 385', () => {
+    const result = calculatePrecisionSampleSize({ target: 'proportion', expectedProportion: 0.5, halfWidth: 0.05, confidenceLevel: 0.95, intervalMethod: 'wald' });
+    assert.equal(result.sampleSize, 385);
+  });
+
+  it('sizes sensitivity 0.9 ± 0.05 at prevalence 0.2 at 139 cases, N = 695 (Buderer)', () => {
+    const result = calculatePrecisionSampleSize({
+      target: 'diagnostic', expectedSensitivity: 0.9, expectedSpecificity: 0.85, prevalence: 0.2, halfWidth: 0.05, confidenceLevel: 0.95
+    });
+    assert.equal(result.designParameters.casesRequired, 139);
+    assert.equal(result.sampleSize, 695);
+  });
+});
+
+describe('validation', () => {
+  it('rejects bad inputs with a ValidationError', () => {
+    assert.throws(() => solve({ testType: 'two-sample t-test' }), ValidationError);
+    assert.throws(() => solve({ testType: 'no such test', effectSize: 0.5 }), ValidationError);
+    assert.throws(() => calculateSampleSize({ testType: 'two-sample t-test', effectSize: 0.5, alpha: 2, power: 0.8 }), ValidationError);
+    assert.throws(() => solve({ testType: 'two-sample t-test', effectSize: 0.5, clusterSize: 20 }), ValidationError);
+  });
+});
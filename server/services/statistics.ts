@@ -1,196 +1,2189 @@
+
+import {
+  betaQuantile,
+  chiSquareQuantile,
+  dunnettQuantile,
+  fQuantile,
+  inverseNormalCDF,
+  noncentralChiSquareCDF,
+  noncentralFCDF,
+  noncentralTCDF,
+  normalCDF,
+  tQuantile
+} from './distributions';
+import { round } from './descriptive';
+import { ValidationError } from './errors';
+import {
+  describeGroupSequential,
+  designGroupSequential,
+  groupSequentialPower,
+  type GroupSequentialDesign,
+  type SpendingFunction
+} from './group-sequential';
+
+export type ProportionMethod = 'pooled' | 'unpooled' | 'arcsine';
+export type SolveFor = 'sampleSize' | 'power' | 'effectSize';
+export type PowerCurveType = 'powerBySampleSize' | 'sampleSizeByEffect';
+export type SurvivalMethod = 'schoenfeld' | 'freedman';
+export type RepeatedMeasuresEffect = 'between' | 'within' | 'interaction';
+export type LongitudinalEffect = 'timeAveraged' | 'slope';
+export type ParentDistribution = 'normal' | 'logistic' | 'laplace';
+export type RankTestMethod = 'are' | 'noether';
+export type HypothesisType = 'superiority' | 'nonInferiority' | 'superiorityByMargin' | 'equivalence';
+export type MultiplicityMethod = 'bonferroni' | 'holm' | 'hochberg' | 'dunnett';
+
 export interface SampleSizeParams {
   testType: string;
-  effectSize: number;
-  power: number;
+  solveFor?: SolveFor; // defaults to sampleSize
+  effectSize?: number;
+  power?: number;
   alpha: number;
+  sampleSize?: number; // per group; required when solving for power or effect size
   groups?: number;
+  allocationRatio?: number; // n_treatment / n_control for two-arm designs
+  // Two-proportion designs: p1 is the control rate, p2 may be given directly
+  // or derived from a risk ratio or odds ratio relative to p1
+  baselineProportion?: number;
+  treatmentProportion?: number;
+  riskRatio?: number;
+  oddsRatio?: number;
+  proportionMethod?: ProportionMethod;
+  // Time-to-event designs: all times and rates share one time unit (e.g. months)
+  hazardRatio?: number;
+  controlMedianSurvival?: number;
+  controlEventRate?: number; // proportion of control participants with an event per time unit
+  accrualPeriod?: number;
+  followUpPeriod?: number; // additional follow-up after accrual ends
+  lossToFollowUpRate?: number; // proportion lost to follow-up per time unit
+  survivalMethod?: SurvivalMethod;
+  // Contingency-table designs: sample sizes are total observations
+  tableRows?: number;
+  tableColumns?: number;
+  categories?: number; // goodness-of-fit categories
+  cellProportions?: number[][]; // alternative cell probabilities; Cohen's w is derived from them when given
+  nullProportions?: number[]; // goodness-of-fit null probabilities, uniform by default
+  // McNemar designs: proportions of pairs discordant in each direction
+  discordantProportion10?: number; // success on treatment, failure on control
+  discordantProportion01?: number; // failure on treatment, success on control
+  discordantProportion?: number; // total p₁₀ + p₀₁, needed when solving for the effect
+  // Count-outcome designs: events per participant over the exposure time
+  baselineRate?: number; // control events per time unit
+  rateRatio?: number; // treatment rate / control rate
+  exposureTime?: number; // follow-up per participant, in the rate's time unit
+  overdispersion?: number; // negative binomial k, with Var = μ + kμ²
+  // Cluster-randomized designs: sample sizes then count individuals per arm
+  clusterSize?: number; // mean number of individuals per cluster
+  icc?: number; // intracluster correlation coefficient
+  clusterSizeCv?: number; // coefficient of variation of cluster sizes
+  // Attrition: sample sizes are inflated as n / (1 - d)
+  dropoutRate?: number; // overall proportion lost before the primary analysis
+  attritionSchedule?: number[]; // proportion of remaining participants lost at each wave
+  armDropoutRates?: number[]; // overall dropout per arm, in group order
+  // Repeated-measures and longitudinal designs
+  measurements?: number; // repeated measurements per subject
+  repeatedMeasuresCorrelation?: number; // correlation among repeated measures
+  sphericityEpsilon?: number; // Greenhouse-Geisser style correction, 1/(m - 1) to 1
+  repeatedMeasuresEffect?: RepeatedMeasuresEffect;
+  longitudinalEffect?: LongitudinalEffect;
+  // Regression designs: sample sizes are total observations
+  predictors?: number; // total predictors in the full model
+  testedPredictors?: number; // predictors whose joint contribution is tested
+  eventRate?: number; // overall outcome event proportion for logistic regression
+  rSquaredOther?: number; // R² of the tested covariate on the other covariates
+  // Crossover designs: the effect is the treatment difference over the within-subject SD
+  meanDifference?: number;
+  withinSubjectSd?: number;
+  // AUC comparison designs: n counts diseased cases; the effect is AUC₂ - AUC₁
+  auc1?: number; // reference test
+  auc2?: number; // new test
+  aucCorrelation?: number; // correlation of the two AUC estimates when both tests are read on the same subjects
+  controlsPerCase?: number; // non-diseased subjects per case, defaults to 1
+  // ANCOVA adjustment for a baseline measurement of the outcome
+  baselineCorrelation?: number; // correlation between baseline and outcome
+  // Rank-based designs: effects are location shifts in SD units of the parent distribution
+  parentDistribution?: ParentDistribution;
+  rankTestMethod?: RankTestMethod; // Mann-Whitney only; ARE adjustment of the t-test or Noether (1987)
+  // Margin-based hypotheses: higher outcome values favour treatment
+  hypothesisType?: HypothesisType;
+  margin?: number; // positive margin in Cohen's d units for means, risk difference for proportions
+  marginRationale?: string;
+  // Group sequential designs: sample sizes are the maximum at the final analysis
+  looks?: number; // planned analyses including the final one
+  informationFractions?: number[];
+  spendingFunction?: SpendingFunction;
+  futilityBoundaries?: boolean;
+  // Multiple primary endpoints or comparisons: alpha is the family-wise level, split
+  // by the adjustment, and the overall n is driven by the most demanding endpoint
+  endpoints?: EndpointParams[];
+  comparisons?: number; // identical comparisons of this design when endpoints are not listed
+  multiplicityMethod?: MultiplicityMethod; // defaults to bonferroni
+}
+
+// An endpoint overrides any of the shared design inputs, e.g. its own test type and effect size
+export interface EndpointParams
+  extends Partial<Omit<SampleSizeParams, 'endpoints' | 'comparisons' | 'multiplicityMethod' | 'alpha' | 'solveFor' | 'sampleSize'>> {
+  name: string;
+}
+
+// Assumptions that collected data can be checked against carry a key
+export type AssumptionKey = 'normality' | 'equalVariances' | 'continuousOutcome' | 'binaryOutcome' | 'equalGroupSizes';
+
+export interface Assumption {
+  key?: AssumptionKey;
+  text: string;
 }
 
 export interface SampleSizeResult {
+  solveFor: SolveFor;
+  effectSize: number;
   sampleSize: number;
   totalSampleSize: number;
   adjustedSampleSize: number;
+  adjustedGroupSizes: number[];
+  attrition: AttritionAssumptions;
+  formula: string;
+  assumptions: Assumption[];
+  achievedPower: number;
+  approximateSampleSize?: number;
+  groupSizes?: number[];
+  treatmentProportion?: number;
+  requiredEvents?: number;
+  expectedEvents?: number;
+  designEffect?: number;
+  clustersPerArm?: number[];
+  groupSequential?: GroupSequentialDesign;
+  multiplicity?: MultiplicityAdjustment;
+  designParameters?: Record<string, unknown>;
+}
+
+export interface MultiplicityAdjustment {
+  method: MultiplicityMethod;
+  familyAlpha: number;
+  drivingEndpoint: string;
+  dunnettCorrelation?: number;
+  planningNote?: string; // how step-wise procedures were planned
+  endpoints: EndpointResult[];
+}
+
+export interface EndpointResult {
+  name: string;
+  testType: string;
+  alpha: number; // adjusted two-sided level the endpoint is tested at
+  effectSize: number;
+  sampleSize: number;
+  totalSampleSize: number;
+  adjustedSampleSize: number;
+  achievedPower: number;
+}
+
+export type PrecisionTarget = 'mean' | 'proportion' | 'survey' | 'diagnostic';
+export type ProportionInterval = 'wald' | 'wilson' | 'clopperPearson';
+
+// Precision-based designs size a descriptive estimate by its confidence interval
+// half-width instead of the power of a test
+export interface PrecisionParams extends Pick<SampleSizeParams, 'dropoutRate' | 'attritionSchedule'> {
+  target: PrecisionTarget;
+  halfWidth: number; // in outcome units for means, on the proportion scale otherwise
+  confidenceLevel?: number; // defaults to 0.95
+  standardDeviation?: number; // means
+  expectedProportion?: number; // proportions and surveys; surveys default to the conservative 0.5
+  intervalMethod?: ProportionInterval; // proportions; defaults to wilson
+  populationSize?: number; // surveys: finite population correction
+  designEffect?: number; // surveys: variance inflation from clustering or weighting
+  // Diagnostic accuracy: sensitivity and specificity are both estimated to ±halfWidth
+  expectedSensitivity?: number;
+  expectedSpecificity?: number;
+  prevalence?: number;
+}
+
+export interface PrecisionResult {
+  target: PrecisionTarget;
+  sampleSize: number;
+  adjustedSampleSize: number;
+  attrition: AttritionAssumptions;
+  achievedHalfWidth: number;
+  approximateSampleSize?: number;
+  formula: string;
+  assumptions: Assumption[];
+  designParameters: Record<string, unknown>;
+}
+
+export type BayesianCriterion = 'assurance' | 'posteriorProbability' | 'credibleInterval';
+
+// Bayesian designs place a normal prior on the effect, on the scale of the test's effect size
+export interface BayesianParams
+  extends Omit<SampleSizeParams, 'solveFor' | 'sampleSize' | 'effectSize' | 'power' | 'alpha' | 'endpoints' | 'comparisons' | 'multiplicityMethod'> {
+  criterion: BayesianCriterion;
+  alpha?: number; // assurance: significance level of the planned frequentist test
+  priorMean?: number; // design prior, required for assurance and posterior probability
+  priorSd: number;
+  // Analysis prior for the posterior; defaults to the design prior
+  analysisPriorMean?: number;
+  analysisPriorSd?: number;
+  targetProbability?: number; // assurance or probability of success, defaults to 0.8
+  posteriorThreshold?: number; // required P(δ > 0 | data), defaults to 0.975
+  intervalWidth?: number; // full credible interval width in Cohen's d units
+  credibleLevel?: number; // defaults to 0.95
+}
+
+export interface BayesianResult {
+  criterion: BayesianCriterion;
+  sampleSize: number;
+  totalSampleSize: number;
+  adjustedSampleSize: number;
+  adjustedGroupSizes: number[];
+  attrition: AttritionAssumptions;
+  achievedProbability?: number; // assurance or probability of success at the chosen n
+  achievedWidth?: number;
+  frequentistSampleSize?: number; // n for the same target power at the prior mean
+  formula: string;
+  assumptions: Assumption[];
+  designParameters: Record<string, unknown>;
+}
+
+export interface AttritionAssumptions {
+  dropoutRate: number; // overall dropout, or the largest arm dropout under differential attrition
+  attritionSchedule?: number[];
+  armDropoutRates?: number[];
+}
+
+export interface PowerCurveParams extends Omit<SampleSizeParams, 'solveFor' | 'sampleSize'> {
+  curveType: PowerCurveType;
+  effectSizes?: number[]; // one power-by-n series per effect size
+  powers?: number[]; // one n-by-effect series per power level
+  minSampleSize?: number;
+  maxSampleSize?: number;
+  minEffectSize?: number;
+  maxEffectSize?: number;
+  points?: number;
+}
+
+export interface PowerCurveSeries {
+  key: string;
+  label: string;
+}
+
+export interface PowerCurveResult {
+  curveType: PowerCurveType;
+  xLabel: string;
+  yLabel: string;
+  series: PowerCurveSeries[];
+  // Each point holds the x value plus one y value per series key (null where unsolvable)
+  data: Array<Record<string, number | null>>;
+}
+
+// A design describes one test type through its power function; solving for
+// n, power or the minimum detectable effect is shared across designs.
+interface PowerDesign {
+  // Power with n subjects per group (control group for unequal allocation)
+  powerAt(n: number, effect: number): number;
+  minimumSampleSize: number;
+  // Weakest and strongest effect searched for the minimum detectable effect
+  effectSearchRange: [number, number];
+  // Used instead of the exact search when the design is defined by a closed form
+  closedFormSampleSize?(effect: number, power: number): number;
+  approximateSampleSize?(effect: number, power: number): number;
+  groupSizes(n: number): number[];
+  reportGroupSizes?: boolean;
+  // Whether arms can be randomized as clusters
+  allowsClustering?: boolean;
+  // Whether the analysis can adjust for a baseline covariate (ANCOVA)
+  allowsBaselineAdjustment?: boolean;
+  // Extra result fields; power is the target power, or the achieved power when solving for it
+  details?(effect: number, n: number, power: number): Partial<SampleSizeResult>;
+  // Design-specific inputs stored alongside the calculation
+  parameters?: Record<string, unknown>;
+  describeEffect?(effect: number): string;
   formula: string;
-  assumptions: string[];
+  assumptions: (string | Assumption)[];
 }
 
 export function calculateSampleSize(params: SampleSizeParams): SampleSizeResult {
-  const { testType, effectSize, power, alpha, groups = 2 } = params;
-  
-  // Z-scores for common values
-  const getZScore = (p: number): number => {
-    if (p === 0.05) return 1.96;
-    if (p === 0.01) return 2.576;
-    if (p === 0.001) return 3.291;
-    // Approximation for other values
-    return Math.abs(inverseNormalCDF(p / 2));
-  };
+  if (params.endpoints?.length || (params.comparisons ?? 1) > 1) return calculateMultipleEndpoints(params);
+  const { testType, alpha, solveFor = 'sampleSize' } = params;
+  if (!['sampleSize', 'power', 'effectSize'].includes(solveFor)) {
+    throw new ValidationError("solveFor must be sampleSize, power or effectSize");
+  }
+  const design = buildDesign(testType, params);
+
+  let effectSize: number;
+  let sampleSize: number;
+  let approximateSampleSize: number | undefined;
 
-  const getPowerZScore = (power: number): number => {
-    if (power === 0.8) return 0.842;
-    if (power === 0.9) return 1.282;
-    if (power === 0.95) return 1.645;
-    // Approximation for other values
-    return Math.abs(inverseNormalCDF(1 - power));
+  switch (solveFor) {
+    case 'power':
+      effectSize = resolveEffectSize(testType, params);
+      sampleSize = requireSampleSize(params, design);
+      break;
+
+    case 'effectSize':
+      sampleSize = requireSampleSize(params, design);
+      effectSize = findMinimumDetectableEffect(
+        (effect) => design.powerAt(sampleSize, effect),
+        requirePower(params),
+        design.effectSearchRange
+      );
+      break;
+
+    case 'sampleSize':
+    default:
+      const power = requirePower(params);
+      effectSize = resolveEffectSize(testType, params);
+      sampleSize = solveSampleSize(design, effectSize, power);
+      approximateSampleSize = design.approximateSampleSize?.(effectSize, power);
+  }
+
+  const achievedPower = design.powerAt(sampleSize, effectSize);
+  const groupSizes = design.groupSizes(sampleSize);
+  const totalSampleSize = groupSizes.reduce((sum, n) => sum + n, 0);
+  const attrition = resolveAttrition(params, groupSizes.length);
+  const armDropout = attrition.armDropoutRates ?? groupSizes.map(() => attrition.dropoutRate);
+  const adjustedGroupSizes = groupSizes.map((n, i) => Math.ceil(n / (1 - armDropout[i]) - 1e-9));
+  const adjustedSampleSize = adjustedGroupSizes.reduce((sum, n) => sum + n, 0);
+
+  const assumptions: (string | Assumption)[] = [...design.assumptions, describeAttrition(attrition)];
+  if (design.describeEffect) assumptions.unshift(design.describeEffect(effectSize));
+  if (solveFor === 'power') {
+    assumptions.unshift(`Power evaluated at n = ${sampleSize} per group for α = ${alpha}`);
+  } else if (solveFor === 'effectSize') {
+    assumptions.unshift(`Minimum detectable effect at n = ${sampleSize} per group for α = ${alpha} and power = ${params.power}`);
+  }
+
+  return {
+    solveFor,
+    effectSize,
+    sampleSize,
+    totalSampleSize,
+    adjustedSampleSize,
+    adjustedGroupSizes,
+    attrition,
+    formula: design.formula,
+    assumptions: toAssumptions(assumptions),
+    achievedPower,
+    approximateSampleSize,
+    groupSizes: design.reportGroupSizes ? groupSizes : undefined,
+    designParameters: design.parameters,
+    ...design.details?.(effectSize, sampleSize, solveFor === 'power' ? achievedPower : requirePower(params))
   };
+}
+
+export function calculatePowerCurve(params: PowerCurveParams): PowerCurveResult {
+  const { testType, curveType } = params;
+  const design = buildDesign(testType, params);
+  const points = Math.min(Math.max(Math.round(params.points ?? 25), 2), 100);
 
+  if (curveType === 'sampleSizeByEffect') {
+    const powers = params.powers ?? [requirePower(params)];
+    const reference = params.effectSize;
+    const minEffect = params.minEffectSize ?? (reference !== undefined ? reference / 2 : undefined);
+    const maxEffect = params.maxEffectSize ?? (reference !== undefined ? reference * 2 : undefined);
+    if (minEffect === undefined || maxEffect === undefined) {
+      throw new ValidationError("Sample size curves require an effect size range");
+    }
+
+    const series = powers.map((power, i) => ({ key: `power${i}`, label: `Power ${round(power * 100, 1)}%` }));
+    const data = linearSpace(minEffect, maxEffect, points).map((effect) => {
+      const point: Record<string, number | null> = { x: round(effect, 4) };
+      powers.forEach((power, i) => {
+        point[series[i].key] = tryOrNull(() => solveSampleSize(design, effect, power));
+      });
+      return point;
+    });
+
+    return { curveType, xLabel: "Effect size", yLabel: "Sample size per group", series, data };
+  }
+
+  const effectSizes = params.effectSizes ?? [resolveEffectSize(testType, params)];
+  const weakestEffect = effectSizes.reduce((weakest, e) => Math.abs(e) < Math.abs(weakest) ? e : weakest);
+  const minN = Math.max(params.minSampleSize ?? design.minimumSampleSize, design.minimumSampleSize);
+  // By default extend the axis until the weakest effect reaches 95% power
+  const maxN = params.maxSampleSize
+    ?? Math.min(tryOrNull(() => solveSampleSize(design, weakestEffect, 0.95)) ?? 1000, 10000);
+  if (maxN <= minN) throw new ValidationError("Maximum sample size must exceed the minimum");
+
+  const series = effectSizes.map((effect, i) => ({ key: `effect${i}`, label: `Effect size ${round(effect, 4)}` }));
+  const sampleSizes = Array.from(new Set(linearSpace(minN, maxN, points).map(Math.round)));
+  const data = sampleSizes.map((n) => {
+    const point: Record<string, number | null> = { x: n };
+    effectSizes.forEach((effect, i) => {
+      point[series[i].key] = tryOrNull(() => design.powerAt(n, effect));
+    });
+    return point;
+  });
+
+  return { curveType, xLabel: "Sample size per group", yLabel: "Power", series, data };
+}
+
+// Test types (and aliases) handled by getDesign, lower-cased
+export const SUPPORTED_TEST_TYPES = [
+  'two-sample t-test', 'independent t-test', 'paired t-test', 'dependent t-test', 'crossover t-test', 'ab/ba crossover',
+  'one-way anova', 'proportion test', 'chi-square test', 'chi-square independence test', 'chi-square goodness-of-fit test',
+  'mcnemar test', 'correlation test', 'auc comparison', 'log-rank test', 'survival analysis',
+  'poisson rate test', 'poisson regression', 'negative binomial rate test', 'negative binomial regression',
+  'repeated measures anova', 'longitudinal mixed model', 'multiple linear regression', 'linear regression',
+  'logistic regression', 'mann-whitney test', 'wilcoxon rank-sum test', 'wilcoxon signed-rank test', 'kruskal-wallis test'
+];
+
+export function calculatePrecisionSampleSize(params: PrecisionParams): PrecisionResult {
+  const { target, halfWidth, confidenceLevel = 0.95 } = params;
+  if (!(halfWidth > 0)) throw new ValidationError("Target half-width must be positive");
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) throw new ValidationError("Confidence level must lie between 0 and 1");
+  const tailArea = (1 - confidenceLevel) / 2;
+  const z = inverseNormalCDF(1 - tailArea);
+
+  let halfWidthAt: (n: number) => number;
+  let approximateSampleSize: number | undefined;
   let sampleSize: number;
   let formula: string;
-  let assumptions: string[];
+  let assumptions: (string | Assumption)[];
+  let designParameters: Record<string, unknown>;
 
-  switch (testType.toLowerCase()) {
-    case 'two-sample t-test':
-    case 'independent t-test':
-      const zAlpha = getZScore(alpha);
-      const zBeta = getPowerZScore(power);
-      sampleSize = Math.ceil(2 * Math.pow(zAlpha + zBeta, 2) / Math.pow(effectSize, 2));
-      formula = "n = 2 × (z_α/2 + z_β)² / δ²";
+  switch (target) {
+    case 'mean': {
+      const sd = params.standardDeviation;
+      if (sd === undefined || sd <= 0) throw new ValidationError("A positive standard deviation is required for a mean");
+      halfWidthAt = (n) => tQuantile(1 - tailArea, n - 1) * sd / Math.sqrt(n);
+      sampleSize = findMinimumSampleSize((n) => halfWidthAt(n) <= halfWidth ? 1 : 0, 1, 2);
+      approximateSampleSize = Math.ceil(Math.pow(z * sd / halfWidth, 2));
+      formula = "Smallest n with t_{1-α/2, n-1} × σ / √n ≤ E";
       assumptions = [
-        "Normal distribution",
-        "Equal variances",
-        "Independent observations",
-        "Continuous outcome variable"
+        `Standard deviation σ = ${sd}`,
+        keyed('normality', "t-based interval for a normally distributed outcome"),
+        "Independent observations"
       ];
+      designParameters = { standardDeviation: sd };
       break;
+    }
 
-    case 'paired t-test':
-    case 'dependent t-test':
-      const zAlphaPaired = getZScore(alpha);
-      const zBetaPaired = getPowerZScore(power);
-      sampleSize = Math.ceil(Math.pow(zAlphaPaired + zBetaPaired, 2) / Math.pow(effectSize, 2));
-      formula = "n = (z_α/2 + z_β)² / δ²";
+    case 'proportion': {
+      const p = params.expectedProportion;
+      if (p === undefined || p <= 0 || p >= 1) throw new ValidationError("An expected proportion between 0 and 1 is required");
+      const method = params.intervalMethod ?? 'wilson';
+      if (!(method in PROPORTION_INTERVALS)) throw new ValidationError("Interval method must be wald, wilson or clopperPearson");
+      halfWidthAt = (n) => proportionHalfWidth(p, n, z, tailArea, method);
+      sampleSize = findMinimumSampleSize((n) => halfWidthAt(n) <= halfWidth ? 1 : 0, 1, 2);
+      approximateSampleSize = Math.ceil(z * z * p * (1 - p) / (halfWidth * halfWidth));
+      formula = PROPORTION_INTERVALS[method];
       assumptions = [
-        "Normal distribution of differences",
-        "Paired observations",
-        "Continuous outcome variable"
+        `Expected proportion p = ${p}`,
+        `${PROPORTION_INTERVAL_LABELS[method]} interval evaluated at the expected proportion`,
+        "Simple random sample of independent observations"
       ];
+      designParameters = { expectedProportion: p, intervalMethod: method };
       break;
+    }
 
-    case 'one-way anova':
-      const fEffect = effectSize; // Assuming Cohen's f
-      sampleSize = Math.ceil(calculateANOVASampleSize(fEffect, power, alpha, groups));
-      const dfError = groups * (sampleSize - 1);
-      const fCritical = getFCritical(alpha, groups - 1, dfError);
-      formula = "n = λ / (k × f²) where λ is noncentrality parameter";
+    case 'survey': {
+      const p = params.expectedProportion ?? 0.5;
+      const designEffect = params.designEffect ?? 1;
+      const population = params.populationSize;
+      if (p <= 0 || p >= 1) throw new ValidationError("Expected proportion must lie between 0 and 1");
+      if (designEffect < 1) throw new ValidationError("Design effect must be at least 1");
+      if (population !== undefined && (!Number.isInteger(population) || population < 2)) {
+        throw new ValidationError("Population size must be an integer of at least 2");
+      }
+      // Cochran's sample size with the finite population correction
+      const infinite = z * z * p * (1 - p) * designEffect / (halfWidth * halfWidth);
+      sampleSize = Math.max(2, Math.ceil((population ? infinite / (1 + (infinite - 1) / population) : infinite) - 1e-9));
+      halfWidthAt = (n) => z * Math.sqrt(designEffect * p * (1 - p) / n * (population ? (population - n) / (population - 1) : 1));
+      formula = "n₀ = z² × p(1 - p) × DEFF / E²; n = n₀ / (1 + (n₀ - 1) / N)";
       assumptions = [
-        "Normal distribution within groups",
-        "Equal variances (homoscedasticity)",
-        "Independent observations",
-        "Continuous outcome variable"
+        `Expected proportion p = ${p}${params.expectedProportion === undefined ? ' (conservative)' : ''}`,
+        `Design effect DEFF = ${designEffect}`,
+        population ? `Finite population of N = ${population}` : "Population large relative to the sample",
+        "Wald interval for the survey proportion"
       ];
+      designParameters = { expectedProportion: p, designEffect, populationSize: population };
       break;
+    }
 
-    case 'proportion test':
-    case 'chi-square test':
-      const p1 = 0.5; // Assumed baseline proportion
-      const p2 = p1 + effectSize; // Effect as difference in proportions
-      const pooledP = (p1 + p2) / 2;
-      const zAlphaProp = getZScore(alpha);
-      const zBetaProp = getPowerZScore(power);
-      
-      sampleSize = Math.ceil(
-        2 * pooledP * (1 - pooledP) * Math.pow(zAlphaProp + zBetaProp, 2) / Math.pow(p2 - p1, 2)
+    case 'diagnostic': {
+      const { expectedSensitivity: se, expectedSpecificity: sp, prevalence } = params;
+      if (se === undefined || se <= 0 || se >= 1) throw new ValidationError("An expected sensitivity between 0 and 1 is required");
+      if (sp === undefined || sp <= 0 || sp >= 1) throw new ValidationError("An expected specificity between 0 and 1 is required");
+      if (prevalence === undefined || prevalence <= 0 || prevalence >= 1) throw new ValidationError("A prevalence between 0 and 1 is required");
+      // Buderer (1996): enough cases for sensitivity and enough non-cases for specificity
+      const cases = Math.ceil(z * z * se * (1 - se) / (halfWidth * halfWidth) - 1e-9);
+      const nonCases = Math.ceil(z * z * sp * (1 - sp) / (halfWidth * halfWidth) - 1e-9);
+      const forSensitivity = Math.ceil(cases / prevalence - 1e-9);
+      const forSpecificity = Math.ceil(nonCases / (1 - prevalence) - 1e-9);
+      sampleSize = Math.max(forSensitivity, forSpecificity, 2);
+      halfWidthAt = (n) => z * Math.max(
+        Math.sqrt(se * (1 - se) / (n * prevalence)),
+        Math.sqrt(sp * (1 - sp) / (n * (1 - prevalence)))
       );
-      formula = "n = 2 × p̄(1-p̄) × (z_α/2 + z_β)² / (p₂-p₁)²";
+      formula = "N = max(z² × Se(1 - Se) / (E² × P), z² × Sp(1 - Sp) / (E² × (1 - P)))";
       assumptions = [
-        "Binary outcome variable",
-        "Independent observations",
-        "Adequate expected frequencies (≥5 per cell)"
+        `Expected sensitivity ${se} and specificity ${sp}`,
+        `Disease prevalence P = ${prevalence} in the consecutive sample`,
+        `Sample size driven by ${forSensitivity >= forSpecificity ? 'sensitivity' : 'specificity'}`,
+        "Wald intervals; reference standard applied to every participant"
       ];
+      designParameters = {
+        expectedSensitivity: se,
+        expectedSpecificity: sp,
+        prevalence,
+        casesRequired: cases,
+        nonCasesRequired: nonCases,
+        sampleSizeForSensitivity: forSensitivity,
+        sampleSizeForSpecificity: forSpecificity
+      };
       break;
+    }
 
-    case 'correlation test':
-      const r = effectSize; // Correlation coefficient
-      const zR = 0.5 * Math.log((1 + r) / (1 - r)); // Fisher's z-transformation
-      const zAlphaCorr = getZScore(alpha);
-      const zBetaCorr = getPowerZScore(power);
-      
-      sampleSize = Math.ceil(Math.pow(zAlphaCorr + zBetaCorr, 2) / Math.pow(zR, 2) + 3);
-      formula = "n = (z_α/2 + z_β)² / z_r² + 3";
+    default:
+      throw new ValidationError(`Unsupported precision target: ${target}`);
+  }
+
+  const attrition = resolveAttrition(params, 1);
+  return {
+    target,
+    sampleSize,
+    adjustedSampleSize: Math.ceil(sampleSize / (1 - attrition.dropoutRate) - 1e-9),
+    attrition,
+    achievedHalfWidth: round(halfWidthAt(sampleSize), 6),
+    approximateSampleSize,
+    formula,
+    assumptions: toAssumptions([
+      `${round(confidenceLevel * 100, 2)}% confidence interval with half-width E = ${halfWidth}`,
+      ...assumptions,
+      describeAttrition(attrition)
+    ]),
+    designParameters: { ...designParameters, confidenceLevel, halfWidth }
+  };
+}
+
+const PROPORTION_INTERVALS: Record<ProportionInterval, string> = {
+  wald: "n = z² × p(1 - p) / E²",
+  wilson: "Smallest n with z / (1 + z²/n) × √(p(1 - p)/n + z²/(4n²)) ≤ E",
+  clopperPearson: "Smallest n with (B⁻¹(1 - α/2; x + 1, n - x) - B⁻¹(α/2; x, n - x + 1)) / 2 ≤ E, x = n·p"
+};
+
+const PROPORTION_INTERVAL_LABELS: Record<ProportionInterval, string> = {
+  wald: 'Wald',
+  wilson: 'Wilson score',
+  clopperPearson: 'Clopper-Pearson exact'
+};
+
+function proportionHalfWidth(p: number, n: number, z: number, tailArea: number, method: ProportionInterval): number {
+  switch (method) {
+    case 'wald':
+      return z * Math.sqrt(p * (1 - p) / n);
+    case 'wilson':
+      return z / (1 + z * z / n) * Math.sqrt(p * (1 - p) / n + z * z / (4 * n * n));
+    case 'clopperPearson': {
+      // Expected successes need not be whole; the beta quantiles extend smoothly
+      const x = n * p;
+      const lower = betaQuantile(tailArea, x, n - x + 1);
+      const upper = betaQuantile(1 - tailArea, x + 1, n - x);
+      return (upper - lower) / 2;
+    }
+  }
+}
+
+// The analysis prior defaults to a vague N(0, 10²) on Cohen's d so that the data,
+// not the design prior, decide success
+const VAGUE_ANALYSIS_PRIOR_SD = 10;
+
+export function calculateBayesianSampleSize(params: BayesianParams): BayesianResult {
+  const { criterion, testType, priorMean, priorSd, targetProbability = 0.8 } = params;
+  if (!(priorSd > 0)) throw new ValidationError("Prior standard deviation must be positive");
+  if (!(targetProbability > 0 && targetProbability < 1)) throw new ValidationError("Target probability must lie between 0 and 1");
+  const vagueAnalysisPrior = params.analysisPriorMean === undefined && params.analysisPriorSd === undefined;
+  const analysisMean = params.analysisPriorMean ?? 0;
+  const analysisSd = params.analysisPriorSd ?? VAGUE_ANALYSIS_PRIOR_SD;
+  if (!(analysisSd > 0)) throw new ValidationError("Analysis prior standard deviation must be positive");
+
+  let sampleSize: number;
+  let groupSizes: (n: number) => number[];
+  let achievedProbability: number | undefined;
+  let achievedWidth: number | undefined;
+  let frequentistSampleSize: number | undefined;
+  let formula: string;
+  let assumptions: (string | Assumption)[];
+  let designParameters: Record<string, unknown>;
+
+  if (criterion === 'assurance') {
+    if (priorMean === undefined) throw new ValidationError("A prior mean is required for assurance");
+    const alpha = params.alpha ?? 0.05;
+    const designParams = { ...params, alpha };
+    const design = buildDesign(testType, designParams);
+    const assuranceAt = (n: number) => normalPriorExpectation(priorMean, priorSd, (effect) => design.powerAt(n, effect));
+
+    sampleSize = findMinimumSampleSize((n) => assuranceAt(n).value, targetProbability, design.minimumSampleSize);
+    const { value, coverage } = assuranceAt(sampleSize);
+    achievedProbability = round(value, 6);
+    frequentistSampleSize = tryOrNull(() => solveSampleSize(design, priorMean, targetProbability)) ?? undefined;
+    groupSizes = design.groupSizes;
+    formula = `Assurance = ∫ Power(n, δ) φ(δ; μ₀, τ₀²) dδ ≥ ${targetProbability}; power: ${design.formula}`;
+    assumptions = [
+      `Normal design prior on the effect size: mean ${priorMean}, SD ${priorSd}`,
+      `Assurance counts any significant result of the α = ${alpha} test`,
+      ...(coverage < 0.999 ? [`Prior truncated to valid effect sizes (${round(coverage * 100, 1)}% of its mass)`] : []),
+      ...design.assumptions
+    ];
+    designParameters = { ...design.parameters, alpha };
+  } else {
+    const normalizedTestType = testType.toLowerCase();
+    if (!['two-sample t-test', 'independent t-test', 'paired t-test', 'dependent t-test'].includes(normalizedTestType)) {
+      throw new ValidationError("Posterior probability and credible interval designs support two-sample and paired t-tests");
+    }
+    const paired = ['paired t-test', 'dependent t-test'].includes(normalizedTestType);
+    // Sampling variance of the standardised effect estimate is v / n per group
+    const v = paired ? 1 : 2;
+    const analysisPrecision = 1 / (analysisSd * analysisSd);
+    groupSizes = (n) => paired ? [n] : [n, n];
+    const analysisPrior = `${vagueAnalysisPrior ? 'Vague n' : 'N'}ormal analysis prior: mean ${analysisMean}, SD ${analysisSd}`;
+
+    if (criterion === 'posteriorProbability') {
+      if (priorMean === undefined) throw new ValidationError("A prior mean is required for the probability of success");
+      const threshold = params.posteriorThreshold ?? 0.975;
+      if (!(threshold > 0 && threshold < 1)) throw new ValidationError("Posterior probability threshold must lie between 0 and 1");
+      const priorProbability = 1 - normalCDF(-analysisMean / analysisSd);
+      if (priorProbability >= threshold) {
+        throw new ValidationError(
+          `The analysis prior alone gives P(δ > 0) = ${round(priorProbability, 4)}, meeting the threshold without data; use a less informative analysis prior`
+        );
+      }
+      const zThreshold = inverseNormalCDF(threshold);
+      // Success when P(δ > 0 | data) ≥ η, i.e. when the estimate clears c_n
+      const successAt = (n: number) => {
+        const cutoff = (zThreshold * Math.sqrt(analysisPrecision + n / v) - analysisMean * analysisPrecision) * v / n;
+        const se = Math.sqrt(v / n);
+        return normalPriorExpectation(priorMean, priorSd, (effect) => 1 - normalCDF((cutoff - effect) / se)).value;
+      };
+      const ceiling = 1 - normalCDF(-priorMean / priorSd);
+      if (targetProbability >= ceiling) {
+        throw new ValidationError(`Target probability of success must be below the prior probability of a positive effect (${round(ceiling, 4)})`);
+      }
+
+      sampleSize = findMinimumSampleSize(successAt, targetProbability, 2);
+      achievedProbability = round(successAt(sampleSize), 6);
+      formula = `PoS = ∫ P(δ̂ ≥ c_n | δ) φ(δ; μ₀, τ₀²) dδ ≥ ${targetProbability}, where c_n makes P(δ > 0 | δ̂) = ${threshold}`;
       assumptions = [
-        "Bivariate normal distribution",
-        "Linear relationship",
-        "Independent observations",
-        "Continuous variables"
+        `Normal design prior on Cohen's d: mean ${priorMean}, SD ${priorSd}`,
+        analysisPrior,
+        `Success declared when P(δ > 0 | data) ≥ ${threshold}`
       ];
+      designParameters = { posteriorThreshold: threshold };
+    } else if (criterion === 'credibleInterval') {
+      const width = params.intervalWidth;
+      const level = params.credibleLevel ?? 0.95;
+      if (width === undefined || width <= 0) throw new ValidationError("A positive credible interval width is required");
+      if (!(level > 0 && level < 1)) throw new ValidationError("Credible level must lie between 0 and 1");
+      const z = inverseNormalCDF(1 - (1 - level) / 2);
+      // The conjugate posterior SD does not depend on the data, so n follows directly
+      const widthAt = (n: number) => 2 * z / Math.sqrt(analysisPrecision + n / v);
+      sampleSize = Math.max(2, Math.ceil(v * (Math.pow(2 * z / width, 2) - analysisPrecision) - 1e-9));
+      achievedWidth = round(widthAt(sampleSize), 6);
+      formula = `n = v × ((2z / W)² - 1/τ²), from W = 2z / √(1/τ² + n/v), v = ${v}`;
+      assumptions = [analysisPrior, `${round(level * 100, 2)}% credible interval of width W = ${width} in Cohen's d units`];
+      designParameters = { intervalWidth: width, credibleLevel: level };
+    } else {
+      throw new ValidationError("Criterion must be assurance, posteriorProbability or credibleInterval");
+    }
+
+    assumptions.push(keyed('normality', paired ? "Normal differences with known SD; effect in Cohen's d_z" : "Normal outcomes with a common known SD; effect in Cohen's d"));
+  }
+
+  const sizes = groupSizes(sampleSize);
+  const attrition = resolveAttrition(params, sizes.length);
+  const armDropout = attrition.armDropoutRates ?? sizes.map(() => attrition.dropoutRate);
+  const adjustedGroupSizes = sizes.map((n, i) => Math.ceil(n / (1 - armDropout[i]) - 1e-9));
+
+  return {
+    criterion,
+    sampleSize,
+    totalSampleSize: sizes.reduce((sum, n) => sum + n, 0),
+    adjustedSampleSize: adjustedGroupSizes.reduce((sum, n) => sum + n, 0),
+    adjustedGroupSizes,
+    attrition,
+    achievedProbability,
+    achievedWidth,
+    frequentistSampleSize,
+    formula,
+    assumptions: toAssumptions([...assumptions, describeAttrition(attrition)]),
+    designParameters: {
+      ...designParameters,
+      criterion,
+      priorMean,
+      priorSd,
+      analysisPriorMean: analysisMean,
+      analysisPriorSd: analysisSd,
+      targetProbability: criterion === 'credibleInterval' ? undefined : targetProbability
+    }
+  };
+}
+
+// Expectation over a normal prior by Simpson's rule on ±6 SD; effects where f is
+// undefined (e.g. non-positive ratios) are dropped and the prior renormalised
+function normalPriorExpectation(mean: number, sd: number, f: (effect: number) => number): { value: number; coverage: number } {
+  const intervals = 120;
+  const step = 12 / intervals;
+  let total = 0;
+  let weightSum = 0;
+  let validWeight = 0;
+  for (let i = 0; i <= intervals; i++) {
+    const z = -6 + i * step;
+    const weight = (i === 0 || i === intervals ? 1 : i % 2 === 1 ? 4 : 2) * Math.exp(-z * z / 2);
+    weightSum += weight;
+    const value = tryOrNull(() => f(mean + z * sd));
+    if (value === null) continue;
+    total += weight * value;
+    validWeight += weight;
+  }
+  if (validWeight === 0) throw new ValidationError("The prior places no mass on valid effect sizes");
+  return { value: total / validWeight, coverage: validWeight / weightSum };
+}
+
+const MULTIPLICITY_LABELS: Record<MultiplicityMethod, string> = {
+  bonferroni: 'Bonferroni',
+  holm: 'Holm step-down',
+  hochberg: 'Hochberg step-up',
+  dunnett: 'Dunnett many-to-one'
+};
+
+// Sizes each endpoint at its adjusted alpha; the endpoint needing the most
+// participants determines the study size
+function calculateMultipleEndpoints(params: SampleSizeParams): SampleSizeResult {
+  const { endpoints: listed, comparisons, multiplicityMethod: method = 'bonferroni', alpha, ...shared } = params;
+  if ((shared.solveFor ?? 'sampleSize') !== 'sampleSize') {
+    throw new ValidationError("Multiplicity adjustment is only available when solving for sample size");
+  }
+  if (!(method in MULTIPLICITY_LABELS)) throw new ValidationError("Multiplicity method must be bonferroni, holm, hochberg or dunnett");
+  if (comparisons !== undefined && (!Number.isInteger(comparisons) || comparisons < 1 || comparisons > 20)) {
+    throw new ValidationError("Number of comparisons must be an integer between 1 and 20");
+  }
+  if (listed && listed.length > 20) throw new ValidationError("At most 20 endpoints can be adjusted together");
+
+  const endpoints: EndpointParams[] = listed?.length
+    ? listed
+    : Array.from({ length: comparisons ?? 1 }, (_, i) => ({ name: `Comparison ${i + 1}` }));
+  const count = endpoints.length;
+  const endpointParams = endpoints.map(({ name, ...overrides }) => ({ ...shared, ...overrides, alpha }));
+
+  let adjustedAlphas: number[];
+  let dunnettCorrelation: number | undefined;
+  switch (method) {
+    case 'dunnett': {
+      // Comparisons sharing a control arm correlate at r / (1 + r) for allocation ratio r
+      const ratio = shared.allocationRatio ?? 1;
+      dunnettCorrelation = round(ratio / (1 + ratio), 4);
+      const critical = dunnettQuantile(1 - alpha, count, ratio / (1 + ratio));
+      adjustedAlphas = endpoints.map(() => 2 * (1 - normalCDF(critical)));
       break;
+    }
+    case 'holm':
+    case 'hochberg':
+    // Which endpoint meets which step-down/step-up critical value depends on the
+    // observed p-values, so each endpoint is sized at the first step, α / m.
+    // Holm and Hochberg reject whatever Bonferroni rejects, so this is conservative
+    case 'bonferroni':
+    default:
+      adjustedAlphas = endpoints.map(() => alpha / count);
+  }
+
+  const results = endpointParams.map((endpoint, i) => calculateSampleSize({ ...endpoint, alpha: adjustedAlphas[i] }));
+  const driving = results.reduce((most, result, i) => result.adjustedSampleSize > results[most].adjustedSampleSize ? i : most, 0);
+  const drivingResult = results[driving];
+
+  return {
+    ...drivingResult,
+    assumptions: toAssumptions([
+      `${MULTIPLICITY_LABELS[method]} adjustment of family-wise α = ${alpha} across ${count} ${listed?.length ? 'endpoints' : 'comparisons'}`,
+      ...(method === 'holm' || method === 'hochberg'
+        ? [`Each endpoint sized conservatively at α / m = ${round(alpha / count, 6)}, the ${MULTIPLICITY_LABELS[method]} procedure's smallest critical value`]
+        : []),
+      `Sample size driven by ${endpoints[driving].name} at adjusted α = ${round(adjustedAlphas[driving], 6)}`,
+      ...drivingResult.assumptions
+    ]),
+    multiplicity: {
+      method,
+      familyAlpha: alpha,
+      drivingEndpoint: endpoints[driving].name,
+      dunnettCorrelation,
+      planningNote: method === 'dunnett'
+        ? undefined
+        : `Planned at α / m = ${round(alpha / count, 6)}; Holm and Hochberg reject at least what Bonferroni rejects, so any of the three can be used at analysis`,
+      endpoints: results.map((result, i) => ({
+        name: endpoints[i].name,
+        testType: endpointParams[i].testType,
+        alpha: round(adjustedAlphas[i], 6),
+        effectSize: result.effectSize,
+        sampleSize: result.sampleSize,
+        totalSampleSize: result.totalSampleSize,
+        adjustedSampleSize: result.adjustedSampleSize,
+        achievedPower: result.achievedPower
+      }))
+    }
+  };
+}
+
+// Wraps the base design in the optional baseline, clustering and interim-analysis layers
+function buildDesign(testType: string, params: SampleSizeParams): PowerDesign {
+  if (!(params.alpha > 0 && params.alpha < 1)) throw new ValidationError("Alpha must lie between 0 and 1");
+  return applyGroupSequential(applyClustering(applyBaselineAdjustment(getDesign(testType, params), params), params), params);
+}
+
+function getDesign(testType: string, params: SampleSizeParams): PowerDesign {
+  const { alpha, groups = 2, hypothesisType = 'superiority' } = params;
+  if (hypothesisType !== 'superiority') {
+    if (!(hypothesisType in HYPOTHESIS_STATEMENTS)) {
+      throw new ValidationError("Hypothesis type must be superiority, nonInferiority, superiorityByMargin or equivalence");
+    }
+    return getMarginDesign(testType, hypothesisType, params);
+  }
+
+  // Two-sided critical value and power quantile of the standard normal
+  const zAlpha = inverseNormalCDF(1 - alpha / 2);
+  const getPowerZScore = (power: number): number => inverseNormalCDF(power);
+
+  switch (testType.toLowerCase()) {
+    case 'paired t-test':
+    case 'dependent t-test':
+      return {
+        powerAt: (n, effect) => tTestPower(n, effect, alpha, true),
+        minimumSampleSize: 2,
+        effectSearchRange: [1e-6, 10],
+        approximateSampleSize: (effect, power) =>
+          Math.ceil(Math.pow(zAlpha + getPowerZScore(power), 2) / Math.pow(effect, 2)),
+        groupSizes: (n) => [n],
+        formula: "Power = 1 - T(t_crit; df, λ) + T(-t_crit; df, λ), where df = n - 1, λ = δ√n",
+        assumptions: [
+          keyed('normality', "Normal distribution of differences"),
+          "Paired observations",
+          keyed('continuousOutcome', "Continuous outcome variable")
+        ]
+      };
+
+    case 'crossover t-test':
+    case 'ab/ba crossover':
+      // Period differences compared between sequences remove the period effect
+      return {
+        powerAt: (n, effect) => crossoverPower(n, effect, alpha),
+        minimumSampleSize: 2,
+        effectSearchRange: [1e-6, 10],
+        approximateSampleSize: (effect, power) =>
+          Math.ceil(Math.pow(zAlpha + getPowerZScore(power), 2) / Math.pow(effect, 2)),
+        groupSizes: (n) => [n, n],
+        parameters: { meanDifference: params.meanDifference, withinSubjectSd: params.withinSubjectSd },
+        formula: "Power = 1 - T(t_crit; df, λ) + T(-t_crit; df, λ), where df = 2n - 2, λ = (Δ / σ_w)√n, n per sequence",
+        assumptions: [
+          "Effect size is the treatment difference over the within-subject SD σ_w",
+          "Two-period AB/BA crossover with equal sequence sizes",
+          "Fixed period effect removed by the sequence comparison of period differences",
+          "No carryover effect (adequate washout)",
+          "Normal within-subject errors"
+        ]
+      };
+
+    case 'one-way anova':
+      if (!Number.isInteger(groups) || groups < 2) {
+        throw new ValidationError("One-way ANOVA requires an integer number of groups of at least 2");
+      }
+      return {
+        powerAt: (n, effect) => anovaPower(n, effect, alpha, groups),
+        minimumSampleSize: 2,
+        allowsClustering: true,
+        allowsBaselineAdjustment: true,
+        effectSearchRange: [1e-6, 10],
+        groupSizes: (n) => Array(groups).fill(n),
+        formula: `Power = 1 - F(F_crit; ${groups - 1}, k(n - 1), λ), where λ = f² × k × n and k = ${groups}`,
+        assumptions: [
+          "Effect size is Cohen's f (SD of group means / common within-group SD)",
+          keyed('equalGroupSizes', "Equal group sizes"),
+          keyed('normality', "Normal distribution within groups"),
+          keyed('equalVariances', "Equal variances (homoscedasticity)"),
+          "Independent observations",
+          keyed('continuousOutcome', "Continuous outcome variable")
+        ]
+      };
+
+    case 'proportion test':
+      const p1 = params.baselineProportion;
+      if (p1 === undefined || p1 <= 0 || p1 >= 1) {
+        throw new ValidationError("Proportion tests require a control proportion between 0 and 1");
+      }
+      const ratio = params.allocationRatio ?? 1;
+      const method = params.proportionMethod ?? 'pooled';
+      if (ratio <= 0) throw new ValidationError("Allocation ratio must be positive");
+      if (!(method in PROPORTION_FORMULAS)) throw new ValidationError("Proportion method must be pooled, unpooled or arcsine");
+
+      // The effect is the risk difference p2 - p1; its sign sets the search direction
+      const direction = proportionEffectDirection(params);
+      const room = direction > 0 ? 1 - p1 : p1;
+      return {
+        powerAt: (n, effect) => proportionPower(p1, p1 + effect, n, Math.ceil(ratio * n), method, alpha),
+        minimumSampleSize: 2,
+        allowsClustering: true,
+        effectSearchRange: [direction * 1e-6, direction * (room - 1e-6)],
+        closedFormSampleSize: (effect, power) =>
+          proportionControlSampleSize(p1, p1 + effect, ratio, method, zAlpha, getPowerZScore(power)),
+        groupSizes: (n) => [n, Math.ceil(ratio * n)],
+        reportGroupSizes: true,
+        details: (effect) => ({ treatmentProportion: p1 + effect }),
+        describeEffect: (effect) => `Control proportion p₁ = ${p1}, treatment proportion p₂ = ${round(p1 + effect, 4)}`,
+        formula: PROPORTION_FORMULAS[method],
+        assumptions: [
+          `Allocation ratio n₂/n₁ = ${ratio}`,
+          keyed('binaryOutcome', "Binary outcome variable"),
+          "Independent observations",
+          "Adequate expected frequencies (≥5 per cell)"
+        ]
+      };
+
+    case 'chi-square test':
+    case 'chi-square independence test':
+    case 'chi-square goodness-of-fit test':
+      const goodnessOfFit = testType.toLowerCase() === 'chi-square goodness-of-fit test';
+      const table = resolveContingencyTable(params, goodnessOfFit);
+      return {
+        powerAt: (n, effect) => chiSquarePower(n, effect, alpha, table.df),
+        minimumSampleSize: 2,
+        effectSearchRange: [1e-6, 10],
+        groupSizes: (n) => [n],
+        parameters: goodnessOfFit
+          ? { categories: table.columns, nullProportions: params.nullProportions, cellProportions: params.cellProportions }
+          : { tableRows: table.rows, tableColumns: table.columns, cellProportions: params.cellProportions },
+        formula: `Power = 1 - χ²(χ²_crit; df, λ), where λ = w² × N, df = ${table.df}`,
+        assumptions: [
+          "Effect size is Cohen's w = √Σ (p₁ - p₀)² / p₀",
+          goodnessOfFit
+            ? `Goodness of fit over ${table.columns} categories, ${params.nullProportions ? 'specified' : 'uniform'} null proportions`
+            : `Test of independence in a ${table.rows} × ${table.columns} table`,
+          "Multinomial sampling of independent observations",
+          "Adequate expected frequencies (≥5 per cell)"
+        ]
+      };
+
+    case 'mcnemar test':
+      const discordance = resolveDiscordance(params);
+      const discordantDirection = (params.discordantProportion10 ?? 1) >= (params.discordantProportion01 ?? 0) ? 1 : -1;
+      return {
+        powerAt: (n, effect) => mcnemarPower(n, effect, discordance, alpha),
+        minimumSampleSize: 2,
+        effectSearchRange: [discordantDirection * 1e-6, discordantDirection * (discordance - 1e-6)],
+        closedFormSampleSize: (effect, power) => Math.max(2, Math.ceil(Math.pow(
+          zAlpha * Math.sqrt(discordance) + getPowerZScore(power) * Math.sqrt(discordance - effect * effect), 2
+        ) / (effect * effect))),
+        groupSizes: (n) => [n],
+        describeEffect: (effect) =>
+          `Discordant proportions p₁₀ = ${round((discordance + effect) / 2, 4)}, p₀₁ = ${round((discordance - effect) / 2, 4)}`,
+        parameters: { discordantProportion: discordance },
+        formula: "n = [z_α/2·√p_d + z_β·√(p_d - δ²)]² / δ², where δ = p₁₀ - p₀₁ and p_d = p₁₀ + p₀₁",
+        assumptions: [
+          keyed('binaryOutcome', "Paired binary outcomes; sample size counts pairs"),
+          `Total discordant proportion p_d = ${round(discordance, 4)}`,
+          "Unconditional normal approximation (Connor, 1987)",
+          "Independent pairs"
+        ]
+      };
+
+    case 'log-rank test':
+    case 'survival analysis':
+      const survivalMethod = params.survivalMethod ?? 'schoenfeld';
+      const survivalRatio = params.allocationRatio ?? 1;
+      if (survivalRatio <= 0) throw new ValidationError("Allocation ratio must be positive");
+      const controlHazard = resolveControlHazard(params);
+      const accrual = params.accrualPeriod ?? 0;
+      const followUp = params.followUpPeriod ?? 0;
+      if (accrual < 0 || followUp < 0 || accrual + followUp <= 0) {
+        throw new ValidationError("Accrual and follow-up periods must be non-negative and not both zero");
+      }
+      const lossRate = params.lossToFollowUpRate ?? 0;
+      if (lossRate < 0 || lossRate >= 1) throw new ValidationError("Loss to follow-up rate must lie in [0, 1)");
+      const lossHazard = -Math.log(1 - lossRate);
+
+      const eventProbability = (hazardRatio: number) => {
+        const control = exponentialEventProbability(controlHazard, lossHazard, accrual, followUp);
+        const treatment = exponentialEventProbability(controlHazard * hazardRatio, lossHazard, accrual, followUp);
+        return { control, treatment };
+      };
+      const expectedEvents = (n: number, hazardRatio: number) => {
+        const { control, treatment } = eventProbability(hazardRatio);
+        return n * control + Math.ceil(survivalRatio * n) * treatment;
+      };
+      const survivalDirection = (params.hazardRatio ?? params.effectSize ?? 0.5) > 1 ? 1 : -1;
+
+      return {
+        powerAt: (n, effect) =>
+          logRankPower(expectedEvents(n, effect), effect, survivalRatio, survivalMethod, alpha),
+        minimumSampleSize: 2,
+        allowsClustering: true,
+        effectSearchRange: survivalDirection > 0 ? [1 + 1e-6, 100] : [1 - 1e-6, 1e-3],
+        closedFormSampleSize: (effect, power) => {
+          const events = logRankEvents(effect, survivalRatio, survivalMethod, zAlpha, getPowerZScore(power));
+          const { control, treatment } = eventProbability(effect);
+          const averageProbability = (control + survivalRatio * treatment) / (1 + survivalRatio);
+          return Math.max(2, Math.ceil(events / averageProbability / (1 + survivalRatio)));
+        },
+        groupSizes: (n) => [n, Math.ceil(survivalRatio * n)],
+        reportGroupSizes: true,
+        details: (effect, n, power) => ({
+          requiredEvents: Math.ceil(logRankEvents(effect, survivalRatio, survivalMethod, zAlpha, getPowerZScore(power))),
+          expectedEvents: Math.round(expectedEvents(n, effect) * 10) / 10
+        }),
+        describeEffect: (effect) => `Hazard ratio = ${round(effect, 4)} (treatment vs. control)`,
+        parameters: {
+          survivalMethod,
+          allocationRatio: survivalRatio,
+          controlMedianSurvival: params.controlMedianSurvival,
+          controlEventRate: params.controlEventRate,
+          controlHazard: round(controlHazard, 6),
+          accrualPeriod: accrual,
+          followUpPeriod: followUp,
+          lossToFollowUpRate: lossRate
+        },
+        formula: SURVIVAL_FORMULAS[survivalMethod],
+        assumptions: [
+          "Proportional hazards",
+          "Exponential survival in each arm",
+          `Uniform accrual over ${accrual} time units followed by ${followUp} units of additional follow-up`,
+          `Loss to follow-up of ${lossRate * 100}% per time unit, independent of the event process`,
+          `Allocation ratio n₂/n₁ = ${survivalRatio}`,
+          "Independent observations"
+        ]
+      };
+
+    case 'poisson rate test':
+    case 'poisson regression':
+    case 'negative binomial rate test':
+    case 'negative binomial regression':
+      const isNegativeBinomial = testType.toLowerCase().startsWith('negative binomial');
+      const countRatio = params.allocationRatio ?? 1;
+      if (countRatio <= 0) throw new ValidationError("Allocation ratio must be positive");
+      const baselineRate = params.baselineRate;
+      if (baselineRate === undefined || !(baselineRate > 0)) throw new ValidationError("A positive baseline event rate is required");
+      const exposureTime = params.exposureTime ?? 1;
+      if (exposureTime <= 0) throw new ValidationError("Exposure time must be positive");
+      const overdispersion = isNegativeBinomial ? params.overdispersion : 0;
+      if (overdispersion === undefined || !(overdispersion >= 0)) {
+        throw new ValidationError("A non-negative overdispersion parameter is required for negative binomial designs");
+      }
+
+      // Variance of the log rate ratio for one control participant (Zhu and Lakkis, 2014)
+      const logRateVariance = (rateRatio: number) =>
+        1 / (exposureTime * baselineRate)
+        + 1 / (countRatio * exposureTime * baselineRate * rateRatio)
+        + overdispersion * (1 + countRatio) / countRatio;
+      const countDirection = (params.rateRatio ?? params.effectSize ?? 0.5) > 1 ? 1 : -1;
+
+      return {
+        powerAt: (n, effect) =>
+          normalCDF(Math.sqrt(n / logRateVariance(effect)) * Math.abs(Math.log(effect)) - zAlpha),
+        minimumSampleSize: 2,
+        allowsClustering: true,
+        // Below RR = e⁻² the treatment-arm Poisson variance outgrows the log effect, so power stops rising
+        effectSearchRange: countDirection > 0 ? [1 + 1e-6, 100] : [1 - 1e-6, Math.exp(-2)],
+        closedFormSampleSize: (effect, power) => Math.max(2, Math.ceil(
+          Math.pow(zAlpha + getPowerZScore(power), 2) * logRateVariance(effect) / Math.pow(Math.log(effect), 2)
+        )),
+        groupSizes: (n) => [n, Math.ceil(countRatio * n)],
+        reportGroupSizes: true,
+        details: (effect, n) => ({
+          expectedEvents: round(exposureTime * baselineRate * (n + Math.ceil(countRatio * n) * effect), 1)
+        }),
+        describeEffect: (effect) => `Rate ratio = ${round(effect, 4)} (treatment vs. control)`,
+        parameters: {
+          baselineRate,
+          exposureTime,
+          overdispersion: isNegativeBinomial ? overdispersion : undefined,
+          allocationRatio: countRatio
+        },
+        formula: COUNT_FORMULAS[isNegativeBinomial ? 'negativeBinomial' : 'poisson'],
+        assumptions: [
+          isNegativeBinomial
+            ? `Negative binomial counts with overdispersion k = ${overdispersion} (Var = μ + kμ²)`
+            : "Poisson counts (variance equal to the mean)",
+          `Control rate λ₀ = ${baselineRate} events per time unit over an exposure of ${exposureTime} time units`,
+          "Wald test on the log rate ratio",
+          `Allocation ratio n₂/n₁ = ${countRatio}`,
+          "Independent participants with equal exposure"
+        ]
+      };
+
+    case 'repeated measures anova':
+      const rmGroups = params.groups ?? 1;
+      const rm = resolveRepeatedMeasures(params);
+      const rmEffect = params.repeatedMeasuresEffect ?? 'within';
+      if (!(rmEffect in REPEATED_MEASURES_FORMULAS)) {
+        throw new ValidationError("Repeated-measures effect must be between, within or interaction");
+      }
+      if (!Number.isInteger(rmGroups) || rmGroups < (rmEffect === 'within' ? 1 : 2)) {
+        throw new ValidationError(`Repeated-measures ${rmEffect} effects require an integer number of groups of at least ${rmEffect === 'within' ? 1 : 2}`);
+      }
+      return {
+        powerAt: (n, effect) => repeatedMeasuresPower(n, effect, alpha, rmGroups, rm, rmEffect),
+        minimumSampleSize: 2,
+        effectSearchRange: [1e-6, 10],
+        groupSizes: (n) => Array(rmGroups).fill(n),
+        parameters: { repeatedMeasuresEffect: rmEffect, groups: rmGroups, ...rm },
+        formula: REPEATED_MEASURES_FORMULAS[rmEffect],
+        assumptions: [
+          `Effect size is Cohen's f for the ${rmEffect === 'between' ? 'between-subjects' : rmEffect === 'within' ? 'within-subjects' : 'group × time interaction'} effect`,
+          `${rmGroups} group(s) of equal size, m = ${rm.measurements} measurements per subject`,
+          `Correlation among repeated measures ρ = ${rm.correlation}`,
+          `Sphericity correction ε = ${rm.epsilon}`,
+          keyed('normality', "Multivariate normal repeated measures"),
+          "Independent subjects"
+        ]
+      };
+
+    case 'longitudinal mixed model':
+      const longitudinal = resolveRepeatedMeasures(params);
+      const longitudinalEffect = params.longitudinalEffect ?? 'timeAveraged';
+      // Variance of the subject-level summary relative to a single measurement (Diggle et al., 2002)
+      const m = longitudinal.measurements;
+      const varianceFactor = longitudinalEffect === 'slope'
+        ? 12 * (1 - longitudinal.correlation) / (m * (m * m - 1))
+        : (1 + (m - 1) * longitudinal.correlation) / m;
+      return {
+        powerAt: (n, effect) => normalCDF(Math.abs(effect) * Math.sqrt(n / (2 * varianceFactor)) - zAlpha),
+        minimumSampleSize: 2,
+        effectSearchRange: [1e-6, 10],
+        closedFormSampleSize: (effect, power) =>
+          Math.max(2, Math.ceil(2 * varianceFactor * Math.pow(zAlpha + getPowerZScore(power), 2) / Math.pow(effect, 2))),
+        groupSizes: (n) => [n, n],
+        parameters: { longitudinalEffect, measurements: m, correlation: longitudinal.correlation },
+        formula: LONGITUDINAL_FORMULAS[longitudinalEffect],
+        assumptions: [
+          longitudinalEffect === 'slope'
+            ? "Effect size is the difference in slopes per measurement interval in SD units"
+            : "Effect size is the difference in time-averaged means in SD units (Cohen's d)",
+          `m = ${m} equally spaced measurements per subject`,
+          `Compound symmetry with correlation ρ = ${longitudinal.correlation}`,
+          "Two groups of equal size, no missing measurements",
+          keyed('normality', "Normally distributed outcomes")
+        ]
+      };
+
+    case 'multiple linear regression':
+    case 'linear regression':
+      const predictors = params.predictors ?? 1;
+      const tested = params.testedPredictors ?? predictors;
+      if (!Number.isInteger(predictors) || !Number.isInteger(tested) || tested < 1 || tested > predictors) {
+        throw new ValidationError("Regression requires integer predictor counts with 1 ≤ tested ≤ total predictors");
+      }
+      return {
+        powerAt: (n, effect) => regressionPower(n, effect, alpha, tested, predictors),
+        minimumSampleSize: predictors + 2,
+        effectSearchRange: [1e-6, 10],
+        groupSizes: (n) => [n],
+        parameters: { predictors, testedPredictors: tested },
+        formula: `Power = 1 - F(F_crit; u, N - p - 1, λ), where λ = f² × N, u = ${tested}, p = ${predictors}`,
+        assumptions: [
+          "Effect size is Cohen's f² for the tested predictors (ΔR² / (1 - R²_full))",
+          `${tested} of ${predictors} predictors tested`,
+          "Fixed-effects linear model",
+          "Normally distributed residuals with constant variance",
+          "Independent observations"
+        ]
+      };
+
+    case 'logistic regression':
+      const eventRate = params.eventRate;
+      if (eventRate === undefined || eventRate <= 0 || eventRate >= 1) {
+        throw new ValidationError("Logistic regression requires an event rate between 0 and 1");
+      }
+      const rSquaredOther = params.rSquaredOther ?? 0;
+      if (rSquaredOther < 0 || rSquaredOther >= 1) throw new ValidationError("R² with other covariates must lie in [0, 1)");
+      const logisticDirection = (params.effectSize ?? 2) > 1 ? 1 : -1;
+      // Hsieh (1998): variance inflation 1/(1 - R²) for correlated covariates
+      const information = eventRate * (1 - eventRate) * (1 - rSquaredOther);
+
+      return {
+        powerAt: (n, effect) => normalCDF(Math.abs(Math.log(effect)) * Math.sqrt(n * information) - zAlpha),
+        minimumSampleSize: 2,
+        effectSearchRange: logisticDirection > 0 ? [1 + 1e-6, 100] : [1 - 1e-6, 1e-3],
+        closedFormSampleSize: (effect, power) =>
+          Math.max(2, Math.ceil(Math.pow(zAlpha + getPowerZScore(power), 2) / (information * Math.pow(Math.log(effect), 2)))),
+        groupSizes: (n) => [n],
+        details: (_, n) => ({ expectedEvents: Math.round(n * eventRate * 10) / 10 }),
+        describeEffect: (effect) => `Odds ratio = ${round(effect, 4)} per SD increase in the covariate`,
+        parameters: { eventRate, rSquaredOther },
+        formula: "N = (z_α/2 + z_β)² / (P(1 - P) × (ln OR)² × (1 - R²)), Hsieh (1998)",
+        assumptions: [
+          `Overall event rate P = ${eventRate}`,
+          `R² of the covariate with other covariates = ${rSquaredOther}`,
+          "Normally distributed continuous covariate",
+          "Wald test of a single logistic regression coefficient",
+          "Independent observations"
+        ]
+      };
+
+    case 'correlation test':
+      return {
+        powerAt: (n, effect) => correlationPower(n, effect, alpha),
+        minimumSampleSize: 4,
+        effectSearchRange: [1e-6, 0.9999],
+        groupSizes: (n) => [n],
+        formula: "Power = Φ(|z_r|√(n - 3) - z_α/2), where z_r = ½ ln((1 + r)/(1 - r))",
+        assumptions: [
+          keyed('normality', "Bivariate normal distribution"),
+          "Linear relationship",
+          "Independent observations",
+          keyed('continuousOutcome', "Continuous variables")
+        ]
+      };
+
+    case 'mann-whitney test':
+    case 'wilcoxon rank-sum test':
+    case 'wilcoxon signed-rank test':
+    case 'kruskal-wallis test':
+      return getRankDesign(testType.toLowerCase(), params);
+
+    case 'auc comparison': {
+      const { auc1, aucCorrelation, controlsPerCase = 1 } = params;
+      if (auc1 === undefined || auc1 <= 0.5 || auc1 >= 1) throw new ValidationError("A reference AUC between 0.5 and 1 is required");
+      if (aucCorrelation !== undefined && (aucCorrelation < 0 || aucCorrelation >= 1)) {
+        throw new ValidationError("AUC correlation must lie in [0, 1)");
+      }
+      if (!(controlsPerCase > 0)) throw new ValidationError("Controls per case must be positive");
+      const paired = aucCorrelation !== undefined;
+      const correlation = aucCorrelation ?? 0;
+      const controls = (n: number) => Math.ceil(n * controlsPerCase - 1e-9);
+      return {
+        // Power at the whole number of controls that groupSizes reports
+        powerAt: (n, effect) => aucComparisonPower(n, controls(n), auc1, auc1 + effect, correlation, alpha),
+        minimumSampleSize: 2,
+        effectSearchRange: [1e-6, 1 - auc1 - 1e-6],
+        groupSizes: (n) => paired ? [n, controls(n)] : [n, controls(n), n, controls(n)],
+        reportGroupSizes: true,
+        parameters: { auc1, auc2: params.auc2, aucCorrelation, controlsPerCase },
+        describeEffect: (effect) => `AUC ${auc1} vs ${round(auc1 + effect, 4)}`,
+        formula: "Power = Φ(|Δ| / SE - z_α/2), SE² = V(A₁) + V(A₂) - 2r√(V(A₁)V(A₂)), "
+          + "V(A) = [A(1 - A) + (n₁ - 1)(Q₁ - A²) + (n₀ - 1)(Q₂ - A²)] / (n₁n₀), Q₁ = A/(2 - A), Q₂ = 2A²/(1 + A)",
+        assumptions: [
+          "Hanley-McNeil (1982) variance of each AUC",
+          paired
+            ? `Both tests read on the same subjects; AUC estimates correlated at r = ${correlation} (Hanley-McNeil 1983 / Obuchowski)`
+            : "Each test evaluated on its own independent sample of cases and controls",
+          `${controlsPerCase} non-diseased control(s) per diseased case; sample sizes count cases`,
+          "Reference standard available for every participant"
+        ]
+      };
+    }
+
+    case 'two-sample t-test':
+    case 'independent t-test':
+      return {
+        powerAt: (n, effect) => tTestPower(n, effect, alpha, false),
+        minimumSampleSize: 2,
+        allowsClustering: true,
+        allowsBaselineAdjustment: true,
+        effectSearchRange: [1e-6, 10],
+        approximateSampleSize: (effect, power) =>
+          Math.ceil(2 * Math.pow(zAlpha + getPowerZScore(power), 2) / Math.pow(effect, 2)),
+        groupSizes: (n) => [n, n],
+        formula: "Power = 1 - T(t_crit; df, λ) + T(-t_crit; df, λ), where df = 2(n - 1), λ = δ√(n/2)",
+        assumptions: [
+          keyed('normality', "Normal distribution"),
+          keyed('equalVariances', "Equal variances"),
+          "Independent observations",
+          keyed('continuousOutcome', "Continuous outcome variable")
+        ]
+      };
 
     default:
-      // Default to two-sample t-test
-      const zAlphaDef = getZScore(alpha);
-      const zBetaDef = getPowerZScore(power);
-      sampleSize = Math.ceil(2 * Math.pow(zAlphaDef + zBetaDef, 2) / Math.pow(effectSize, 2));
-      formula = "n = 2 × (z_α/2 + z_β)² / δ²";
-      assumptions = [
-        "Normal distribution",
-        "Equal variances",
+      throw new ValidationError(`Unsupported test type: ${testType}`);
+  }
+}
+
+function getRankDesign(testType: string, params: SampleSizeParams): PowerDesign {
+  const { alpha, groups = 3, parentDistribution = 'normal' } = params;
+  if (!(parentDistribution in RANK_EFFICIENCY)) throw new ValidationError("Parent distribution must be normal, logistic or laplace");
+  const efficiency = RANK_EFFICIENCY[parentDistribution];
+  const zAlpha = inverseNormalCDF(1 - alpha / 2);
+  const parentText = `${PARENT_LABELS[parentDistribution]} parent distribution with a pure location shift; effect in SD units`;
+  const parentAssumption = parentDistribution === 'normal' ? keyed('normality', parentText) : parentText;
+
+  if (testType === 'wilcoxon signed-rank test') {
+    return {
+      powerAt: (n, effect) => tTestPower(n * efficiency, effect, alpha, true),
+      minimumSampleSize: 2,
+      effectSearchRange: [1e-6, 10],
+      groupSizes: (n) => [n],
+      formula: `n = n_paired-t / ARE; Power = paired t-test power at n × ARE, ARE = ${round(efficiency, 4)}`,
+      assumptions: [
+        "Effect size is Cohen's d_z of the paired differences",
+        parentAssumption,
+        "Differences symmetric about their median",
+        `Asymptotic relative efficiency ${round(efficiency, 4)} versus the paired t-test`,
+        "Independent pairs"
+      ]
+    };
+  }
+
+  if (testType === 'kruskal-wallis test') {
+    if (!Number.isInteger(groups) || groups < 2) {
+      throw new ValidationError("Kruskal-Wallis tests require an integer number of groups of at least 2");
+    }
+    return {
+      powerAt: (n, effect) => anovaPower(n * efficiency, effect, alpha, groups),
+      minimumSampleSize: 2,
+      effectSearchRange: [1e-6, 10],
+      groupSizes: (n) => Array(groups).fill(n),
+      formula: `n = n_ANOVA / ARE; Power = one-way ANOVA power at n × ARE with k = ${groups}, ARE = ${round(efficiency, 4)}`,
+      assumptions: [
+        "Effect size is Cohen's f (SD of group location shifts / common SD)",
+        parentAssumption,
+        "Identically shaped distributions across groups",
+        `Asymptotic relative efficiency ${round(efficiency, 4)} versus one-way ANOVA`,
+        keyed('equalGroupSizes', "Equal group sizes"),
         "Independent observations"
-      ];
+      ]
+    };
   }
 
-  const totalSampleSize = testType.toLowerCase().includes('paired') ? sampleSize : sampleSize * groups;
-  const adjustedSampleSize = Math.ceil(totalSampleSize * 1.2); // 20% dropout adjustment
+  const method = params.rankTestMethod ?? 'are';
+  if (method === 'noether') {
+    // Noether (1987) with equal allocation: N = (z_α/2 + z_β)² / (3(p' - ½)²)
+    const superiority = (effect: number) => probabilityOfSuperiority(effect, parentDistribution);
+    return {
+      powerAt: (n, effect) => normalCDF(Math.sqrt(6 * n) * Math.abs(superiority(effect) - 0.5) - zAlpha),
+      minimumSampleSize: 2,
+      effectSearchRange: [1e-6, 10],
+      closedFormSampleSize: (effect, power) => Math.max(2, Math.ceil(
+        Math.pow(zAlpha + inverseNormalCDF(power), 2) / (6 * Math.pow(superiority(effect) - 0.5, 2))
+      )),
+      groupSizes: (n) => [n, n],
+      describeEffect: (effect) => `Cohen's d = ${round(effect, 4)}, P(Y > X) = ${round(superiority(effect), 4)}`,
+      parameters: { parentDistribution, rankTestMethod: method },
+      formula: "N = (z_α/2 + z_β)² / (12·c(1 - c)·(p' - ½)²), c = ½, p' = P(Y > X)",
+      assumptions: [
+        parentAssumption,
+        "Noether approximation to the Mann-Whitney U test variance under H₀",
+        keyed('equalGroupSizes', "Equal group sizes"),
+        "Independent observations"
+      ]
+    };
+  }
 
+  if (method !== 'are') throw new ValidationError("Rank test method must be are or noether");
   return {
-    sampleSize,
-    totalSampleSize,
-    adjustedSampleSize,
-    formula,
-    assumptions
+    powerAt: (n, effect) => tTestPower(n * efficiency, effect, alpha, false),
+    minimumSampleSize: 2,
+    effectSearchRange: [1e-6, 10],
+    groupSizes: (n) => [n, n],
+    parameters: { parentDistribution, rankTestMethod: method },
+    formula: `n = n_t / ARE; Power = two-sample t-test power at n × ARE, ARE = ${round(efficiency, 4)}`,
+    assumptions: [
+      "Effect size is Cohen's d",
+      parentAssumption,
+      `Asymptotic relative efficiency ${round(efficiency, 4)} versus the two-sample t-test`,
+      keyed('equalGroupSizes', "Equal group sizes"),
+      "Independent observations"
+    ]
+  };
+}
+
+// Pitman efficiency of the Wilcoxon-type rank tests relative to the t and F tests
+const RANK_EFFICIENCY: Record<ParentDistribution, number> = {
+  normal: 3 / Math.PI,
+  logistic: Math.PI * Math.PI / 9,
+  laplace: 1.5
+};
+
+const PARENT_LABELS: Record<ParentDistribution, string> = {
+  normal: 'Normal',
+  logistic: 'Logistic',
+  laplace: 'Laplace (double exponential)'
+};
+
+function probabilityOfSuperiority(effect: number, parent: ParentDistribution): number {
+  // P(Y > X) when Y is X shifted by effect standard deviations
+  switch (parent) {
+    case 'laplace': {
+      // Difference of two Laplace(b) variables; SD = b√2
+      const shift = Math.abs(effect) * Math.SQRT2;
+      const upper = 1 - Math.exp(-shift) * (1 + shift / 2) / 2;
+      return effect >= 0 ? upper : 1 - upper;
+    }
+    case 'logistic': {
+      // No closed form: integrate f(x)·F(x + δ) for the standard logistic (SD = π/√3)
+      const shift = effect * Math.PI / Math.sqrt(3);
+      const cdf = (x: number) => 1 / (1 + Math.exp(-x));
+      const intervals = 2000;
+      const h = 60 / intervals;
+      let total = 0;
+      for (let i = 0; i <= intervals; i++) {
+        const x = -30 + i * h;
+        const weight = i === 0 || i === intervals ? 1 : i % 2 === 1 ? 4 : 2;
+        total += weight * cdf(x) * (1 - cdf(x)) * cdf(x + shift);
+      }
+      return total * h / 3;
+    }
+    default:
+      return normalCDF(effect / Math.SQRT2);
+  }
+}
+
+function getMarginDesign(testType: string, hypothesisType: MarginHypothesis, params: SampleSizeParams): PowerDesign {
+  const { alpha, margin } = params;
+  if (margin === undefined || margin <= 0) {
+    throw new ValidationError("Margin-based hypotheses require a positive margin");
+  }
+
+  // One-sided tests at α/2 match a two-sided (1 - α) confidence interval;
+  // TOST uses α per side, matching the conventional (1 - 2α) interval
+  const sidedAlpha = hypothesisType === 'equivalence' ? alpha : alpha / 2;
+  const zAlpha = inverseNormalCDF(1 - sidedAlpha);
+  const label = HYPOTHESIS_LABELS[hypothesisType];
+
+  // Distance between the true effect and the null boundary; power needs it positive
+  const marginDistance = (effect: number) => {
+    switch (hypothesisType) {
+      case 'nonInferiority': return effect + margin;
+      case 'superiorityByMargin': return effect - margin;
+      default: return margin - Math.abs(effect);
+    }
+  };
+  const searchSampleSize = (powerAt: (n: number, effect: number) => number) => (effect: number, power: number) => {
+    if (marginDistance(effect) <= 0) {
+      throw new ValidationError(`The assumed effect lies inside the null hypothesis of the ${label.toLowerCase()} test`);
+    }
+    return findMinimumSampleSize((n) => powerAt(n, effect), power, 2);
+  };
+  const hypothesisAssumptions = [
+    `${label} hypothesis, ${HYPOTHESIS_STATEMENTS[hypothesisType]}, margin M = ${margin}`,
+    hypothesisType === 'equivalence'
+      ? `Two one-sided tests, each at α = ${sidedAlpha}`
+      : `One-sided test at α/2 = ${sidedAlpha}`,
+    ...(params.marginRationale ? [`Margin rationale: ${params.marginRationale}`] : [])
+  ];
+  const parameters = { hypothesisType, margin, marginRationale: params.marginRationale };
+
+  switch (testType.toLowerCase()) {
+    case 'proportion test':
+      const p1 = params.baselineProportion;
+      if (p1 === undefined || p1 <= 0 || p1 >= 1) {
+        throw new ValidationError("Proportion tests require a control proportion between 0 and 1");
+      }
+      const ratio = params.allocationRatio ?? 1;
+      if (ratio <= 0) throw new ValidationError("Allocation ratio must be positive");
+
+      const proportionPowerAt = (n: number, effect: number) => {
+        const p2 = p1 + effect;
+        const se = Math.sqrt(p1 * (1 - p1) / n + p2 * (1 - p2) / Math.ceil(ratio * n));
+        return marginTestPower(hypothesisType, effect, margin, se, (signal) => normalCDF(signal - zAlpha));
+      };
+      const room: [number, number] = [p1 - 1e-6, 1 - p1 - 1e-6];
+      return {
+        powerAt: proportionPowerAt,
+        minimumSampleSize: 2,
+        allowsClustering: true,
+        effectSearchRange: marginSearchRange(hypothesisType, margin, room),
+        closedFormSampleSize: searchSampleSize(proportionPowerAt),
+        groupSizes: (n) => [n, Math.ceil(ratio * n)],
+        reportGroupSizes: true,
+        details: (effect) => ({ treatmentProportion: p1 + effect }),
+        describeEffect: (effect) => `Control proportion p₁ = ${p1}, treatment proportion p₂ = ${round(p1 + effect, 4)}`,
+        parameters,
+        formula: MARGIN_PROPORTION_FORMULAS[hypothesisType],
+        assumptions: [
+          ...hypothesisAssumptions,
+          "Margin on the risk difference scale (p₂ - p₁)",
+          `Allocation ratio n₂/n₁ = ${ratio}`,
+          "Unpooled (Wald) variance under the alternative",
+          keyed('binaryOutcome', "Binary outcome variable"),
+          "Independent observations"
+        ]
+      };
+
+    case 'paired t-test':
+    case 'dependent t-test':
+    case 'two-sample t-test':
+    case 'independent t-test':
+      const paired = ['paired t-test', 'dependent t-test'].includes(testType.toLowerCase());
+      const meansPowerAt = (n: number, effect: number) => {
+        const df = paired ? n - 1 : 2 * (n - 1);
+        const scale = paired ? Math.sqrt(n) : Math.sqrt(n / 2);
+        const tCritical = tQuantile(1 - sidedAlpha, df);
+        return marginTestPower(hypothesisType, effect, margin, 1 / scale, (ncp) => 1 - noncentralTCDF(tCritical, df, ncp));
+      };
+      return {
+        powerAt: meansPowerAt,
+        minimumSampleSize: 2,
+        allowsClustering: !paired,
+        effectSearchRange: marginSearchRange(hypothesisType, margin, [10, 10]),
+        closedFormSampleSize: searchSampleSize(meansPowerAt),
+        approximateSampleSize: (effect, power) => {
+          // Equivalence at zero true difference splits β between the two tests
+          const beta = hypothesisType === 'equivalence' && effect === 0 ? (1 - power) / 2 : 1 - power;
+          const z = zAlpha + inverseNormalCDF(1 - beta);
+          return Math.ceil((paired ? 1 : 2) * z * z / Math.pow(marginDistance(effect), 2));
+        },
+        groupSizes: (n) => paired ? [n] : [n, n],
+        describeEffect: (effect) => `True standardized difference Δ = ${round(effect, 4)}`,
+        parameters,
+        formula: MARGIN_MEANS_FORMULAS[hypothesisType]
+          .replace(/SCALE/g, paired ? '√n' : '√(n/2)')
+          .replace('DF', paired ? 'n - 1' : '2(n - 1)'),
+        assumptions: [
+          ...hypothesisAssumptions,
+          "Effect and margin in standard deviation units (Cohen's d)",
+          keyed('normality', paired ? "Normal distribution of differences" : "Normal distribution"),
+          paired ? "Paired observations" : keyed('equalVariances', "Equal variances"),
+          keyed('continuousOutcome', "Continuous outcome variable")
+        ]
+      };
+
+    default:
+      throw new ValidationError("Margin-based hypotheses are supported for t-tests and proportion tests");
+  }
+}
+
+function applyBaselineAdjustment(design: PowerDesign, params: SampleSizeParams): PowerDesign {
+  const { baselineCorrelation: rho } = params;
+  if (rho === undefined) return design;
+  if (!design.allowsBaselineAdjustment) throw new ValidationError("This test type does not support baseline (ANCOVA) adjustment");
+  if (!(rho > -1 && rho < 1)) throw new ValidationError("Baseline correlation must lie strictly between -1 and 1");
+
+  // Adjusting for baseline leaves residual variance σ²(1 - ρ²), inflating the standardized effect
+  const varianceFactor = 1 - rho * rho;
+  const scale = 1 / Math.sqrt(varianceFactor);
+  return {
+    ...design,
+    powerAt: (n, effect) => design.powerAt(n, effect * scale),
+    closedFormSampleSize: design.closedFormSampleSize
+      ? (effect, power) => design.closedFormSampleSize!(effect * scale, power)
+      : undefined,
+    approximateSampleSize: design.approximateSampleSize
+      ? (effect, power) => design.approximateSampleSize!(effect * scale, power)
+      : undefined,
+    parameters: { ...design.parameters, baselineCorrelation: rho },
+    formula: `${design.formula}; ANCOVA: effect / √(1 - ρ²), i.e. n × (1 - ρ²)`,
+    assumptions: [
+      `ANCOVA adjustment for baseline with correlation ρ = ${rho} (variance factor ${round(varianceFactor, 4)})`,
+      "Common baseline-outcome slope in all groups",
+      ...design.assumptions
+    ]
+  };
+}
+
+function applyClustering(design: PowerDesign, params: SampleSizeParams): PowerDesign {
+  const { clusterSize, icc, clusterSizeCv = 0 } = params;
+  if (clusterSize === undefined) return design;
+  if (!design.allowsClustering) throw new ValidationError("This test type does not support cluster randomization");
+  if (!(clusterSize >= 1)) throw new ValidationError("Cluster size must be at least 1");
+  if (icc === undefined || !(icc >= 0 && icc < 1)) throw new ValidationError("An ICC in [0, 1) is required for cluster-randomized designs");
+  if (!(clusterSizeCv >= 0)) throw new ValidationError("Cluster size CV must be non-negative");
+
+  // Eldridge et al. (2006) design effect allowing for variable cluster sizes
+  const designEffect = 1 + ((clusterSizeCv * clusterSizeCv + 1) * clusterSize - 1) * icc;
+  // n counts individuals per arm; rounding up to whole clusters
+  const toWholeClusters = (individuals: number) => Math.ceil(Math.ceil(individuals / clusterSize - 1e-9) * clusterSize);
+
+  return {
+    ...design,
+    powerAt: (n, effect) => design.powerAt(n / designEffect, effect),
+    minimumSampleSize: Math.max(toWholeClusters(2 * clusterSize), design.minimumSampleSize),
+    // Every arm, including one scaled by an allocation ratio, enrols whole clusters
+    groupSizes: (n) => design.groupSizes(n).map(toWholeClusters),
+    closedFormSampleSize: (effect, power) =>
+      toWholeClusters(Math.max(solveSampleSize(design, effect, power) * designEffect, 2 * clusterSize)),
+    approximateSampleSize: design.approximateSampleSize
+      ? (effect, power) => Math.ceil(design.approximateSampleSize!(effect, power) * designEffect)
+      : undefined,
+    details: (effect, n, power) => ({
+      // Details such as expected events describe the enrolled sample, not its effective size
+      ...design.details?.(effect, n, power),
+      designEffect: round(designEffect, 4),
+      clustersPerArm: design.groupSizes(n).map((individuals) => Math.ceil(individuals / clusterSize - 1e-9))
+    }),
+    parameters: { ...design.parameters, clusterSize, icc, clusterSizeCv },
+    formula: `${design.formula}; n_clustered = n × DE, DE = 1 + ((CV² + 1)·m - 1)·ICC`,
+    assumptions: [
+      `Cluster randomization with mean cluster size m = ${clusterSize}, ICC = ${icc}, CV of cluster sizes = ${clusterSizeCv}`,
+      `Design effect DE = ${round(designEffect, 4)}`,
+      "Common ICC across arms",
+      ...design.assumptions
+    ]
+  };
+}
+
+function applyGroupSequential(design: PowerDesign, params: SampleSizeParams): PowerDesign {
+  const { looks, informationFractions, spendingFunction = 'lanDeMetsObrienFleming', futilityBoundaries = false } = params;
+  if (looks === undefined || looks === 1) return design;
+  if (params.hypothesisType === 'equivalence') {
+    throw new ValidationError("Group sequential boundaries are not available for equivalence hypotheses");
+  }
+
+  const target = params.power ?? 0.8;
+  const sequential = designGroupSequential({
+    looks,
+    informationFractions,
+    spendingFunction,
+    futility: futilityBoundaries,
+    alpha: params.alpha,
+    power: target
+  });
+  // A fixed-sample power maps to the drift E[Z] of the final analysis
+  const zAlpha = inverseNormalCDF(1 - params.alpha / 2);
+  const drift = (power: number) => zAlpha + inverseNormalCDF(Math.min(Math.max(power, 1e-12), 1 - 1e-12));
+
+  return {
+    ...design,
+    powerAt: (n, effect) => groupSequentialPower(sequential, drift(design.powerAt(n, effect))),
+    // The boundaries are planned for one target power, so the fixed-design closed form no longer applies
+    closedFormSampleSize: undefined,
+    approximateSampleSize: design.approximateSampleSize
+      ? (effect, power) => Math.ceil(design.approximateSampleSize!(effect, power) * sequential.maxInflation)
+      : undefined,
+    details: (effect, n, power) => ({
+      ...design.details?.(effect, n, power),
+      groupSequential: {
+        ...sequential,
+        looks: sequential.looks.map((look) => ({ ...look, sampleSize: Math.ceil(n * look.informationFraction - 1e-9) })),
+        expectedSampleSizeH0: round(n * sequential.expectedInflationH0 / sequential.maxInflation, 1),
+        expectedSampleSizeH1: round(n * sequential.expectedInflationH1 / sequential.maxInflation, 1)
+      }
+    }),
+    parameters: { ...design.parameters, looks, informationFractions, spendingFunction, futilityBoundaries },
+    formula: `${design.formula}; n_max ≈ R × n_fixed with boundaries from recursive numerical integration`,
+    assumptions: [...describeGroupSequential(sequential), ...design.assumptions]
   };
 }
 
+function resolveEffectSize(testType: string, params: SampleSizeParams): number {
+  const type = testType.toLowerCase();
+  // Margin-based hypotheses are commonly powered at no true difference
+  const allowsNoEffect = (params.hypothesisType ?? 'superiority') !== 'superiority';
+  if (type === 'proportion test') {
+    const p1 = params.baselineProportion as number;
+    return resolveTreatmentProportion(params, p1) - p1;
+  }
+  if (['chi-square test', 'chi-square independence test', 'chi-square goodness-of-fit test'].includes(type)) {
+    const w = params.cellProportions
+      ? cohensW(params.cellProportions, type === 'chi-square goodness-of-fit test' ? params.nullProportions : undefined)
+      : params.effectSize;
+    if (w === undefined || !(w > 0)) throw new ValidationError("A positive Cohen's w or cell proportions that depart from the null are required");
+    return w;
+  }
+  if (type === 'mcnemar test') {
+    const { discordantProportion10: p10, discordantProportion01: p01 } = params;
+    const difference = p10 !== undefined && p01 !== undefined ? p10 - p01 : params.effectSize;
+    if (difference === undefined || difference === 0) {
+      throw new ValidationError("Unequal discordant proportions or a non-zero difference p₁₀ - p₀₁ is required");
+    }
+    return difference;
+  }
+  if (['crossover t-test', 'ab/ba crossover'].includes(type) && params.meanDifference !== undefined) {
+    const { meanDifference, withinSubjectSd } = params;
+    if (withinSubjectSd === undefined || withinSubjectSd <= 0) throw new ValidationError("A positive within-subject SD is required");
+    if (meanDifference === 0) throw new ValidationError("A non-zero treatment difference is required");
+    return meanDifference / withinSubjectSd;
+  }
+  if (type === 'auc comparison' && params.auc2 !== undefined) {
+    if (params.auc1 === undefined || params.auc2 === params.auc1) throw new ValidationError("The two AUCs must differ");
+    return round(params.auc2 - params.auc1, 10);
+  }
+  if (type === 'logistic regression') {
+    if (params.effectSize === undefined || params.effectSize <= 0 || params.effectSize === 1) {
+      throw new ValidationError("A positive odds ratio different from 1 is required");
+    }
+    return params.effectSize;
+  }
+  if (['poisson rate test', 'poisson regression', 'negative binomial rate test', 'negative binomial regression'].includes(type)) {
+    const rateRatio = params.rateRatio ?? params.effectSize;
+    if (rateRatio === undefined || rateRatio <= 0 || rateRatio === 1) {
+      throw new ValidationError("A positive rate ratio different from 1 is required");
+    }
+    return rateRatio;
+  }
+  if (['log-rank test', 'survival analysis'].includes(type)) {
+    const hazardRatio = params.hazardRatio ?? params.effectSize;
+    if (hazardRatio === undefined || hazardRatio <= 0 || hazardRatio === 1) {
+      throw new ValidationError("A positive hazard ratio different from 1 is required");
+    }
+    return hazardRatio;
+  }
+  if (params.effectSize === undefined || (params.effectSize === 0 && !allowsNoEffect)) {
+    throw new ValidationError("A non-zero effect size is required");
+  }
+  return params.effectSize;
+}
+
+function resolveAttrition(
+  params: Pick<SampleSizeParams, 'dropoutRate' | 'attritionSchedule' | 'armDropoutRates'>,
+  arms: number
+): AttritionAssumptions {
+  const { dropoutRate, attritionSchedule, armDropoutRates } = params;
+  const isRate = (rate: number) => Number.isFinite(rate) && rate >= 0 && rate < 1;
+
+  if (armDropoutRates !== undefined) {
+    if (armDropoutRates.length !== arms || !armDropoutRates.every(isRate)) {
+      throw new ValidationError(`Differential attrition needs one dropout rate in [0, 1) for each of the ${arms} arms`);
+    }
+    return { dropoutRate: Math.max(...armDropoutRates), armDropoutRates };
+  }
+
+  if (attritionSchedule !== undefined && attritionSchedule.length > 0) {
+    if (!attritionSchedule.every(isRate)) throw new ValidationError("Per-wave attrition rates must lie in [0, 1)");
+    // Losses compound across waves: retention is the product of per-wave retention
+    const retention = attritionSchedule.reduce((retained, rate) => retained * (1 - rate), 1);
+    return { dropoutRate: round(1 - retention, 6), attritionSchedule };
+  }
+
+  const rate = dropoutRate ?? 0;
+  if (!isRate(rate)) throw new ValidationError("Dropout rate must lie in [0, 1)");
+  return { dropoutRate: rate };
+}
+
+function describeAttrition({ dropoutRate, attritionSchedule, armDropoutRates }: AttritionAssumptions): string {
+  const percent = (rate: number) => `${round(rate * 100, 2)}%`;
+  if (armDropoutRates) {
+    return `Differential attrition by arm (${armDropoutRates.map(percent).join(', ')}), each arm inflated as n / (1 - d)`;
+  }
+  if (attritionSchedule) {
+    return `Attrition by wave (${attritionSchedule.map(percent).join(', ')}) giving ${percent(dropoutRate)} cumulative dropout, inflated as n / (1 - d)`;
+  }
+  return dropoutRate > 0 ? `${percent(dropoutRate)} dropout, inflated as n / (1 - d)` : "No attrition assumed";
+}
+
+function requirePower(params: SampleSizeParams): number {
+  if (params.power === undefined || params.power <= 0 || params.power >= 1) {
+    throw new ValidationError("Power must lie between 0 and 1");
+  }
+  return params.power;
+}
+
+function requireSampleSize(params: SampleSizeParams, design: PowerDesign): number {
+  const n = params.sampleSize;
+  if (n === undefined || !Number.isInteger(n) || n < design.minimumSampleSize) {
+    throw new ValidationError(`Sample size must be an integer of at least ${design.minimumSampleSize} per group`);
+  }
+  return n;
+}
+
 // Helper functions for statistical calculations
-function inverseNormalCDF(p: number): number {
-  // Approximation of the inverse normal cumulative distribution function
-  // Using Beasley-Springer-Moro algorithm (simplified)
-  const a = [0, -3.969683028665376e+01, 2.209460984245205e+02, 
-            -2.759285104469687e+02, 1.383577518672690e+02, 
-            -3.066479806614716e+01, 2.506628277459239e+00];
-  
-  const b = [0, -5.447609879822406e+01, 1.615858368580409e+02, 
-            -1.556989798598866e+02, 6.680131188771972e+01, 
-            -1.328068155288572e+01];
-  
-  const c = [0, -7.784894002430293e-03, -3.223964580411365e-01, 
-            -2.400758277161838e+00, -2.549732539343734e+00, 
-            4.374664141464968e+00, 2.938163982698783e+00];
-  
-  const d = [0, 7.784695709041462e-03, 3.224671290700398e-01, 
-            2.445134137142996e+00, 3.754408661907416e+00];
-
-  let x = p - 0.5;
-  
-  if (Math.abs(x) < 0.42) {
-    let r = x * x;
-    return x * (((a[4] * r + a[3]) * r + a[2]) * r + a[1]) * r + a[0] /
-           ((((b[4] * r + b[3]) * r + b[2]) * r + b[1]) * r + 1);
-  }
-  
-  let r = p;
-  if (x > 0) r = 1 - p;
-  r = Math.log(-Math.log(r));
-  
-  let ret = (((c[4] * r + c[3]) * r + c[2]) * r + c[1]) * r + c[0] /
-           ((d[4] * r + d[3]) * r + d[2]) * r + d[1] * r + 1;
-  
-  if (x < 0) ret = -ret;
-  return ret;
-}
-
-function getFCritical(alpha: number, df1: number, df2: number): number {
-  // Simplified F-critical value calculation
-  // In practice, you'd use a proper F-distribution table or library
-  if (alpha === 0.05 && df1 === 1) return 3.84;
-  if (alpha === 0.01 && df1 === 1) return 6.63;
-  return 3.84; // Default approximation
-}
-
-function calculateANOVASampleSize(effectSize: number, power: number, alpha: number, groups: number): number {
-  // Simplified ANOVA sample size calculation
-  // This is a basic approximation - in practice you'd use more sophisticated methods
-  const zAlpha = 1.96; // For α = 0.05
-  const zBeta = 0.842; // For power = 0.8
-  
-  return 2 * Math.pow(zAlpha + zBeta, 2) / (groups * Math.pow(effectSize, 2));
+function solveSampleSize(design: PowerDesign, effect: number, power: number): number {
+  return design.closedFormSampleSize
+    ? design.closedFormSampleSize(effect, power)
+    : findMinimumSampleSize((n) => design.powerAt(n, effect), power, design.minimumSampleSize);
+}
+
+function linearSpace(start: number, end: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => start + (end - start) * i / (count - 1));
+}
+
+function keyed(key: AssumptionKey, text: string): Assumption {
+  return { key, text };
+}
+
+function toAssumptions(entries: (string | Assumption)[]): Assumption[] {
+  return entries.map((entry) => typeof entry === 'string' ? { text: entry } : entry);
+}
+
+function tryOrNull(compute: () => number): number | null {
+  try {
+    const value = compute();
+    return Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function tTestPower(n: number, effectSize: number, alpha: number, paired: boolean): number {
+  // Two-sided power from the noncentral t distribution
+  const df = paired ? n - 1 : 2 * (n - 1);
+  const ncp = paired ? effectSize * Math.sqrt(n) : effectSize * Math.sqrt(n / 2);
+  const tCritical = tQuantile(1 - alpha / 2, df);
+  return 1 - noncentralTCDF(tCritical, df, ncp) + noncentralTCDF(-tCritical, df, ncp);
+}
+
+function crossoverPower(n: number, effectSize: number, alpha: number): number {
+  // The difference of sequence means of half period differences has variance σ_w² / n
+  const df = 2 * n - 2;
+  const ncp = effectSize * Math.sqrt(n);
+  const tCritical = tQuantile(1 - alpha / 2, df);
+  return 1 - noncentralTCDF(tCritical, df, ncp) + noncentralTCDF(-tCritical, df, ncp);
+}
+
+function hanleyMcNeilVariance(auc: number, cases: number, controls: number): number {
+  const q1 = auc / (2 - auc);
+  const q2 = 2 * auc * auc / (1 + auc);
+  return (auc * (1 - auc) + (cases - 1) * (q1 - auc * auc) + (controls - 1) * (q2 - auc * auc)) / (cases * controls);
+}
+
+function aucComparisonPower(
+  cases: number,
+  controls: number,
+  auc1: number,
+  auc2: number,
+  correlation: number,
+  alpha: number
+): number {
+  if (!(auc2 > 0 && auc2 < 1)) throw new ValidationError("The compared AUC must lie between 0 and 1");
+  const v1 = hanleyMcNeilVariance(auc1, cases, controls);
+  const v2 = hanleyMcNeilVariance(auc2, cases, controls);
+  const se = Math.sqrt(v1 + v2 - 2 * correlation * Math.sqrt(v1 * v2));
+  const zAlpha = inverseNormalCDF(1 - alpha / 2);
+  const z = Math.abs(auc2 - auc1) / se;
+  return normalCDF(z - zAlpha) + normalCDF(-z - zAlpha);
+}
+
+function chiSquarePower(n: number, w: number, alpha: number, df: number): number {
+  const critical = chiSquareQuantile(1 - alpha, df);
+  return 1 - noncentralChiSquareCDF(critical, df, w * w * n);
+}
+
+function mcnemarPower(n: number, difference: number, discordance: number, alpha: number): number {
+  const zAlpha = inverseNormalCDF(1 - alpha / 2);
+  return normalCDF(
+    (Math.abs(difference) * Math.sqrt(n) - zAlpha * Math.sqrt(discordance)) / Math.sqrt(discordance - difference * difference)
+  );
+}
+
+function resolveContingencyTable(params: SampleSizeParams, goodnessOfFit: boolean): { rows: number; columns: number; df: number } {
+  const { cellProportions } = params;
+  if (goodnessOfFit) {
+    const columns = cellProportions?.[0]?.length ?? params.nullProportions?.length ?? params.categories;
+    if (columns === undefined || !Number.isInteger(columns) || columns < 2) {
+      throw new ValidationError("Goodness-of-fit tests require at least 2 categories");
+    }
+    return { rows: 1, columns, df: columns - 1 };
+  }
+
+  // Without a table or its dimensions, keep the original 2 × 2 (df = 1) behaviour
+  const rows = cellProportions?.length ?? params.tableRows ?? 2;
+  const columns = cellProportions?.[0]?.length ?? params.tableColumns ?? 2;
+  if (!Number.isInteger(rows) || !Number.isInteger(columns) || rows < 2 || columns < 2) {
+    throw new ValidationError("Tests of independence require a table of at least 2 rows and 2 columns");
+  }
+  return { rows, columns, df: (rows - 1) * (columns - 1) };
+}
+
+function cohensW(cellProportions: number[][], nullProportions?: number[]): number {
+  // Independence compares each cell with the product of its margins; goodness of fit
+  // compares the single row of proportions with the null (uniform by default)
+  const cells = cellProportions.flat();
+  const columns = cellProportions[0]?.length ?? 0;
+  if (cellProportions.some((row) => row.length !== columns) || cells.some((p) => !(p >= 0))) {
+    throw new ValidationError("Cell proportions must form a rectangular table of non-negative values");
+  }
+  if (Math.abs(cells.reduce((sum, p) => sum + p, 0) - 1) > 1e-6) throw new ValidationError("Cell proportions must sum to 1");
+
+  let expected: number[];
+  if (cellProportions.length === 1) {
+    expected = nullProportions ?? Array(columns).fill(1 / columns);
+    if (expected.length !== columns || Math.abs(expected.reduce((sum, p) => sum + p, 0) - 1) > 1e-6 || expected.some((p) => !(p > 0))) {
+      throw new ValidationError("Null proportions must be positive, sum to 1 and match the number of categories");
+    }
+  } else {
+    const rowTotals = cellProportions.map((row) => row.reduce((sum, p) => sum + p, 0));
+    const columnTotals = cellProportions[0].map((_, j) => cellProportions.reduce((sum, row) => sum + row[j], 0));
+    expected = rowTotals.flatMap((rowTotal) => columnTotals.map((columnTotal) => rowTotal * columnTotal));
+    if (expected.some((p) => p <= 0)) throw new ValidationError("Every row and column of the table needs a positive total");
+  }
+  return Math.sqrt(cells.reduce((sum, p, i) => sum + Math.pow(p - expected[i], 2) / expected[i], 0));
+}
+
+function resolveDiscordance(params: SampleSizeParams): number {
+  const { discordantProportion10: p10, discordantProportion01: p01 } = params;
+  const discordance = p10 !== undefined && p01 !== undefined ? p10 + p01 : params.discordantProportion;
+  if (discordance === undefined) {
+    throw new ValidationError("McNemar designs require both discordant proportions, or their total when solving for the effect");
+  }
+  if ([p10, p01].some((p) => p !== undefined && (p < 0 || p > 1)) || discordance <= 0 || discordance > 1) {
+    throw new ValidationError("Discordant proportions must lie in [0, 1] with a positive total of at most 1");
+  }
+  return discordance;
+}
+
+function anovaPower(n: number, effectSize: number, alpha: number, groups: number): number {
+  // Omnibus F test power from the noncentral F distribution
+  const df1 = groups - 1;
+  const df2 = groups * (n - 1);
+  const fCritical = fQuantile(1 - alpha, df1, df2);
+  return 1 - noncentralFCDF(fCritical, df1, df2, effectSize * effectSize * groups * n);
+}
+
+const REPEATED_MEASURES_FORMULAS: Record<RepeatedMeasuresEffect, string> = {
+  between: "Power = 1 - F(F_crit; k - 1, N - k, λ), where λ = f² × N × m / (1 + (m - 1)ρ)",
+  within: "Power = 1 - F(F_crit; (m - 1)ε, (N - k)(m - 1)ε, λ), where λ = f² × N × m × ε / (1 - ρ)",
+  interaction: "Power = 1 - F(F_crit; (k - 1)(m - 1)ε, (N - k)(m - 1)ε, λ), where λ = f² × N × m × ε / (1 - ρ)"
+};
+
+const LONGITUDINAL_FORMULAS: Record<LongitudinalEffect, string> = {
+  timeAveraged: "n = 2(z_α/2 + z_β)² × (1 + (m - 1)ρ) / (m × d²)",
+  slope: "n = 2(z_α/2 + z_β)² × (1 - ρ) / (m × s_t² × d²), s_t² = (m² - 1)/12"
+};
+
+function resolveRepeatedMeasures(params: SampleSizeParams) {
+  const measurements = params.measurements;
+  if (measurements === undefined || !Number.isInteger(measurements) || measurements < 2) {
+    throw new ValidationError("Repeated-measures designs require at least 2 measurements per subject");
+  }
+  const correlation = params.repeatedMeasuresCorrelation ?? 0.5;
+  if (correlation < 0 || correlation >= 1) throw new ValidationError("Correlation among repeated measures must lie in [0, 1)");
+  const epsilon = params.sphericityEpsilon ?? 1;
+  if (epsilon < 1 / (measurements - 1) || epsilon > 1) {
+    throw new ValidationError(`Sphericity epsilon must lie between ${round(1 / (measurements - 1), 4)} and 1`);
+  }
+  return { measurements, correlation, epsilon };
+}
+
+function repeatedMeasuresPower(
+  n: number,
+  f: number,
+  alpha: number,
+  groups: number,
+  { measurements: m, correlation: rho, epsilon }: { measurements: number; correlation: number; epsilon: number },
+  effect: RepeatedMeasuresEffect
+): number {
+  // G*Power conventions with N = k × n subjects
+  const total = groups * n;
+  let df1: number;
+  let df2: number;
+  let ncp: number;
+  if (effect === 'between') {
+    df1 = groups - 1;
+    df2 = total - groups;
+    ncp = f * f * total * m / (1 + (m - 1) * rho);
+  } else {
+    df1 = (effect === 'within' ? 1 : groups - 1) * (m - 1) * epsilon;
+    df2 = (total - groups) * (m - 1) * epsilon;
+    ncp = f * f * total * m * epsilon / (1 - rho);
+  }
+  if (df2 <= 0) return 0;
+  const fCritical = fQuantile(1 - alpha, df1, df2);
+  return 1 - noncentralFCDF(fCritical, df1, df2, ncp);
+}
+
+function regressionPower(n: number, f2: number, alpha: number, tested: number, predictors: number): number {
+  // Cohen's F test of R² increase, with noncentrality λ = f² × N
+  const df2 = n - predictors - 1;
+  const fCritical = fQuantile(1 - alpha, tested, df2);
+  return 1 - noncentralFCDF(fCritical, tested, df2, f2 * n);
+}
+
+function correlationPower(n: number, r: number, alpha: number): number {
+  const zR = 0.5 * Math.log((1 + r) / (1 - r)); // Fisher's z-transformation
+  return normalCDF(Math.abs(zR) * Math.sqrt(n - 3) - inverseNormalCDF(1 - alpha / 2));
+}
+
+const PROPORTION_FORMULAS: Record<ProportionMethod, string> = {
+  pooled: "n₁ = [z_α/2 √(p̄q̄(1 + 1/r)) + z_β √(p₁q₁ + p₂q₂/r)]² / (p₂ - p₁)², p̄ = (p₁ + r·p₂)/(1 + r), n₂ = r·n₁",
+  unpooled: "n₁ = (z_α/2 + z_β)² × (p₁q₁ + p₂q₂/r) / (p₂ - p₁)², n₂ = r·n₁",
+  arcsine: "n₁ = (z_α/2 + z_β)² × (1 + 1/r) / h², h = 2·asin√p₂ - 2·asin√p₁, n₂ = r·n₁"
+};
+
+function resolveTreatmentProportion(params: SampleSizeParams, p1: number): number {
+  let p2: number;
+  if (params.treatmentProportion !== undefined) {
+    p2 = params.treatmentProportion;
+  } else if (params.riskRatio !== undefined) {
+    p2 = p1 * params.riskRatio;
+  } else if (params.oddsRatio !== undefined) {
+    p2 = params.oddsRatio * p1 / (1 - p1 + params.oddsRatio * p1);
+  } else if (params.effectSize !== undefined) {
+    p2 = p1 + params.effectSize; // Effect as difference in proportions
+  } else {
+    throw new ValidationError("Specify a treatment proportion, risk ratio, odds ratio or risk difference");
+  }
+
+  if (p2 <= 0 || p2 >= 1) throw new ValidationError("Treatment proportion must lie between 0 and 1");
+  if (p2 === p1 && (params.hypothesisType ?? 'superiority') === 'superiority') {
+    throw new ValidationError("Treatment and control proportions must differ");
+  }
+  return p2;
+}
+
+function proportionEffectDirection(params: SampleSizeParams): number {
+  // Searches for a decrease only when the supplied effect points that way
+  const { baselineProportion = 0, treatmentProportion, riskRatio, oddsRatio, effectSize } = params;
+  if (treatmentProportion !== undefined) return treatmentProportion < baselineProportion ? -1 : 1;
+  if (riskRatio !== undefined) return riskRatio < 1 ? -1 : 1;
+  if (oddsRatio !== undefined) return oddsRatio < 1 ? -1 : 1;
+  if (effectSize !== undefined) return effectSize < 0 ? -1 : 1;
+  return 1;
+}
+
+function proportionControlSampleSize(
+  p1: number,
+  p2: number,
+  ratio: number,
+  method: ProportionMethod,
+  zAlpha: number,
+  zBeta: number
+): number {
+  const q1 = 1 - p1;
+  const q2 = 1 - p2;
+  switch (method) {
+    case 'unpooled':
+      return Math.ceil(Math.pow(zAlpha + zBeta, 2) * (p1 * q1 + p2 * q2 / ratio) / Math.pow(p2 - p1, 2));
+    case 'arcsine':
+      const h = 2 * Math.asin(Math.sqrt(p2)) - 2 * Math.asin(Math.sqrt(p1));
+      return Math.ceil(Math.pow(zAlpha + zBeta, 2) * (1 + 1 / ratio) / Math.pow(h, 2));
+    case 'pooled':
+    default:
+      const pBar = (p1 + ratio * p2) / (1 + ratio);
+      const numerator = zAlpha * Math.sqrt(pBar * (1 - pBar) * (1 + 1 / ratio)) + zBeta * Math.sqrt(p1 * q1 + p2 * q2 / ratio);
+      return Math.ceil(Math.pow(numerator, 2) / Math.pow(p2 - p1, 2));
+  }
+}
+
+function proportionPower(p1: number, p2: number, n1: number, n2: number, method: ProportionMethod, alpha: number): number {
+  const zAlpha = inverseNormalCDF(1 - alpha / 2);
+  const unpooledSE = Math.sqrt(p1 * (1 - p1) / n1 + p2 * (1 - p2) / n2);
+  switch (method) {
+    case 'unpooled':
+      return normalCDF(Math.abs(p2 - p1) / unpooledSE - zAlpha);
+    case 'arcsine':
+      const h = 2 * Math.asin(Math.sqrt(p2)) - 2 * Math.asin(Math.sqrt(p1));
+      return normalCDF(Math.abs(h) / Math.sqrt(1 / n1 + 1 / n2) - zAlpha);
+    case 'pooled':
+    default:
+      const pBar = (n1 * p1 + n2 * p2) / (n1 + n2);
+      const pooledSE = Math.sqrt(pBar * (1 - pBar) * (1 / n1 + 1 / n2));
+      return normalCDF((Math.abs(p2 - p1) - zAlpha * pooledSE) / unpooledSE);
+  }
+}
+
+type MarginHypothesis = Exclude<HypothesisType, 'superiority'>;
+
+const HYPOTHESIS_LABELS: Record<HypothesisType, string> = {
+  superiority: 'Superiority',
+  nonInferiority: 'Non-inferiority',
+  superiorityByMargin: 'Superiority by margin',
+  equivalence: 'Equivalence'
+};
+
+const HYPOTHESIS_STATEMENTS: Record<MarginHypothesis, string> = {
+  nonInferiority: "H₀: Δ ≤ -M vs. H₁: Δ > -M",
+  superiorityByMargin: "H₀: Δ ≤ M vs. H₁: Δ > M",
+  equivalence: "H₀: |Δ| ≥ M vs. H₁: |Δ| < M"
+};
+
+const MARGIN_MEANS_FORMULAS: Record<MarginHypothesis, string> = {
+  nonInferiority: "Power = 1 - T(t_α/2; df, λ), where df = DF, λ = (Δ + M)SCALE",
+  superiorityByMargin: "Power = 1 - T(t_α/2; df, λ), where df = DF, λ = (Δ - M)SCALE",
+  equivalence: "Power ≈ 1 - T(t_α; df, (M + Δ)SCALE) - T(t_α; df, (M - Δ)SCALE), where df = DF"
+};
+
+const MARGIN_PROPORTION_FORMULAS: Record<MarginHypothesis, string> = {
+  nonInferiority: "Power = Φ((p₂ - p₁ + M)/SE - z_α/2), SE = √(p₁q₁/n₁ + p₂q₂/n₂), n₂ = r·n₁",
+  superiorityByMargin: "Power = Φ((p₂ - p₁ - M)/SE - z_α/2), SE = √(p₁q₁/n₁ + p₂q₂/n₂), n₂ = r·n₁",
+  equivalence: "Power ≈ Φ((M + p₂ - p₁)/SE - z_α) + Φ((M - p₂ + p₁)/SE - z_α) - 1, SE = √(p₁q₁/n₁ + p₂q₂/n₂)"
+};
+
+function marginTestPower(
+  hypothesisType: MarginHypothesis,
+  effect: number,
+  margin: number,
+  standardError: number,
+  oneSidedPower: (signal: number) => number
+): number {
+  switch (hypothesisType) {
+    case 'nonInferiority':
+      return oneSidedPower((effect + margin) / standardError);
+    case 'superiorityByMargin':
+      return oneSidedPower((effect - margin) / standardError);
+    default:
+      // TOST rejects both one-sided nulls; the Bonferroni bound is tight once power is useful
+      return Math.max(0, oneSidedPower((margin + effect) / standardError) + oneSidedPower((margin - effect) / standardError) - 1);
+  }
+}
+
+function marginSearchRange(hypothesisType: MarginHypothesis, margin: number, [below, above]: [number, number]): [number, number] {
+  // Detectable effects run from the null boundary towards the most favourable effect
+  switch (hypothesisType) {
+    case 'nonInferiority':
+      return [Math.max(-margin, -below) + 1e-6, above];
+    case 'superiorityByMargin':
+      if (margin >= above) throw new ValidationError("Margin leaves no room for a detectable effect");
+      return [margin + 1e-6, above];
+    default:
+      return [Math.min(margin, above) - 1e-6, 0];
+  }
+}
+
+const SURVIVAL_FORMULAS: Record<SurvivalMethod, string> = {
+  schoenfeld: "D = (z_α/2 + z_β)² × (1 + r)² / (r × (ln HR)²); N = D / P(event)",
+  freedman: "D = (z_α/2 + z_β)² × (1 + r·HR)² / (r × (1 - HR)²); N = D / P(event)"
+};
+
+const COUNT_FORMULAS = {
+  poisson: "n₁ = (z_α/2 + z_β)² × [1/(t·λ₀) + 1/(r·t·λ₁)] / (ln RR)², λ₁ = RR·λ₀",
+  negativeBinomial: "n₁ = (z_α/2 + z_β)² × [1/(t·λ₀) + 1/(r·t·λ₁) + k(1 + r)/r] / (ln RR)², λ₁ = RR·λ₀"
+};
+
+function resolveControlHazard(params: SampleSizeParams): number {
+  if (params.controlMedianSurvival !== undefined) {
+    if (params.controlMedianSurvival <= 0) throw new ValidationError("Median survival must be positive");
+    return Math.LN2 / params.controlMedianSurvival;
+  }
+  if (params.controlEventRate !== undefined) {
+    if (params.controlEventRate <= 0 || params.controlEventRate >= 1) {
+      throw new ValidationError("Control event rate must lie between 0 and 1");
+    }
+    return -Math.log(1 - params.controlEventRate);
+  }
+  throw new ValidationError("Survival designs require a control median survival or event rate");
+}
+
+function exponentialEventProbability(hazard: number, lossHazard: number, accrual: number, followUp: number): number {
+  // Probability of an observed event under uniform accrual over [0, accrual] and
+  // administrative censoring at accrual + followUp, with competing exponential loss
+  const totalHazard = hazard + lossHazard;
+  const share = hazard / totalHazard;
+  if (accrual === 0) return share * (1 - Math.exp(-totalHazard * followUp));
+  const censored = (Math.exp(-totalHazard * followUp) - Math.exp(-totalHazard * (accrual + followUp))) / (totalHazard * accrual);
+  return share * (1 - censored);
+}
+
+function logRankEvents(hazardRatio: number, ratio: number, method: SurvivalMethod, zAlpha: number, zBeta: number): number {
+  if (method === 'freedman') {
+    return Math.pow(zAlpha + zBeta, 2) * Math.pow(1 + ratio * hazardRatio, 2) / (ratio * Math.pow(1 - hazardRatio, 2));
+  }
+  return Math.pow(zAlpha + zBeta, 2) * Math.pow(1 + ratio, 2) / (ratio * Math.pow(Math.log(hazardRatio), 2));
+}
+
+function logRankPower(events: number, hazardRatio: number, ratio: number, method: SurvivalMethod, alpha: number): number {
+  const zAlpha = inverseNormalCDF(1 - alpha / 2);
+  const signal = method === 'freedman'
+    ? Math.sqrt(events * ratio) * Math.abs(1 - hazardRatio) / (1 + ratio * hazardRatio)
+    : Math.sqrt(events * ratio) * Math.abs(Math.log(hazardRatio)) / (1 + ratio);
+  return normalCDF(signal - zAlpha);
+}
+
+function findMinimumSampleSize(powerAt: (n: number) => number, targetPower: number, minimum: number): number {
+  // Power is monotone in n: double until the target is reached, then bisect
+  let low = minimum;
+  if (powerAt(low) >= targetPower) return low;
+
+  let high = low * 2;
+  while (powerAt(high) < targetPower) {
+    low = high;
+    high *= 2;
+    if (high > 1e7) throw new ValidationError("Required sample size exceeds 10,000,000");
+  }
+
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (powerAt(mid) >= targetPower) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+function findMinimumDetectableEffect(
+  powerAt: (effect: number) => number,
+  targetPower: number,
+  [weakest, strongest]: [number, number]
+): number {
+  // Power grows with the size of the effect: bisect between the search bounds
+  if (powerAt(strongest) < targetPower) {
+    throw new ValidationError("No effect size within range reaches the target power at this sample size");
+  }
+
+  let weak = weakest;
+  let strong = strongest;
+  for (let i = 0; i < 100 && Math.abs(strong - weak) > 1e-6; i++) {
+    const mid = (weak + strong) / 2;
+    if (powerAt(mid) >= targetPower) strong = mid;
+    else weak = mid;
+  }
+  return round(strong, 6);
 }
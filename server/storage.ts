@@ -1,4 +1,4 @@
-import { type User, type InsertUser, type Hypothesis, type InsertHypothesis, type Method, type InsertMethod, type SampleSizeCalculation, type InsertSampleSizeCalculation, type CitationVerification, type InsertCitationVerification, type Protocol, type InsertProtocol } from "@shared/schema";
+import { type User, type InsertUser, type Hypothesis, type InsertHypothesis, type Method, type InsertMethod, type SampleSizeCalculation, type InsertSampleSizeCalculation, type CitationVerification, type InsertCitationVerification, type Protocol, type InsertProtocol, type AnalysisResult, type InsertAnalysisResult } from "@shared/schema";
 import { randomUUID } from "crypto";
 
 export interface IStorage {
@@ -15,12 +15,17 @@ export interface IStorage {
   
   createSampleSizeCalculation(calculation: InsertSampleSizeCalculation): Promise<SampleSizeCalculation>;
   getSampleSizeCalculationsByUser(userId: string): Promise<SampleSizeCalculation[]>;
+  getSampleSizeCalculation(id: string): Promise<SampleSizeCalculation | undefined>;
   
   createCitationVerification(verification: InsertCitationVerification): Promise<CitationVerification>;
   getCitationVerificationsByUser(userId: string): Promise<CitationVerification[]>;
   
   createProtocol(protocol: InsertProtocol): Promise<Protocol>;
   getProtocolsByUser(userId: string): Promise<Protocol[]>;
+
+  createAnalysisResult(result: InsertAnalysisResult): Promise<AnalysisResult>;
+  getAnalysisResultsByUser(userId: string): Promise<AnalysisResult[]>;
+  getAnalysisResultsByCalculation(calculationId: string): Promise<AnalysisResult[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -30,6 +35,7 @@ export class MemStorage implements IStorage {
   private sampleSizeCalculations: Map<string, SampleSizeCalculation>;
   private citationVerifications: Map<string, CitationVerification>;
   private protocols: Map<string, Protocol>;
+  private analysisResults: Map<string, AnalysisResult>;
 
   constructor() {
     this.users = new Map();
@@ -38,6 +44,7 @@ export class MemStorage implements IStorage {
     this.sampleSizeCalculations = new Map();
     this.citationVerifications = new Map();
     this.protocols = new Map();
+    this.analysisResults = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -104,7 +111,30 @@ export class MemStorage implements IStorage {
       ...insertCalculation, 
       id, 
       userId: insertCalculation.userId || "default-user",
-      createdAt: new Date() 
+      createdAt: new Date(),
+      solveFor: insertCalculation.solveFor || "sampleSize",
+      hypothesisType: insertCalculation.hypothesisType || "superiority",
+      effectSize: insertCalculation.effectSize ?? null,
+      power: insertCalculation.power ?? null,
+      halfWidth: insertCalculation.halfWidth ?? null,
+      margin: insertCalculation.margin ?? null,
+      marginRationale: insertCalculation.marginRationale ?? null,
+      achievedPower: insertCalculation.achievedPower ?? null,
+      groups: insertCalculation.groups ?? null,
+      baselineProportion: insertCalculation.baselineProportion ?? null,
+      treatmentProportion: insertCalculation.treatmentProportion ?? null,
+      allocationRatio: insertCalculation.allocationRatio ?? null,
+      proportionMethod: insertCalculation.proportionMethod ?? null,
+      clusterSize: insertCalculation.clusterSize ?? null,
+      icc: insertCalculation.icc ?? null,
+      clusterSizeCv: insertCalculation.clusterSizeCv ?? null,
+      designEffect: insertCalculation.designEffect ?? null,
+      clustersPerArm: insertCalculation.clustersPerArm ?? null,
+      dropoutRate: insertCalculation.dropoutRate ?? null,
+      attrition: insertCalculation.attrition ?? null,
+      groupSequential: insertCalculation.groupSequential ?? null,
+      multiplicity: insertCalculation.multiplicity ?? null,
+      designParameters: insertCalculation.designParameters ?? null
     };
     this.sampleSizeCalculations.set(id, calculation);
     return calculation;
@@ -114,6 +144,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.sampleSizeCalculations.values()).filter(c => c.userId === userId);
   }
 
+  async getSampleSizeCalculation(id: string): Promise<SampleSizeCalculation | undefined> {
+    return this.sampleSizeCalculations.get(id);
+  }
+
   async createCitationVerification(insertVerification: InsertCitationVerification & { userId?: string }): Promise<CitationVerification> {
     const id = randomUUID();
     const verification: CitationVerification = { 
@@ -148,6 +182,30 @@ export class MemStorage implements IStorage {
   async getProtocolsByUser(userId: string): Promise<Protocol[]> {
     return Array.from(this.protocols.values()).filter(p => p.userId === userId);
   }
+
+  async createAnalysisResult(insertResult: InsertAnalysisResult & { userId?: string }): Promise<AnalysisResult> {
+    const id = randomUUID();
+    const result: AnalysisResult = {
+      ...insertResult,
+      id,
+      userId: insertResult.userId || "default-user",
+      createdAt: new Date(),
+      calculationId: insertResult.calculationId ?? null,
+      degreesOfFreedom: insertResult.degreesOfFreedom ?? null,
+      achievedPower: insertResult.achievedPower ?? null,
+      details: insertResult.details ?? null
+    };
+    this.analysisResults.set(id, result);
+    return result;
+  }
+
+  async getAnalysisResultsByUser(userId: string): Promise<AnalysisResult[]> {
+    return Array.from(this.analysisResults.values()).filter(r => r.userId === userId);
+  }
+
+  async getAnalysisResultsByCalculation(calculationId: string): Promise<AnalysisResult[]> {
+    return Array.from(this.analysisResults.values()).filter(r => r.calculationId === calculationId);
+  }
 }
 
 export const storage = new MemStorage();
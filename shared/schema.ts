@@ -37,14 +37,35 @@ export const sampleSizeCalculations = pgTable("sample_size_calculations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
   testType: text("test_type").notNull(),
-  effectSize: real("effect_size").notNull(),
-  power: real("power").notNull(),
+  solveFor: text("solve_for").default("sampleSize").notNull(), // sampleSize, power, effectSize, precision, bayesian
+  hypothesisType: text("hypothesis_type").default("superiority").notNull(), // superiority, nonInferiority, superiorityByMargin, equivalence
+  margin: real("margin"),
+  marginRationale: text("margin_rationale"),
+  effectSize: real("effect_size"), // null for precision-based calculations; prior mean for bayesian ones
+  power: real("power"),
+  halfWidth: real("half_width"), // target confidence interval half-width for precision-based calculations
   alpha: real("alpha").notNull(),
+  groups: integer("groups"),
+  baselineProportion: real("baseline_proportion"),
+  treatmentProportion: real("treatment_proportion"),
+  allocationRatio: real("allocation_ratio"),
+  proportionMethod: text("proportion_method"), // pooled, unpooled, arcsine
+  clusterSize: real("cluster_size"),
+  icc: real("icc"),
+  clusterSizeCv: real("cluster_size_cv"),
+  designEffect: real("design_effect"),
+  clustersPerArm: integer("clusters_per_arm").array(),
+  designParameters: jsonb("design_parameters"), // design-specific inputs, e.g. survival accrual and follow-up
   sampleSize: integer("sample_size").notNull(),
   totalSampleSize: integer("total_sample_size").notNull(),
   adjustedSampleSize: integer("adjusted_sample_size").notNull(),
+  dropoutRate: real("dropout_rate"),
+  attrition: jsonb("attrition"), // dropout rate, per-wave schedule and per-arm rates
+  groupSequential: jsonb("group_sequential"), // interim boundaries and sample size inflation
+  multiplicity: jsonb("multiplicity"), // adjustment method, adjusted alpha and n per endpoint
+  achievedPower: real("achieved_power"),
   formula: text("formula").notNull(),
-  assumptions: text("assumptions").notNull(),
+  assumptions: jsonb("assumptions").notNull(), // { key?, text } entries; keyed ones can be checked against data
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -72,6 +93,29 @@ export const protocols = pgTable("protocols", {
   exportedAt: timestamp("exported_at").defaultNow().notNull(),
 });
 
+export const analysisResults = pgTable("analysis_results", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  calculationId: varchar("calculation_id").references(() => sampleSizeCalculations.id), // the planning calculation, if any
+  testType: text("test_type").notNull(),
+  variables: jsonb("variables").notNull(), // outcome, group, predictor and covariate columns
+  sampleSize: integer("sample_size").notNull(), // complete cases analyzed
+  statisticName: text("statistic_name").notNull(), // t, F, χ², z
+  statistic: real("statistic").notNull(),
+  degreesOfFreedom: real("degrees_of_freedom").array(),
+  pValue: real("p_value").notNull(),
+  alpha: real("alpha").notNull(),
+  effectSizeMetric: text("effect_size_metric").notNull(), // d, dz, f, f2, w, r, rankBiserial
+  effectSize: real("effect_size").notNull(),
+  effectSizeLower: real("effect_size_lower").notNull(),
+  effectSizeUpper: real("effect_size_upper").notNull(),
+  confidenceLevel: real("confidence_level").notNull(),
+  achievedPower: real("achieved_power"), // power of the collected sample for the planned effect
+  details: jsonb("details"), // group summaries, regression coefficients or the contingency table
+  summary: text("summary").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -107,6 +151,12 @@ export const insertProtocolSchema = createInsertSchema(protocols).omit({
   exportedAt: true,
 });
 
+export const insertAnalysisResultSchema = createInsertSchema(analysisResults).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertHypothesis = z.infer<typeof insertHypothesisSchema>;
@@ -119,3 +169,5 @@ export type InsertCitationVerification = z.infer<typeof insertCitationVerificati
 export type CitationVerification = typeof citationVerifications.$inferSelect;
 export type InsertProtocol = z.infer<typeof insertProtocolSchema>;
 export type Protocol = typeof protocols.$inferSelect;
+export type InsertAnalysisResult = z.infer<typeof insertAnalysisResultSchema>;
+export type AnalysisResult = typeof analysisResults.$inferSelect;